@@ -2,33 +2,117 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { RepositoryProvider } from "./contexts/RepositoryContext";
+import { AuthProvider } from "./contexts/AuthContext";
+import ProtectedRoute from "./components/ProtectedRoute";
+import StoreLayout from "./components/StoreLayout";
+import StoreRedirect from "./components/StoreRedirect";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import Inventory from "./pages/Inventory";
 import Orders from "./pages/Orders";
+import SuggestedOrders from "./pages/SuggestedOrders";
+import Vendors from "./pages/Vendors";
+import ItemHistory from "./pages/ItemHistory";
+import ItemMaster from "./pages/ItemMaster";
+import CatalogImport from "./pages/CatalogImport";
+import CycleCounts from "./pages/CycleCounts";
+import CycleCountSession from "./pages/CycleCountSession";
 import Merchandising from "./pages/Merchandising";
+import PlanogramEditor from "./pages/PlanogramEditor";
+import PlanogramCompliance from "./pages/PlanogramCompliance";
+import Promotions from "./pages/Promotions";
+import ShelfLabels from "./pages/ShelfLabels";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Reads fall back to the IndexedDB mirror and writes go to the outbox, so
+// neither should be paused by react-query while the browser is offline.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { networkMode: "offlineFirst" },
+    mutations: { networkMode: "always" },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Login />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/inventory" element={<Inventory />} />
-          <Route path="/orders" element={<Orders />} />
-          <Route path="/merchandising" element={<Merchandising />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <RepositoryProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Login />} />
+              <Route element={<ProtectedRoute />}>
+                {/* Store-less links resolve to the employee's current store */}
+                <Route path="/dashboard" element={<StoreRedirect />} />
+                <Route path="/inventory" element={<StoreRedirect />} />
+                <Route path="/orders" element={<StoreRedirect />} />
+                <Route path="/merchandising" element={<StoreRedirect />} />
+                <Route path="/stores/:storeId" element={<StoreLayout />}>
+                  <Route index element={<Navigate to="dashboard" replace />} />
+                  <Route path="dashboard" element={<Dashboard />} />
+                  <Route path="inventory" element={<ProtectedRoute permission="inventory.view"><Inventory /></ProtectedRoute>} />
+                  <Route
+                    path="inventory/cycle-counts"
+                    element={<ProtectedRoute permission="inventory.count"><CycleCounts /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="inventory/cycle-counts/:sessionId"
+                    element={<ProtectedRoute permission="inventory.count"><CycleCountSession /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="inventory/items"
+                    element={<ProtectedRoute permission="inventory.manage"><ItemMaster /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="inventory/import"
+                    element={<ProtectedRoute permission="inventory.manage"><CatalogImport /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="inventory/labels"
+                    element={<ProtectedRoute permission="inventory.view"><ShelfLabels /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="inventory/:itemId"
+                    element={<ProtectedRoute permission="inventory.view"><ItemHistory /></ProtectedRoute>}
+                  />
+                  <Route path="orders" element={<ProtectedRoute permission="orders.view"><Orders /></ProtectedRoute>} />
+                  <Route
+                    path="orders/suggested"
+                    element={<ProtectedRoute permission="orders.manage"><SuggestedOrders /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="orders/vendors"
+                    element={<ProtectedRoute permission="orders.view"><Vendors /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="merchandising"
+                    element={<ProtectedRoute permission="merchandising.view"><Merchandising /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="merchandising/planograms/:planogramId"
+                    element={<ProtectedRoute permission="merchandising.view"><PlanogramEditor /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="merchandising/compliance"
+                    element={<ProtectedRoute permission="merchandising.view"><PlanogramCompliance /></ProtectedRoute>}
+                  />
+                  <Route
+                    path="merchandising/promotions"
+                    element={<ProtectedRoute permission="merchandising.view"><Promotions /></ProtectedRoute>}
+                  />
+                </Route>
+              </Route>
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </RepositoryProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,38 @@
+import { encodeEan } from "@/lib/eanEncoder";
+
+interface BarcodeProps {
+  code: string;
+  className?: string;
+}
+
+// Quiet zone either side of the bars, in modules.
+const QUIET_ZONE = 9;
+
+// Draws the code as EAN-13 / UPC-A bars with its digits underneath. Codes that
+// can't be drawn are printed as text so the label is still usable at the till.
+const Barcode = ({ code, className }: BarcodeProps) => {
+  const encoded = encodeEan(code);
+  if (!encoded) {
+    return code ? <div className={`font-mono text-[8pt] ${className ?? ""}`}>{code}</div> : null;
+  }
+
+  const width = encoded.modules.length + QUIET_ZONE * 2;
+  return (
+    <svg
+      viewBox={`0 0 ${width} 60`}
+      className={className}
+      role="img"
+      aria-label={`${encoded.format} ${encoded.text}`}
+    >
+      <rect width={width} height={60} fill="white" />
+      {encoded.modules.map((bar, index) =>
+        bar ? <rect key={index} x={QUIET_ZONE + index} width={1} height={50} fill="black" /> : null
+      )}
+      <text x={width / 2} y={59} textAnchor="middle" fontSize={9} fontFamily="monospace" fill="black">
+        {encoded.text}
+      </text>
+    </svg>
+  );
+};
+
+export default Barcode;
@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { decodeEan } from "@/lib/eanDecoder";
+import type { InventoryItem } from "@/lib/types";
+import { CameraOff, CheckCircle2, XCircle } from "lucide-react";
+
+// Frames are downscaled to this width before decoding; plenty for a barcode
+// that fills a third of the frame and much cheaper than full resolution.
+const SCAN_WIDTH = 800;
+const SCAN_INTERVAL_MS = 150;
+// A code held in view is only reported again once it has been out of view this long.
+const REPEAT_AFTER_MS = 1000;
+
+export interface ScanResult {
+  code: string;
+  item?: InventoryItem;
+}
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  countPerScan: boolean;
+  canCount: boolean;
+  lastScan: ScanResult | null;
+  onOpenChange: (open: boolean) => void;
+  onCountPerScanChange: (enabled: boolean) => void;
+  onDetected: (code: string) => void;
+}
+
+const cameraErrorMessage = (error: Error) => {
+  if (error.name === "NotAllowedError") return "Camera access was blocked. Allow it in the browser to scan.";
+  if (error.name === "NotFoundError") return "No camera found on this device.";
+  return `Couldn't start the camera: ${error.message}`;
+};
+
+const BarcodeScannerDialog = ({
+  open,
+  countPerScan,
+  canCount,
+  lastScan,
+  onOpenChange,
+  onCountPerScanChange,
+  onDetected,
+}: BarcodeScannerDialogProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    if (!open) return;
+    let stream: MediaStream | undefined;
+    let timer: number | undefined;
+    let cancelled = false;
+    let last = { code: "", seenAt: 0 };
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      if (video && context && video.readyState >= video.HAVE_ENOUGH_DATA) {
+        // Only the middle band of the frame, where the guide line is.
+        const bandHeight = video.videoHeight * 0.4;
+        const scale = Math.min(1, SCAN_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(bandHeight * scale);
+        context.drawImage(
+          video,
+          0,
+          (video.videoHeight - bandHeight) / 2,
+          video.videoWidth,
+          bandHeight,
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+        const result = decodeEan(context.getImageData(0, 0, canvas.width, canvas.height));
+        const now = Date.now();
+        if (result) {
+          const isRepeat = result.text === last.code && now - last.seenAt < REPEAT_AFTER_MS;
+          last = { code: result.text, seenAt: now };
+          if (!isRepeat) onDetectedRef.current(result.text);
+        }
+      }
+      timer = window.setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    setCameraError(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          void videoRef.current.play();
+        }
+        scanFrame();
+      })
+      .catch((error: Error) => setCameraError(cameraErrorMessage(error)));
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Scan Barcode</DialogTitle>
+          <DialogDescription>
+            Hold an EAN-13 or UPC-A barcode across the line.
+            {countPerScan ? " Each scan adds 1 to the item's count." : " The item opens as soon as it's found."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative aspect-video rounded-lg bg-muted overflow-hidden">
+          {cameraError ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-6 text-center text-sm text-muted-foreground">
+              <CameraOff className="h-8 w-8" />
+              {cameraError}
+            </div>
+          ) : (
+            <>
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              <div className="absolute inset-x-6 top-1/2 h-0.5 bg-destructive/80" />
+            </>
+          )}
+        </div>
+
+        {lastScan && (
+          <div className="flex items-center gap-2 text-sm">
+            {lastScan.item ? (
+              <>
+                <CheckCircle2 className="h-4 w-4 text-success" />
+                <span>
+                  {countPerScan ? "Counted" : "Found"} <span className="font-medium">{lastScan.item.name}</span>
+                  {countPerScan && ` · now ${lastScan.item.count}`}
+                </span>
+              </>
+            ) : (
+              <>
+                <XCircle className="h-4 w-4 text-destructive" />
+                <span>No item with barcode {lastScan.code}</span>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <Label htmlFor="count-per-scan" className="space-y-1">
+            <span className="block">Rapid count</span>
+            <span className="block text-xs font-normal text-muted-foreground">Add 1 to the count for every scan</span>
+          </Label>
+          <Switch
+            id="count-per-scan"
+            checked={countPerScan}
+            onCheckedChange={onCountPerScanChange}
+            disabled={!canCount}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeScannerDialog;
@@ -0,0 +1,104 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  CycleCountSession,
+  LineStatus,
+  lineStatus,
+  lineStatusLabels,
+  summarize,
+  variance,
+} from "@/lib/cycleCount";
+
+const statusVariants: Record<LineStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  matched: "secondary",
+  variance: "destructive",
+  needs_recount: "destructive",
+};
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+interface CycleCountReportProps {
+  session: CycleCountSession;
+  onSelectLine?: (index: number) => void;
+}
+
+// Summary figures and the per-item variance table, used both to review a count
+// before posting and as the report afterwards.
+const CycleCountReport = ({ session, onSelectLine }: CycleCountReportProps) => {
+  const summary = summarize(session);
+  const stats = [
+    { label: "Counted", value: `${summary.counted} / ${summary.lines}` },
+    { label: "Within tolerance", value: summary.matched },
+    { label: "Flagged", value: summary.flagged, className: summary.flagged > 0 ? "text-warning" : "" },
+    { label: "Recounted", value: summary.recounted },
+    { label: "Units over / short", value: `+${summary.unitsOver} / -${summary.unitsShort}` },
+    {
+      label: "Value impact",
+      value: formatCurrency(summary.valueImpact),
+      className: summary.valueImpact < 0 ? "text-destructive" : "text-success",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label} className="shadow-soft border border-border/50">
+            <CardContent className="p-4 text-center">
+              <div className={`text-xl font-bold mb-1 ${stat.className ?? ""}`}>{stat.value}</div>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Expected</TableHead>
+            <TableHead className="text-right">Counted</TableHead>
+            <TableHead className="text-right">Recount</TableHead>
+            <TableHead className="text-right">Variance</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {session.lines.map((line, index) => {
+            const status = lineStatus(line, session.tolerance);
+            const delta = variance(line);
+            return (
+              <TableRow
+                key={line.itemId}
+                onClick={onSelectLine && (() => onSelectLine(index))}
+                className={onSelectLine ? "cursor-pointer" : ""}
+              >
+                <TableCell>
+                  <p className="font-medium">{line.itemName}</p>
+                  <p className="text-xs text-muted-foreground">{line.itemId}</p>
+                </TableCell>
+                <TableCell className="text-right">{line.expected ?? "—"}</TableCell>
+                <TableCell className="text-right">{line.counted ?? "—"}</TableCell>
+                <TableCell className="text-right">{line.recount ?? "—"}</TableCell>
+                <TableCell
+                  className={`text-right font-semibold ${delta > 0 ? "text-success" : delta < 0 ? "text-destructive" : ""}`}
+                >
+                  {delta > 0 ? "+" : ""}
+                  {delta}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={statusVariants[status]}>{lineStatusLabels[status]}</Badge>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default CycleCountReport;
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useSubmitPurchaseOrder } from "@/hooks/use-orders";
+import { checkMinimumOrder, nextDeliveryDate, PurchaseOrderError, VendorGroup } from "@/lib/vendors";
+import type { Order } from "@/lib/types";
+import { AlertTriangle, Send, Truck } from "lucide-react";
+
+interface DraftPurchaseOrdersProps {
+  groups: VendorGroup<Order>[];
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Draft orders waiting to be sent, one row per vendor, each submitted as a single PO.
+// A PO below the vendor's minimum needs confirming, and one that fails part way
+// is finished, under the same PO number, by submitting the row again.
+const DraftPurchaseOrders = ({ groups }: DraftPurchaseOrdersProps) => {
+  const submit = useSubmitPurchaseOrder();
+  // The last failed submit per vendor id ("" for drafts without a vendor).
+  const [failures, setFailures] = useState<Record<string, PurchaseOrderError | undefined>>({});
+
+  return (
+    <Card className="shadow-medium border border-border/50 mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Draft Purchase Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 pt-0 divide-y">
+        {groups.map(({ vendor, entries }) => {
+          const units = entries.reduce((total, order) => total + order.count, 0);
+          const shortfall = vendor
+            ? checkMinimumOrder(vendor, entries.map(order => ({ itemId: order.itemId, quantity: order.count })))
+            : null;
+          const isSubmitting = submit.isPending && submit.variables?.vendor?.id === vendor?.id;
+          const key = vendor?.id ?? "";
+          const failure = failures[key];
+          const unfinished = failure?.submitted.length ? failure.purchaseOrderId : undefined;
+          const send = (belowMinimum = false) =>
+            submit.mutate(
+              { vendor, drafts: entries, purchaseOrderId: unfinished, belowMinimum },
+              {
+                onSuccess: () => setFailures(current => ({ ...current, [key]: undefined })),
+                onError: error => {
+                  if (error instanceof PurchaseOrderError) setFailures(current => ({ ...current, [key]: error }));
+                },
+              }
+            );
+          const label = isSubmitting
+            ? "Submitting..."
+            : unfinished
+              ? `Finish ${unfinished}`
+              : vendor
+                ? "Submit PO"
+                : "Submit Orders";
+          return (
+            <div key={vendor?.id ?? "unassigned"} className="flex items-start justify-between gap-4 py-4">
+              <div className="space-y-1">
+                <p className="font-semibold">
+                  {vendor?.name ?? "No vendor"}
+                  <Badge variant="secondary" className="ml-2">
+                    {entries.length} item{entries.length === 1 ? "" : "s"} · {units} units
+                  </Badge>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {entries.map(order => order.itemName).join(", ")}
+                </p>
+                {vendor && (
+                  <p className="text-sm text-muted-foreground">
+                    Submitted today, arrives {formatDay(nextDeliveryDate(vendor))}
+                  </p>
+                )}
+                {shortfall && !unfinished && (
+                  <p className="flex items-center gap-1 text-sm text-warning">
+                    <AlertTriangle className="h-4 w-4" />
+                    Below minimum order: {shortfall}
+                  </p>
+                )}
+                {failure && (
+                  <p className="flex items-center gap-1 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {failure.submitted.length > 0 &&
+                      `Sent ${failure.submitted.length} of ${failure.submitted.length + failure.remaining.length}${
+                        unfinished ? ` on ${unfinished}` : ""
+                      }. `}
+                    {failure.message}
+                  </p>
+                )}
+              </div>
+              {shortfall && !unfinished ? (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" disabled={submit.isPending} className="gap-2 shrink-0">
+                      <Send className="h-4 w-4" />
+                      {label}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Submit below {vendor.name}'s minimum?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This PO is {shortfall}. The vendor may refuse it or add a small-order fee.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep as Draft</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => send(true)}>Submit Anyway</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              ) : (
+                <Button onClick={() => send()} disabled={submit.isPending} className="gap-2 shrink-0">
+                  <Send className="h-4 w-4" />
+                  {label}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DraftPurchaseOrders;
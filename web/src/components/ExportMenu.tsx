@@ -0,0 +1,39 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Cell } from "@/lib/csv";
+import { downloadTable, TableFormat, tableFormatLabels } from "@/lib/spreadsheet";
+import { Download } from "lucide-react";
+
+interface ExportMenuProps {
+  basename: string;
+  // Built on click so the export reflects what's on screen at that moment.
+  rows: () => Cell[][];
+  disabled?: boolean;
+}
+
+const formats: TableFormat[] = ['csv', 'xlsx'];
+
+const ExportMenu = ({ basename, rows, disabled }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" className="gap-2" disabled={disabled}>
+        <Download className="h-4 w-4" />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {formats.map(format => (
+        <DropdownMenuItem key={format} onSelect={() => downloadTable(rows(), { basename, format })}>
+          {tableFormatLabels[format]}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ExportMenu;
@@ -1,88 +1,158 @@
-import { useState } from "react";
+import { useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { InventoryItem as InventoryItemType } from "@/lib/mockData";
-import { Minus, Plus, Package } from "lucide-react";
-import { toast } from "sonner";
+import { InventoryItem as InventoryItemType, Order } from "@/lib/types";
+import type { Forecast } from "@/lib/forecasting";
+import { describePromotion, EffectivePrice } from "@/lib/promotions";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
+import ProductImage from "@/components/ProductImage";
+import { usePendingStatus } from "@/hooks/use-outbox";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useOrderPath } from "@/hooks/use-orders";
+import { useStore } from "@/contexts/StoreContext";
+import { orderStatusLabels } from "@/lib/orderLifecycle";
+import { isLowStock, stockLevel, stockLevelColors } from "@/lib/replenishment";
+import { validateGtin } from "@/lib/gtin";
+import { AlertTriangle, CalendarClock, Minus, Plus, Truck } from "lucide-react";
 
 interface InventoryItemProps {
   item: InventoryItemType;
-  onCountChange: (id: string, newCount: number) => void;
+  // The item's order that hasn't been received yet, if any.
+  openOrder?: Order;
+  forecast?: Forecast;
+  // Today's price after promotions; the catalog price is shown without one.
+  pricing?: EffectivePrice;
+  // Set when the item was just scanned; scrolls the card into view.
+  highlighted?: boolean;
+  onCountChange: (id: string, delta: number) => void;
+  onReorder: (item: InventoryItemType) => void;
 }
 
-const InventoryItem = ({ item, onCountChange }: InventoryItemProps) => {
-  const [showAlert, setShowAlert] = useState(false);
+const formatCover = (days: number | null) => {
+  if (days === null) return "No recent sales";
+  if (days >= 90) return "90+ days of cover";
+  if (days < 1) return "Less than a day of cover";
+  return `${Math.floor(days)} days of cover`;
+};
 
-  const handleCountChange = (increment: boolean) => {
-    const newCount = increment ? item.count + 1 : Math.max(0, item.count - 1);
-    onCountChange(item.id, newCount);
-  };
+const coverColor = (days: number | null) => {
+  if (days === null || days >= 14) return "text-muted-foreground";
+  return days < 7 ? "text-destructive" : "text-warning";
+};
 
-  const handleReorder = () => {
-    setShowAlert(true);
-    toast.success("Item replenishment order has been made", {
-      description: `Order placed for ${item.name}`,
-    });
-    setTimeout(() => setShowAlert(false), 3000);
-  };
+const InventoryItem = ({
+  item,
+  openOrder,
+  forecast,
+  pricing,
+  highlighted,
+  onCountChange,
+  onReorder,
+}: InventoryItemProps) => {
+  const orderPath = useOrderPath();
+  const { storePath } = useStore();
+  const syncStatus = usePendingStatus(item.id);
+  const { can, canReorderItem } = usePermissions();
+  const canCount = can('inventory.count');
+  const canReorder = canReorderItem(item);
+  // Items synced from other systems may carry a code that fails validation.
+  const barcodeError = item.barcode ? validateGtin(item.barcode) : null;
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlighted) cardRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlighted]);
 
-  const getCountColor = (count: number) => {
-    if (count <= 10) return "text-destructive font-bold";
-    if (count <= 20) return "text-warning font-semibold";
-    return "text-success font-semibold";
+  const handleCountChange = (increment: boolean) => {
+    // Send a delta rather than the new total so concurrent edits from other
+    // devices are merged by the pn-counter instead of overwritten.
+    if (!increment && item.count === 0) return;
+    onCountChange(item.id, increment ? 1 : -1);
   };
 
   return (
-    <Card className="group relative overflow-hidden transition-all duration-300 hover:shadow-medium hover:scale-105 border border-border/50">
-      {showAlert && (
-        <div className="absolute inset-0 bg-success/95 flex items-center justify-center z-10 rounded-lg">
-          <div className="text-center text-success-foreground">
-            <Package className="h-8 w-8 mx-auto mb-2" />
-            <p className="font-semibold">Order Placed!</p>
-            <p className="text-sm">Replenishment order has been made</p>
-          </div>
-        </div>
-      )}
-      
+    <Card
+      ref={cardRef}
+      className={`group relative overflow-hidden transition-all duration-300 hover:shadow-medium hover:scale-105 border border-border/50 ${highlighted ? "ring-2 ring-primary" : ""}`}
+    >
       <CardContent className="p-4">
         <div className="flex flex-col h-full">
           {/* Item Image */}
-          <div className="w-full h-32 bg-muted rounded-lg mb-3 flex items-center justify-center overflow-hidden">
-            <img 
-              src={item.image} 
-              alt={item.name}
-              className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
-              onError={(e) => {
-                const target = e.target as HTMLImageElement;
-                target.style.display = 'none';
-                target.parentElement!.innerHTML = `<Package className="h-12 w-12 text-muted-foreground" />`;
-              }}
-            />
-          </div>
+          <ProductImage
+            item={item}
+            className="w-full h-32 rounded-lg mb-3"
+            imageClassName="group-hover:scale-110 transition-transform duration-300"
+          />
 
           {/* Item Info */}
           <div className="flex-1 space-y-2">
-            <h4 className="font-semibold text-lg">{item.name}</h4>
+            <h4 className="font-semibold text-lg">
+              <Link to={storePath(`/inventory/${encodeURIComponent(item.id)}`)} className="hover:underline">
+                {item.name}
+              </Link>
+            </h4>
             
             <div className="space-y-1 text-sm text-muted-foreground">
               <p><span className="font-medium">ID:</span> {item.id}</p>
               <p><span className="font-medium">Barcode:</span> {item.barcode}</p>
-              <p><span className="font-medium">Price:</span> ${item.price.toFixed(2)}</p>
+              {barcodeError && (
+                <p className="flex items-center gap-1 text-xs text-warning" title={barcodeError}>
+                  <AlertTriangle className="h-3 w-3" />
+                  Invalid barcode
+                </p>
+              )}
+              <p>
+                <span className="font-medium">Price:</span>{" "}
+                {pricing?.discount ? (
+                  <>
+                    <span className="line-through">${pricing.regular.toFixed(2)}</span>{" "}
+                    <span className="font-semibold text-success">${pricing.price.toFixed(2)}</span>
+                  </>
+                ) : (
+                  `$${(pricing?.regular ?? item.price).toFixed(2)}`
+                )}
+              </p>
+              {pricing && (pricing.discount || pricing.deals.length > 0) && (
+                <div className="flex flex-wrap gap-1">
+                  {[pricing.discount, ...pricing.deals].filter(Boolean).map(promotion => (
+                    <Badge key={promotion.id} variant="secondary" className="text-xs" title={promotion.name}>
+                      {describePromotion(promotion)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Count Display */}
             <div className="py-3">
               <div className="text-center mb-3">
                 <p className="text-sm font-medium mb-1">Inventory Count</p>
-                <div className={`text-4xl font-extrabold ${getCountColor(item.count)}`}>
+                <div className={`text-4xl font-extrabold ${stockLevelColors[stockLevel(item)]}`}>
                   {item.count}
                 </div>
-                {item.count <= 10 && (
+                {isLowStock(item) && (
                   <Badge variant="destructive" className="mt-1 text-xs">
                     Low Stock
                   </Badge>
                 )}
+                <PendingSyncBadge status={syncStatus} className="mt-1 ml-1" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Reorder at {item.reorderPoint} · Par {item.parLevel} · Pack of {item.packSize}
+                </p>
+                {forecast && (
+                  <div className="mt-2 text-xs">
+                    <p className={`flex items-center justify-center gap-1 font-medium ${coverColor(forecast.daysOfCover)}`}>
+                      <CalendarClock className="h-3 w-3" />
+                      {formatCover(forecast.daysOfCover)}
+                    </p>
+                    <p className="text-muted-foreground">
+                      ~{forecast.dailyDemand.toFixed(1)}/day
+                      {forecast.suggestedQuantity > 0 && ` · suggest ordering ${forecast.suggestedQuantity}`}
+                    </p>
+                  </div>
+                )}
               </div>
 
               {/* Count Controls */}
@@ -91,7 +161,7 @@ const InventoryItem = ({ item, onCountChange }: InventoryItemProps) => {
                   variant="outline"
                   size="icon"
                   onClick={() => handleCountChange(false)}
-                  disabled={item.count === 0}
+                  disabled={!canCount || item.count === 0}
                   className="h-8 w-8 rounded-full"
                 >
                   <Minus className="h-3 w-3" />
@@ -101,6 +171,7 @@ const InventoryItem = ({ item, onCountChange }: InventoryItemProps) => {
                   variant="outline"
                   size="icon"
                   onClick={() => handleCountChange(true)}
+                  disabled={!canCount}
                   className="h-8 w-8 rounded-full"
                 >
                   <Plus className="h-3 w-3" />
@@ -109,13 +180,28 @@ const InventoryItem = ({ item, onCountChange }: InventoryItemProps) => {
             </div>
 
             {/* Reorder Button */}
-            <Button 
-              onClick={handleReorder}
-              className="w-full"
-              size="sm"
-            >
-              Re-order now
-            </Button>
+            {openOrder ? (
+              <Button asChild variant="outline" className="w-full gap-2" size="sm">
+                <Link to={orderPath(openOrder.id)}>
+                  <Truck className="h-4 w-4" />
+                  On order · {orderStatusLabels[openOrder.status]}
+                </Link>
+              </Button>
+            ) : (
+              <Button
+                onClick={() => onReorder(item)}
+                disabled={!canReorder}
+                className="w-full"
+                size="sm"
+              >
+                Re-order now
+              </Button>
+            )}
+            {!openOrder && !canReorder && can('inventory.reorder') && (
+              <p className="text-xs text-center text-muted-foreground">
+                Only shift leads can re-order items above low stock
+              </p>
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,244 @@
+import { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import ProductPhotoField from "@/components/ProductPhotoField";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { categoriesOf, ItemFormValues, itemSchemaFor, sizeUnitLabels, toFormValues } from "@/lib/itemMaster";
+import type { InventoryItem, SizeUnit } from "@/lib/types";
+
+interface ItemEditorDialogProps {
+  open: boolean;
+  // The item being edited; a new item is created when absent.
+  item?: InventoryItem;
+  // The whole catalog, archived items included, for uniqueness checks.
+  items: InventoryItem[];
+  isSubmitting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ItemFormValues) => void;
+}
+
+const numberFields: { name: 'price' | 'reorderPoint' | 'parLevel' | 'packSize'; label: string; step: string }[] = [
+  { name: "price", label: "Price ($)", step: "0.01" },
+  { name: "reorderPoint", label: "Reorder point", step: "1" },
+  { name: "parLevel", label: "Par level", step: "1" },
+  { name: "packSize", label: "Pack size", step: "1" },
+];
+
+// Rendered with a `key` per item so the form starts from that item's values.
+const ItemEditorDialog = ({ open, item, items, isSubmitting, onOpenChange, onSubmit }: ItemEditorDialogProps) => {
+  const schema = useMemo(() => itemSchemaFor(items, item), [items, item]);
+  const form = useForm<ItemFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: toFormValues(item),
+  });
+  const categories = categoriesOf(items);
+  // `item` is a snapshot from when the dialog opened; the photo changes while it's open.
+  const current = item && (items.find(i => i.id === item.id) ?? item);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{item ? `Edit ${item.name}` : "New Item"}</DialogTitle>
+              <DialogDescription>
+                {item
+                  ? "Changes apply to this store's catalog. Counts are changed from the inventory screen."
+                  : "Add a product to this store's catalog."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Item ID</FormLabel>
+                    <FormControl>
+                      <Input {...field} disabled={!!item} placeholder="e.g. PROD006" className="font-mono" />
+                    </FormControl>
+                    {item && <FormDescription>IDs can't change once an item exists.</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <FormControl>
+                      <Input {...field} list="item-categories" />
+                    </FormControl>
+                    <datalist id="item-categories">
+                      {categories.map(category => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="barcode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Barcode</FormLabel>
+                    <FormControl>
+                      <Input {...field} inputMode="numeric" className="font-mono" />
+                    </FormControl>
+                    <FormDescription>UPC-A, EAN-8, EAN-13 or GTIN-14. Leave blank if the item has none.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {numberFields.map(({ name, label, step }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min={0} step={step} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <div className="flex gap-2">
+                <FormField
+                  control={form.control}
+                  name="size"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Size</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min={0} step="any" />
+                      </FormControl>
+                      <FormDescription>For the unit price on shelf labels; 0 for none.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sizeUnit"
+                  render={({ field }) => (
+                    <FormItem className="w-28">
+                      <FormLabel>Unit</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(sizeUnitLabels) as SizeUnit[]).map(unit => (
+                            <SelectItem key={unit} value={unit}>
+                              {sizeUnitLabels[unit]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="aisle"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Aisle</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. A3" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="image"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Image URL</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {!item && (
+                <FormField
+                  control={form.control}
+                  name="openingCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Opening count</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min={0} step={1} />
+                      </FormControl>
+                      <FormDescription>Recorded in the item's history as an adjustment.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {current ? (
+              <ProductPhotoField item={current} />
+            ) : (
+              <p className="text-sm text-muted-foreground">A photo can be uploaded once the item is added.</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {item ? "Save Changes" : "Add Item"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ItemEditorDialog;
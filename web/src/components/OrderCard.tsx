@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  orderStatusColors,
+  orderStatusLabels,
+  orderTransitions,
+  transitionActions,
+  transitionPermissions,
+} from "@/lib/orderLifecycle";
+import { canReceive, receivingStatuses } from "@/lib/receiving";
+import { orderUrgencyLabels } from "@/lib/reordering";
+import type { OutboxStatus } from "@/lib/outbox";
+import type { Order, OrderStatus } from "@/lib/types";
+import { CheckCircle, ChevronDown, History, PackageCheck, XCircle } from "lucide-react";
+
+interface OrderCardProps {
+  order: Order;
+  syncStatus?: OutboxStatus;
+  // Set when the page was opened from a link to this order.
+  highlighted?: boolean;
+  isUpdating?: boolean;
+  onTransition: (order: Order, to: OrderStatus) => void;
+  onReceive: (order: Order) => void;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+const formatTimestamp = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+const OrderCard = ({ order, syncStatus, highlighted, isUpdating, onTransition, onReceive }: OrderCardProps) => {
+  const { can } = usePermissions();
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlighted) cardRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlighted]);
+
+  // Receiving goes through the receipt dialog rather than a plain transition.
+  const actions = orderTransitions[order.status].filter(
+    status => status !== 'cancelled' && !receivingStatuses.includes(status) && can(transitionPermissions[status])
+  );
+  const showReceive = canReceive(order) && can('orders.receive');
+  const canCancel = orderTransitions[order.status].includes('cancelled') && can(transitionPermissions.cancelled);
+
+  return (
+    <Card
+      ref={cardRef}
+      className={`shadow-soft border border-border/50 hover:shadow-medium transition-shadow ${highlighted ? "ring-2 ring-primary" : ""}`}
+    >
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <div className="flex items-center gap-3 mb-2">
+              <Badge variant="outline" className="font-mono text-xs">
+                {order.id}
+              </Badge>
+              <Badge variant={order.status === 'received' ? 'default' : 'secondary'}>
+                {orderStatusLabels[order.status]}
+              </Badge>
+              {order.urgency && order.urgency !== 'routine' && (
+                <Badge variant="destructive">{orderUrgencyLabels[order.urgency]}</Badge>
+              )}
+              <PendingSyncBadge status={syncStatus} />
+            </div>
+
+            <h4 className="text-lg font-semibold mb-1">{order.itemName}</h4>
+
+            <div className="grid grid-cols-2 gap-4 text-sm text-muted-foreground">
+              <div>
+                <span className="font-medium">Item ID:</span> {order.itemId}
+              </div>
+              <div>
+                <span className="font-medium">Quantity:</span> {order.count} units
+              </div>
+              {order.receivedCount > 0 && (
+                <div>
+                  <span className="font-medium">Received:</span> {order.receivedCount} of {order.count}
+                </div>
+              )}
+              <div>
+                <span className="font-medium">Date:</span> {formatDate(order.date)}
+              </div>
+              <div>
+                <span className="font-medium">Status:</span>
+                <span className={`ml-1 ${orderStatusColors[order.status]}`}>
+                  {orderStatusLabels[order.status]}
+                </span>
+              </div>
+              {order.supplier && (
+                <div>
+                  <span className="font-medium">{order.vendorId ? "Vendor:" : "Supplier:"}</span> {order.supplier}
+                </div>
+              )}
+              {order.purchaseOrderId && (
+                <div>
+                  <span className="font-medium">PO:</span> <span className="font-mono">{order.purchaseOrderId}</span>
+                </div>
+              )}
+            </div>
+            {order.notes && <p className="mt-2 text-sm text-muted-foreground italic">{order.notes}</p>}
+          </div>
+
+          <div className="ml-6 flex flex-col items-end gap-2">
+            {showReceive && (
+              <Button onClick={() => onReceive(order)} disabled={isUpdating} className="gap-2">
+                <PackageCheck className="h-4 w-4" />
+                Receive Items
+              </Button>
+            )}
+
+            {actions.map(status => (
+              <Button
+                key={status}
+                onClick={() => onTransition(order, status)}
+                disabled={isUpdating}
+                variant="outline"
+              >
+                {transitionActions[status]}
+              </Button>
+            ))}
+
+            {canCancel && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" disabled={isUpdating} className="gap-2 text-destructive">
+                    <XCircle className="h-4 w-4" />
+                    {transitionActions.cancelled}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Cancel order {order.id}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The order for {order.count} units of {order.itemName} will be cancelled. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Order</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => onTransition(order, 'cancelled')}>Cancel Order</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+
+            {(order.status === 'received' || order.status === 'closed') && (
+              <div className="flex items-center gap-2 text-success">
+                <CheckCircle className="h-5 w-5" />
+                <span className="text-sm font-medium">{orderStatusLabels[order.status]}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Audit Trail */}
+        <Collapsible open={historyOpen} onOpenChange={setHistoryOpen} className="mt-4">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-2 px-0 text-muted-foreground">
+              <History className="h-4 w-4" />
+              History ({order.history.length})
+              <ChevronDown className={`h-4 w-4 transition-transform ${historyOpen ? "rotate-180" : ""}`} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ol className="mt-2 space-y-2 border-l pl-4">
+              {[...order.history].reverse().map((event, index) => (
+                <li key={`${event.status}-${event.at}-${index}`} className="text-sm">
+                  <span className={`font-medium ${orderStatusColors[event.status]}`}>
+                    {orderStatusLabels[event.status]}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {" "}· {formatTimestamp(event.at)}
+                    {event.by && ` · ${event.by}`}
+                    {event.quantity !== undefined && ` · ${event.quantity} units`}
+                  </span>
+                  {event.note && <p className="text-muted-foreground">{event.note}</p>}
+                </li>
+              ))}
+            </ol>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderCard;
@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useOutbox } from "@/hooks/use-outbox";
+import type { OutboxMutation } from "@/lib/outbox";
+import { CloudUpload, RotateCcw, Trash2 } from "lucide-react";
+
+const describeMutation = (mutation: OutboxMutation) => {
+  switch (mutation.kind) {
+    case 'adjustCount':
+      return `Count ${mutation.delta > 0 ? "+" : ""}${mutation.delta} on ${mutation.itemId}`;
+    case 'createItem':
+      return `New item ${mutation.item.id} (${mutation.item.name})`;
+    case 'updateItem':
+      return `Edit item ${mutation.itemId}`;
+    case 'createOrder':
+      return `New order ${mutation.order.id} (${mutation.order.itemName})`;
+    case 'updateOrder':
+      return `Update order ${mutation.orderId}`;
+    case 'recordMovement':
+      return `Ledger entry for ${mutation.movement.itemId}`;
+  }
+};
+
+// Header button listing changes that are saved on this device but not yet on the server.
+const OutboxIndicator = () => {
+  const { outbox } = useRepositories();
+  const entries = useOutbox();
+
+  if (!outbox || entries.length === 0) return null;
+  const failed = entries.some(entry => entry.status === 'failed');
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={failed ? "gap-2 text-destructive" : "gap-2"}>
+          <CloudUpload className="h-4 w-4" />
+          {entries.length} unsynced
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-3">
+          <p className="font-semibold text-sm">Pending changes</p>
+          <p className="text-xs text-muted-foreground">Changes are replayed in order when the connection returns.</p>
+        </div>
+        <ul className="max-h-72 overflow-y-auto divide-y">
+          {entries.map(entry => (
+            <li key={entry.seq} className="px-4 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm">{describeMutation(entry.mutation)}</span>
+                <PendingSyncBadge status={entry.status} />
+              </div>
+              {entry.error && <p className="text-xs text-muted-foreground">{entry.error}</p>}
+              {entry.status === 'failed' && (
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => outbox.retry(entry.seq)}>
+                    <RotateCcw className="h-3 w-3" />
+                    Retry
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 gap-1 text-destructive" onClick={() => outbox.discard(entry.seq)}>
+                    <Trash2 className="h-3 w-3" />
+                    Discard
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default OutboxIndicator;
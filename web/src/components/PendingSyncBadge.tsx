@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import type { OutboxStatus } from "@/lib/outbox";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CloudUpload, RefreshCw } from "lucide-react";
+
+const statusStyles: Record<OutboxStatus, { label: string; icon: typeof CloudUpload; className: string }> = {
+  pending: { label: "Pending sync", icon: CloudUpload, className: "border-warning/40 text-warning" },
+  syncing: { label: "Syncing", icon: RefreshCw, className: "border-info/40 text-info" },
+  failed: { label: "Sync failed", icon: AlertTriangle, className: "border-destructive/40 text-destructive" },
+};
+
+const PendingSyncBadge = ({ status, className }: { status?: OutboxStatus; className?: string }) => {
+  if (!status) return null;
+  const { label, icon: Icon, className: statusClassName } = statusStyles[status];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 px-2 py-0 text-[10px] font-medium", statusClassName, className)}>
+      <Icon className={cn("h-3 w-3", status === 'syncing' && "animate-spin")} />
+      {label}
+    </Badge>
+  );
+};
+
+export default PendingSyncBadge;
@@ -0,0 +1,213 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ProductImage from "@/components/ProductImage";
+import {
+  addPosition,
+  addShelf,
+  movePosition,
+  PlanogramFixture,
+  removePosition,
+  removeShelf,
+  setFacings,
+  usedWidth,
+} from "@/lib/planogram";
+import type { InventoryItem } from "@/lib/types";
+import { ChevronLeft, ChevronRight, Minus, Plus, Trash2, X } from "lucide-react";
+
+interface PlanogramFixtureEditorProps {
+  fixture: PlanogramFixture;
+  // Catalog items that can be placed, in display order.
+  items: InventoryItem[];
+  itemsById: Map<string, InventoryItem>;
+  readOnly?: boolean;
+  onChange: (fixture: PlanogramFixture) => void;
+  onRemove: () => void;
+}
+
+// Draws each shelf as a grid one column per facing, so positions take up the
+// share of the shelf they will on the fixture.
+const PlanogramFixtureEditor = ({
+  fixture,
+  items,
+  itemsById,
+  readOnly,
+  onChange,
+  onRemove,
+}: PlanogramFixtureEditorProps) => (
+  <Card className="shadow-medium border border-border/50">
+    <CardHeader className="flex flex-col sm:flex-row sm:items-end gap-4 space-y-0">
+      <div className="space-y-1 flex-1">
+        <Label htmlFor={`${fixture.id}-name`}>Fixture</Label>
+        <Input
+          id={`${fixture.id}-name`}
+          value={fixture.name}
+          disabled={readOnly}
+          onChange={e => onChange({ ...fixture, name: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1 w-24">
+        <Label htmlFor={`${fixture.id}-aisle`}>Aisle</Label>
+        <Input
+          id={`${fixture.id}-aisle`}
+          value={fixture.aisle ?? ""}
+          disabled={readOnly}
+          onChange={e => onChange({ ...fixture, aisle: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-1 w-28">
+        <Label htmlFor={`${fixture.id}-width`}>Width (facings)</Label>
+        <Input
+          id={`${fixture.id}-width`}
+          type="number"
+          min={1}
+          step={1}
+          value={fixture.width}
+          disabled={readOnly}
+          onChange={e => onChange({ ...fixture, width: Number(e.target.value) })}
+        />
+      </div>
+      {!readOnly && (
+        <Button variant="ghost" size="sm" onClick={onRemove} className="gap-1">
+          <Trash2 className="h-3 w-3" />
+          Remove
+        </Button>
+      )}
+    </CardHeader>
+    <CardContent className="space-y-3">
+      {fixture.shelves.map((shelf, shelfIndex) => {
+        const used = usedWidth(shelf);
+        const columns = Math.max(fixture.width, used, 1);
+        return (
+          <div key={shelf.id} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Shelf {shelfIndex + 1}</span>
+              <span className={used > fixture.width ? "text-destructive font-medium" : ""}>
+                {used} / {fixture.width} facings
+              </span>
+            </div>
+            <div className="flex items-stretch gap-2">
+              <div
+                className={`grid flex-1 gap-1 rounded-md border-b-4 p-1 min-h-16 bg-muted/40 ${used > fixture.width ? "border-destructive" : "border-border"}`}
+                style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+              >
+                {shelf.positions.map((position, index) => {
+                  const item = itemsById.get(position.itemId);
+                  return (
+                    <div
+                      key={`${position.itemId}-${index}`}
+                      className="rounded bg-card border border-border/60 p-1 flex flex-col gap-1 min-w-0"
+                      style={{ gridColumn: `span ${Math.min(Math.max(position.facings, 1), columns)}` }}
+                      title={item ? `${item.name} (${item.id})` : position.itemId}
+                    >
+                      <div className="flex items-center gap-1 min-w-0">
+                        {item && <ProductImage item={item} className="h-6 w-6 rounded shrink-0" />}
+                        <span className={`text-xs truncate ${item ? "" : "text-destructive"}`}>
+                          {item?.name ?? position.itemId}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between gap-1">
+                        <span className="text-xs font-semibold">×{position.facings}</span>
+                        {!readOnly && (
+                          <div className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              aria-label="Move left"
+                              disabled={index === 0}
+                              onClick={() => onChange(movePosition(fixture, shelf.id, index, -1))}
+                            >
+                              <ChevronLeft className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              aria-label="Remove a facing"
+                              disabled={position.facings <= 1}
+                              onClick={() => onChange(setFacings(fixture, shelf.id, index, position.facings - 1))}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              aria-label="Add a facing"
+                              onClick={() => onChange(setFacings(fixture, shelf.id, index, position.facings + 1))}
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              aria-label="Move right"
+                              disabled={index === shelf.positions.length - 1}
+                              onClick={() => onChange(movePosition(fixture, shelf.id, index, 1))}
+                            >
+                              <ChevronRight className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5"
+                              aria-label="Remove from shelf"
+                              onClick={() => onChange(removePosition(fixture, shelf.id, index))}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {!readOnly && (
+                <div className="flex flex-col gap-1 w-44">
+                  {/* Keyed by length so the picker clears after each placement. */}
+                  <Select
+                    key={shelf.positions.length}
+                    onValueChange={itemId => onChange(addPosition(fixture, shelf.id, itemId))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Add product..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items.map(item => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => onChange(removeShelf(fixture, shelf.id))}
+                  >
+                    Remove shelf
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {fixture.shelves.length === 0 && <p className="text-sm text-muted-foreground">No shelves.</p>}
+      {!readOnly && (
+        <Button variant="outline" size="sm" onClick={() => onChange(addShelf(fixture))} className="gap-1">
+          <Plus className="h-3 w-3" />
+          Add shelf
+        </Button>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default PlanogramFixtureEditor;
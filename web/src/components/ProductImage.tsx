@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { useProductImage } from "@/hooks/use-product-images";
+import type { ImageVariant } from "@/lib/productImages";
+import type { InventoryItem } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Package } from "lucide-react";
+
+interface ProductImageProps {
+  item: InventoryItem;
+  variant?: ImageVariant;
+  // Sizes the frame; the picture always covers it.
+  className?: string;
+  imageClassName?: string;
+}
+
+// Shows the uploaded photo, else the item's external image URL, else a package
+// icon. A source that fails to load falls through to the next one.
+const ProductImage = ({ item, variant = 'thumbnail', className, imageClassName }: ProductImageProps) => {
+  const { src: photoSrc, isError } = useProductImage(item, variant);
+  const [failed, setFailed] = useState<string[]>([]);
+
+  const candidates = [item.photo && !isError ? photoSrc : undefined, item.image || undefined];
+  const src = candidates.find(candidate => candidate && !failed.includes(candidate));
+  // Don't flash the external image while the photo is still loading.
+  const loadingPhoto = !!item.photo && !isError && !photoSrc;
+
+  return (
+    <div className={cn("bg-muted flex items-center justify-center overflow-hidden", className)}>
+      {src && !loadingPhoto ? (
+        <img
+          src={src}
+          alt={item.name}
+          className={cn("w-full h-full object-cover", imageClassName)}
+          onError={() => setFailed(current => [...current, src])}
+        />
+      ) : (
+        <Package className={cn("h-1/3 w-1/3 text-muted-foreground", loadingPhoto && "animate-pulse")} />
+      )}
+    </div>
+  );
+};
+
+export default ProductImage;
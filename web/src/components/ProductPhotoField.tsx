@@ -0,0 +1,70 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import ProductImage from "@/components/ProductImage";
+import { useRemoveProductImage, useUploadProductImage } from "@/hooks/use-product-images";
+import type { InventoryItem } from "@/lib/types";
+import { ImagePlus, Trash2 } from "lucide-react";
+
+interface ProductPhotoFieldProps {
+  item: InventoryItem;
+}
+
+// Uploads apply straight away rather than on Save: the photo is stored
+// separately from the catalog fields the form edits.
+const ProductPhotoField = ({ item }: ProductPhotoFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const uploadPhoto = useUploadProductImage();
+  const removePhoto = useRemoveProductImage();
+  const busy = uploadPhoto.isPending || removePhoto.isPending;
+
+  const handleFile = (file: File | undefined) => {
+    if (file) uploadPhoto.mutate({ item, file });
+    // Allow choosing the same file again after a failed upload.
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <ProductImage item={item} variant="image" className="h-24 w-24 rounded-lg shrink-0" />
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Photo</p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={busy}
+            onClick={() => inputRef.current?.click()}
+          >
+            <ImagePlus className="h-3 w-3" />
+            {uploadPhoto.isPending ? "Uploading..." : item.photo ? "Replace" : "Upload"}
+          </Button>
+          {item.photo && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              disabled={busy}
+              onClick={() => removePhoto.mutate(item)}
+            >
+              <Trash2 className="h-3 w-3" />
+              Remove
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Resized before upload; shown instead of the image URL.</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={e => handleFile(e.target.files?.[0])}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProductPhotoField;
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { categoriesOf } from "@/lib/itemMaster";
+import {
+  defaultPromotionValues,
+  PromotionFormValues,
+  promotionFormSchema,
+  PromotionKind,
+  promotionKindLabels,
+} from "@/lib/promotions";
+import type { InventoryItem } from "@/lib/types";
+
+interface PromotionEditorDialogProps {
+  open: boolean;
+  items: InventoryItem[];
+  isSubmitting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: PromotionFormValues) => void;
+}
+
+const valueLabels: Record<PromotionKind, string> = {
+  price_change: "New price ($)",
+  percent_off: "Discount (%)",
+  amount_off: "Discount ($)",
+  multi_buy: "Bundle price ($)",
+  bogo: "Discount on the extra units (%)",
+};
+
+const PromotionEditorDialog = ({ open, items, isSubmitting, onOpenChange, onSubmit }: PromotionEditorDialogProps) => {
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: defaultPromotionValues(),
+  });
+  const [targetQuery, setTargetQuery] = useState("");
+  const kind = form.watch("kind");
+  const targetType = form.watch("targetType");
+
+  const query = targetQuery.toLowerCase();
+  const options =
+    targetType === 'item'
+      ? items
+          .filter(item => !item.archived)
+          .filter(item => !query || item.name.toLowerCase().includes(query) || item.id.toLowerCase().includes(query))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(item => ({ value: item.id, label: `${item.name} · $${item.price.toFixed(2)}` }))
+      : categoriesOf(items)
+          .filter(category => !query || category.toLowerCase().includes(query))
+          .map(category => ({ value: category, label: category }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New Promotion</DialogTitle>
+              <DialogDescription>
+                Prices change at the start of the first day and revert after the last.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Holiday spirits sale" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={value => {
+                        field.onChange(value);
+                        if (value === 'price_change') {
+                          form.setValue("targetType", 'item');
+                          form.setValue("targets", []);
+                          form.setValue("endsOn", "");
+                        }
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(promotionKindLabels) as PromotionKind[]).map(k => (
+                          <SelectItem key={k} value={k}>
+                            {promotionKindLabels[k]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{valueLabels[kind]}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={0}
+                        step={kind === 'percent_off' || kind === 'bogo' ? "1" : "0.01"}
+                      />
+                    </FormControl>
+                    {kind === 'bogo' && <FormDescription>100% gives the extra units away free.</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {(kind === 'multi_buy' || kind === 'bogo') && (
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{kind === 'multi_buy' ? "Bundle size" : "Buy"}</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min={1} step={1} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {kind === 'bogo' && (
+                <FormField
+                  control={form.control}
+                  name="getQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Get</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min={1} step={1} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="startsOn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {kind !== 'price_change' && (
+                <FormField
+                  control={form.control}
+                  name="endsOn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="date" />
+                      </FormControl>
+                      <FormDescription>Leave blank to run until cancelled.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="targetType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies to</FormLabel>
+                  <Select
+                    value={field.value}
+                    disabled={kind === 'price_change'}
+                    onValueChange={value => {
+                      field.onChange(value);
+                      form.setValue("targets", []);
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="sm:w-60">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="item">Selected items</SelectItem>
+                      <SelectItem value="category">Whole categories</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="targets"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between gap-4">
+                    <FormLabel>{targetType === 'item' ? "Items" : "Categories"}</FormLabel>
+                    <span className="text-xs text-muted-foreground">{field.value.length} selected</span>
+                  </div>
+                  <Input
+                    placeholder="Filter..."
+                    value={targetQuery}
+                    onChange={e => setTargetQuery(e.target.value)}
+                  />
+                  <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+                    {options.length === 0 ? (
+                      <p className="text-sm text-muted-foreground p-2">Nothing matches.</p>
+                    ) : (
+                      options.map(option => (
+                        <label key={option.value} className="flex items-center gap-2 text-sm p-1 cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(option.value)}
+                            onCheckedChange={checked =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, option.value]
+                                  : field.value.filter(value => value !== option.value)
+                              )
+                            }
+                          />
+                          {option.label}
+                        </label>
+                      ))
+                    )}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                Save Promotion
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromotionEditorDialog;
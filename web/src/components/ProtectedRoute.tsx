@@ -0,0 +1,30 @@
+import { ReactNode } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { Permission } from "@/lib/permissions";
+
+interface ProtectedRouteProps {
+  permission?: Permission;
+  children?: ReactNode;
+}
+
+// Sends signed-out visitors to the login page and brings them back to the page
+// they asked for afterwards. Employees without `permission` go to the dashboard.
+const ProtectedRoute = ({ permission, children }: ProtectedRouteProps) => {
+  const { session } = useAuth();
+  const { can } = usePermissions();
+  const location = useLocation();
+
+  if (!session) {
+    return <Navigate to="/" replace state={{ from: location }} />;
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useInventory } from "@/hooks/use-inventory";
+import { isDiscrepancy, outstandingQuantity } from "@/lib/receiving";
+import type { Order } from "@/lib/types";
+import { AlertTriangle, ArrowRight } from "lucide-react";
+
+interface ReceiveOrderDialogProps {
+  order: Order | null;
+  isSubmitting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (order: Order, quantity: number, note?: string) => void;
+}
+
+const ReceiveOrderDialog = ({ order, isSubmitting, onOpenChange, onConfirm }: ReceiveOrderDialogProps) => {
+  const { data: items = [] } = useInventory({ includeArchived: true });
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (order) {
+      setQuantity(String(outstandingQuantity(order)));
+      setNote("");
+    }
+  }, [order]);
+
+  if (!order) return null;
+
+  const outstanding = outstandingQuantity(order);
+  const parsed = Number(quantity);
+  const isValidQuantity = Number.isInteger(parsed) && parsed > 0;
+  const discrepancy = isValidQuantity && isDiscrepancy(order, parsed);
+  const canConfirm = isValidQuantity && (!discrepancy || note.trim().length > 0);
+
+  const stockBefore = items.find(item => item.id === order.itemId)?.count;
+  const stockAfter = stockBefore !== undefined && isValidQuantity ? stockBefore + parsed : undefined;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canConfirm) onConfirm(order, parsed, note.trim() || undefined);
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Receive {order.id}</DialogTitle>
+            <DialogDescription>
+              {order.itemName} · ordered {order.count}, received so far {order.receivedCount}, outstanding {outstanding}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="received-quantity">Units received in this delivery</Label>
+            <Input
+              id="received-quantity"
+              type="number"
+              min={1}
+              step={1}
+              value={quantity}
+              onChange={e => setQuantity(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {discrepancy && (
+            <div className="space-y-2">
+              <Label htmlFor="receipt-note" className="flex items-center gap-2 text-warning">
+                <AlertTriangle className="h-4 w-4" />
+                {parsed < outstanding
+                  ? `Short by ${outstanding - parsed} units — the order stays open`
+                  : `Over by ${parsed - outstanding} units`}
+              </Label>
+              <Textarea
+                id="receipt-note"
+                placeholder="Explain the discrepancy (e.g. backordered, damaged, substitution)"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="rounded-lg bg-muted/50 p-4">
+            <p className="text-sm text-muted-foreground mb-1">Stock on hand</p>
+            {stockBefore === undefined ? (
+              <p className="text-sm">{order.itemName} is not in this store's inventory yet.</p>
+            ) : (
+              <div className="flex items-center gap-3 text-2xl font-bold">
+                <span>{stockBefore}</span>
+                <ArrowRight className="h-5 w-5 text-muted-foreground" />
+                <span className="text-success">{stockAfter ?? "—"}</span>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canConfirm || isSubmitting}>
+              Confirm Receipt
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiveOrderDialog;
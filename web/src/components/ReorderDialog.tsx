@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useOrderPath } from "@/hooks/use-orders";
+import { useVendors } from "@/hooks/use-vendors";
+import { orderStatusLabels } from "@/lib/orderLifecycle";
+import { orderUrgencies, orderUrgencyLabels, ReorderRequest } from "@/lib/reordering";
+import { vendorForItem, vendorItem } from "@/lib/vendors";
+import type { InventoryItem, Order, OrderUrgency } from "@/lib/types";
+import { AlertTriangle } from "lucide-react";
+
+interface ReorderDialogProps {
+  item: InventoryItem | null;
+  // An order for the item that hasn't been received yet, if any.
+  openOrder?: Order;
+  suggestedQuantity?: number;
+  isSubmitting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (item: InventoryItem, request: ReorderRequest) => void;
+}
+
+const ReorderDialog = ({
+  item,
+  openOrder,
+  suggestedQuantity,
+  isSubmitting,
+  onOpenChange,
+  onConfirm,
+}: ReorderDialogProps) => {
+  const orderPath = useOrderPath();
+  const { data: vendors = [] } = useVendors();
+  // Rendered with `key={item.id}`, so the form starts fresh for each item.
+  const [quantity, setQuantity] = useState(() => String(suggestedQuantity || item?.packSize || 1));
+  // Null until the orderer picks one, so the default can follow the vendor list as it loads.
+  const [vendorId, setVendorId] = useState<string | null>(null);
+  const [supplier, setSupplier] = useState("");
+  const [urgency, setUrgency] = useState<OrderUrgency>(() => (item?.count === 0 ? 'urgent' : 'routine'));
+  const [notes, setNotes] = useState("");
+
+  if (!item) return null;
+
+  const parsed = Number(quantity);
+  const isValidQuantity = Number.isInteger(parsed) && parsed > 0;
+  const activeVendors = vendors.filter(v => !v.archived).sort((a, b) => a.name.localeCompare(b.name));
+  // "other" orders from a supplier outside the vendor list.
+  const selectedVendorId = vendorId ?? vendorForItem(vendors, item.id)?.id ?? "other";
+  const vendor = activeVendors.find(v => v.id === selectedVendorId);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValidQuantity || openOrder) return;
+    onConfirm(item, {
+      quantity: parsed,
+      vendor,
+      supplier: vendor ? undefined : supplier.trim(),
+      urgency,
+      notes: notes.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Re-order {item.name}</DialogTitle>
+            <DialogDescription>
+              {item.id} · {item.count} in stock
+            </DialogDescription>
+          </DialogHeader>
+
+          {openOrder ? (
+            <div className="flex items-start gap-3 rounded-lg bg-warning/10 p-4 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-warning" />
+              <div>
+                <p className="font-medium">This item is already on order.</p>
+                <p className="text-muted-foreground">
+                  {openOrder.id} for {openOrder.count} units is {orderStatusLabels[openOrder.status].toLowerCase()}.{" "}
+                  <Link to={orderPath(openOrder.id)} className="text-primary underline">
+                    View order
+                  </Link>
+                </p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reorder-quantity">Quantity</Label>
+                  <Input
+                    id="reorder-quantity"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={quantity}
+                    onChange={e => setQuantity(e.target.value)}
+                    autoFocus
+                  />
+                  <p className="text-xs text-muted-foreground">Sold in packs of {item.packSize}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reorder-urgency">Urgency</Label>
+                  <Select value={urgency} onValueChange={value => setUrgency(value as OrderUrgency)}>
+                    <SelectTrigger id="reorder-urgency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {orderUrgencies.map(u => (
+                        <SelectItem key={u} value={u}>
+                          {orderUrgencyLabels[u]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reorder-vendor">Vendor</Label>
+                <Select value={selectedVendorId} onValueChange={setVendorId}>
+                  <SelectTrigger id="reorder-vendor">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeVendors.map(v => (
+                      <SelectItem key={v.id} value={v.id}>
+                        {v.name}
+                        {vendorItem(v, item.id) && ` · ${vendorItem(v, item.id).vendorCode}`}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="other">Other supplier</SelectItem>
+                  </SelectContent>
+                </Select>
+                {vendor && !vendorItem(vendor, item.id) && (
+                  <p className="text-xs text-warning">{vendor.name} doesn't list this item in their catalog.</p>
+                )}
+                {!vendor && (
+                  <Input
+                    id="reorder-supplier"
+                    aria-label="Supplier"
+                    placeholder="e.g. Southern Glazer's"
+                    value={supplier}
+                    onChange={e => setSupplier(e.target.value)}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reorder-notes">Notes</Label>
+                <Textarea
+                  id="reorder-notes"
+                  placeholder="Anything the supplier or receiving team should know"
+                  value={notes}
+                  onChange={e => setNotes(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValidQuantity || !!openOrder || isSubmitting}>
+              Place Order
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderDialog;
@@ -0,0 +1,66 @@
+import Barcode from "@/components/Barcode";
+import type { LabelContent, LabelLayout } from "@/lib/shelfLabels";
+
+interface ShelfLabelProps {
+  label: LabelContent;
+  layout: LabelLayout;
+}
+
+// Sized in inches and points so it prints at the label's physical size.
+const ShelfLabel = ({ label, layout }: ShelfLabelProps) => {
+  const { compact } = layout;
+  return (
+    <div
+      className="flex flex-col overflow-hidden bg-white text-black"
+      style={{
+        width: `${layout.labelWidth}in`,
+        height: `${layout.labelHeight}in`,
+        padding: compact ? "0.04in" : "0.1in",
+      }}
+    >
+      {label.promotion && (
+        <div
+          className="bg-black text-white font-bold uppercase truncate px-1"
+          style={{ fontSize: compact ? "6pt" : "10pt" }}
+        >
+          Sale · {label.promotion}
+        </div>
+      )}
+      <div className="flex flex-1 min-h-0 items-start justify-between gap-1">
+        <div className="min-w-0">
+          <div className="font-semibold leading-tight line-clamp-2" style={{ fontSize: compact ? "8pt" : "14pt" }}>
+            {label.name}
+          </div>
+          {!compact && (
+            <div style={{ fontSize: "7pt" }}>
+              {label.itemId}
+              {label.aisle && ` · Aisle ${label.aisle}`}
+            </div>
+          )}
+        </div>
+        <div className="text-right shrink-0">
+          {label.regularPrice !== undefined && (
+            <div className="line-through leading-none" style={{ fontSize: compact ? "7pt" : "12pt" }}>
+              ${label.regularPrice.toFixed(2)}
+            </div>
+          )}
+          <div className="font-extrabold leading-none" style={{ fontSize: compact ? "16pt" : "36pt" }}>
+            ${label.price.toFixed(2)}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-end justify-between gap-1">
+        <Barcode code={label.barcode} className={compact ? "h-[0.32in]" : "h-[0.6in]"} />
+        {label.unitPrice && (
+          <div className="text-right leading-tight" style={{ fontSize: compact ? "6pt" : "9pt" }}>
+            ${label.unitPrice.amount.toFixed(label.unitPrice.amount < 1 ? 3 : 2)}
+            <br />
+            per {label.unitPrice.per}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShelfLabel;
@@ -0,0 +1,83 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useShelfScanPhoto } from "@/hooks/use-shelf-scans";
+import { resolveDetection, ShelfScan } from "@/lib/compliance";
+import type { InventoryItem } from "@/lib/types";
+
+interface ShelfScanPhotoDialogProps {
+  scan: ShelfScan;
+  title: string;
+  // Items the planogram puts on this shelf.
+  plannedItemIds: Set<string>;
+  items: InventoryItem[];
+  onOpenChange: (open: boolean) => void;
+}
+
+type BoxStatus = 'planned' | 'misplaced' | 'unrecognised';
+
+const boxColors: Record<BoxStatus, string> = {
+  planned: "border-success bg-success/10",
+  misplaced: "border-warning bg-warning/10",
+  unrecognised: "border-muted-foreground border-dashed",
+};
+
+const boxLabels: Record<BoxStatus, string> = {
+  planned: "In place",
+  misplaced: "Misplaced",
+  unrecognised: "Unrecognised",
+};
+
+const ShelfScanPhotoDialog = ({ scan, title, plannedItemIds, items, onOpenChange }: ShelfScanPhotoDialogProps) => {
+  const photoUrl = useShelfScanPhoto(scan);
+  const boxes = scan.detections.flatMap(detection => {
+    const item = resolveDetection(detection, items);
+    const status: BoxStatus = !item ? 'unrecognised' : plannedItemIds.has(item.id) ? 'planned' : 'misplaced';
+    const label = item?.name ?? detection.label;
+    return detection.boxes.map(box => ({ box, status, label, confidence: detection.confidence }));
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Scanned {new Date(scan.scannedAt).toLocaleString()} by {scan.scannedBy} against version{" "}
+            {scan.planogramVersion}
+          </DialogDescription>
+        </DialogHeader>
+        {!scan.hasPhoto ? (
+          <p className="text-center py-8 text-muted-foreground">This scan was uploaded without a photo.</p>
+        ) : !photoUrl ? (
+          <p className="text-center py-8 text-muted-foreground">Loading photo...</p>
+        ) : (
+          <div className="relative">
+            <img src={photoUrl} alt={title} className="w-full rounded-md" />
+            {boxes.map(({ box, status, label, confidence }, index) => (
+              <div
+                key={index}
+                className={`absolute border-2 rounded-sm ${boxColors[status]}`}
+                style={{
+                  left: `${box.x * 100}%`,
+                  top: `${box.y * 100}%`,
+                  width: `${box.width * 100}%`,
+                  height: `${box.height * 100}%`,
+                }}
+                title={`${label} · ${boxLabels[status]} · ${Math.round(confidence * 100)}% confidence`}
+              />
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          {(Object.keys(boxLabels) as BoxStatus[]).map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`inline-block h-3 w-3 border-2 rounded-sm ${boxColors[status]}`} />
+              {boxLabels[status]}
+            </span>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShelfScanPhotoDialog;
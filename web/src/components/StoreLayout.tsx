@@ -0,0 +1,20 @@
+import { Outlet } from "react-router-dom";
+import { StoreProvider } from "@/contexts/StoreContext";
+import { ScannerProvider } from "@/contexts/ScannerContext";
+import { useOutboxRefresh } from "@/hooks/use-outbox";
+
+const StoreOutlet = () => {
+  useOutboxRefresh();
+  return <Outlet />;
+};
+
+// Layout route for /stores/:storeId/* pages.
+const StoreLayout = () => (
+  <StoreProvider>
+    <ScannerProvider>
+      <StoreOutlet />
+    </ScannerProvider>
+  </StoreProvider>
+);
+
+export default StoreLayout;
@@ -0,0 +1,49 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useStores } from "@/hooks/use-stores";
+import { pickDefaultStore } from "@/lib/stores";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Package2 } from "lucide-react";
+
+// Sends store-less URLs such as /inventory to the same page in the employee's
+// current store, keeping old bookmarks working.
+const StoreRedirect = () => {
+  const { user } = useAuth();
+  const { data: stores, isLoading, isError, error, refetch, isFetching } = useStores();
+  const location = useLocation();
+
+  if (isLoading) return null;
+
+  // A failed load says nothing about which stores the employee has.
+  if (isError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-center">
+        <div>
+          <AlertTriangle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Couldn't load your stores</h3>
+          <p className="text-muted-foreground mb-4">{error.message}</p>
+          <Button onClick={() => refetch()} disabled={isFetching}>
+            {isFetching ? "Retrying..." : "Try again"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const store = pickDefaultStore(stores ?? [], user);
+  if (!store) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-center">
+        <div>
+          <Package2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No store assigned</h3>
+          <p className="text-muted-foreground">Ask your store manager to give you access to a store.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <Navigate to={`/stores/${store.id}${location.pathname}${location.search}`} replace />;
+};
+
+export default StoreRedirect;
@@ -0,0 +1,37 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useStore } from "@/contexts/StoreContext";
+import { usePermissions } from "@/hooks/use-permissions";
+
+// "Store Number" line in page headers; district admins get a dropdown to switch stores.
+const StoreSwitcher = () => {
+  const { store, stores, switchStore } = useStore();
+  const { can } = usePermissions();
+
+  if (!can('stores.switch') || stores.length < 2) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Store Number: #{store.id} · {store.name}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span>Store Number:</span>
+      <Select value={store.id} onValueChange={switchStore}>
+        <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {stores.map(s => (
+            <SelectItem key={s.id} value={s.id} className="text-xs">
+              #{s.id} · {s.name} ({s.district})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default StoreSwitcher;
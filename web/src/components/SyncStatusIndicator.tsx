@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import type { FeedStatus } from "@/lib/changesFeed";
+import { cn } from "@/lib/utils";
+import { RefreshCw, Wifi, WifiOff } from "lucide-react";
+
+const statusStyles: Record<FeedStatus, { label: string; icon: typeof Wifi; className: string }> = {
+  live: { label: "Live", icon: Wifi, className: "border-success/40 text-success" },
+  reconnecting: { label: "Reconnecting", icon: RefreshCw, className: "border-warning/40 text-warning" },
+  offline: { label: "Offline", icon: WifiOff, className: "border-destructive/40 text-destructive" },
+};
+
+const SyncStatusIndicator = ({ status }: { status: FeedStatus }) => {
+  const { label, icon: Icon, className } = statusStyles[status];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 px-2 py-0 text-[10px] font-medium", className)}>
+      <Icon className={cn("h-3 w-3", status === 'reconnecting' && "animate-spin")} />
+      {label}
+    </Badge>
+  );
+};
+
+export default SyncStatusIndicator;
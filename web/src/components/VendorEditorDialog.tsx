@@ -0,0 +1,286 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  toVendorFormValues,
+  uncataloguedItems,
+  Vendor,
+  VendorFormValues,
+  vendorFormSchema,
+  weekdayLabels,
+} from "@/lib/vendors";
+import type { InventoryItem } from "@/lib/types";
+import { Trash2 } from "lucide-react";
+
+interface VendorEditorDialogProps {
+  open: boolean;
+  // The vendor being edited; a new vendor is created when absent.
+  vendor?: Vendor;
+  items: InventoryItem[];
+  isSubmitting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: VendorFormValues) => void;
+}
+
+const VendorEditorDialog = ({ open, vendor, items, isSubmitting, onOpenChange, onSubmit }: VendorEditorDialogProps) => {
+  const form = useForm<VendorFormValues>({
+    resolver: zodResolver(vendorFormSchema),
+    defaultValues: toVendorFormValues(vendor),
+  });
+  const catalog = useFieldArray({ control: form.control, name: "items" });
+  const itemNames = new Map(items.map(item => [item.id, item.name]));
+  const addable = uncataloguedItems(
+    items,
+    catalog.fields.map(line => line.itemId)
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{vendor ? `Edit ${vendor.name}` : "New Vendor"}</DialogTitle>
+              <DialogDescription>
+                Suggested orders for the items in this catalog are grouped into one PO for this vendor.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Southern Glazer's" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="contactName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Sales rep or order desk" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="tel" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="leadTimeDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead time (days)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={0} step={1} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="deliveryDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Delivery days</FormLabel>
+                    <div className="flex flex-wrap gap-3 pt-2">
+                      {weekdayLabels.map((label, day) => (
+                        <label key={label} className="flex items-center gap-1 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(day)}
+                            onCheckedChange={checked =>
+                              field.onChange(
+                                checked ? [...field.value, day] : field.value.filter(value => value !== day)
+                              )
+                            }
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>Leave all unticked if they deliver any day.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minimumOrderValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum order ($)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={0} step="0.01" />
+                    </FormControl>
+                    <FormDescription>0 for no minimum.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minimumOrderUnits"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum order (units)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={0} step={1} />
+                    </FormControl>
+                    <FormDescription>0 for no minimum.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <h3 className="text-sm font-medium">Catalog ({catalog.fields.length})</h3>
+                <Select
+                  value=""
+                  onValueChange={itemId => catalog.append({ itemId, vendorCode: "", unitCost: 0 })}
+                  disabled={addable.length === 0}
+                >
+                  <SelectTrigger className="w-60">
+                    <SelectValue placeholder="Add an item..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {addable.map(item => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name} · {item.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {catalog.fields.length === 0 ? (
+                <p className="text-sm text-muted-foreground rounded-md border p-4 text-center">
+                  Add the items this vendor supplies and the codes to quote on their purchase orders.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="w-40">Vendor code</TableHead>
+                      <TableHead className="w-28">Unit cost ($)</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {catalog.fields.map((line, index) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <div className="font-medium">{itemNames.get(line.itemId) ?? line.itemId}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{line.itemId}</div>
+                        </TableCell>
+                        <TableCell>
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.vendorCode`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input {...field} className="h-8 font-mono" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.unitCost`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input {...field} type="number" min={0} step="0.01" className="h-8" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => catalog.remove(index)}
+                            aria-label={`Remove ${itemNames.get(line.itemId) ?? line.itemId}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                Save Vendor
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VendorEditorDialog;
@@ -0,0 +1,67 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { AuthService, createAuthService, isSessionExpired, Session, User } from "@/lib/auth";
+
+const SESSION_KEY = "inventory-pro.session";
+
+interface AuthContextValue {
+  user: User | null;
+  session: Session | null;
+  login: (username: string, password: string) => Promise<Session>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const loadSession = (): Session | null => {
+  try {
+    const session: Session | null = JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null");
+    // Sessions saved before roles and stores existed must sign in again.
+    return session?.user?.role && session.user.storeIds && !isSessionExpired(session) ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const AuthProvider = ({ service, children }: { service?: AuthService; children: ReactNode }) => {
+  const [authService] = useState(() => service ?? createAuthService());
+  const [session, setSession] = useState<Session | null>(loadSession);
+  const queryClient = useQueryClient();
+
+  const login = useCallback(
+    async (username: string, password: string) => {
+      const next = await authService.login(username, password);
+      localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+      setSession(next);
+      return next;
+    },
+    [authService]
+  );
+
+  const logout = useCallback(async () => {
+    if (session) await authService.logout(session);
+    localStorage.removeItem(SESSION_KEY);
+    setSession(null);
+    // Don't leave the previous employee's data in the cache for the next one.
+    queryClient.clear();
+  }, [authService, session, queryClient]);
+
+  // End the session when it expires, even if the page is left open.
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(logout, Math.max(0, new Date(session.expiresAt).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session, logout]);
+
+  const value = useMemo(() => ({ user: session?.user ?? null, session, login, logout }), [session, login, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+}
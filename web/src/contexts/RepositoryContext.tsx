@@ -0,0 +1,31 @@
+import { createContext, ReactNode, useContext, useState } from "react";
+import { createRepositoryRegistry, RepositoryRegistry } from "@/lib/repositories";
+import { useStore } from "@/contexts/StoreContext";
+
+const RepositoryContext = createContext<RepositoryRegistry | null>(null);
+
+export const RepositoryProvider = ({
+  registry,
+  children,
+}: {
+  registry?: RepositoryRegistry;
+  children: ReactNode;
+}) => {
+  const [value] = useState(() => registry ?? createRepositoryRegistry());
+  return <RepositoryContext.Provider value={value}>{children}</RepositoryContext.Provider>;
+};
+
+export function useRepositoryRegistry() {
+  const context = useContext(RepositoryContext);
+  if (!context) {
+    throw new Error("useRepositoryRegistry must be used within a RepositoryProvider.");
+  }
+  return context;
+}
+
+// Repositories for the store in the current URL.
+export function useRepositories() {
+  const registry = useRepositoryRegistry();
+  const { store } = useStore();
+  return registry.forStore(store);
+}
@@ -0,0 +1,91 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useStore } from "@/contexts/StoreContext";
+import { useInventory } from "@/hooks/use-inventory";
+import { findItemByBarcode } from "@/lib/barcodeLookup";
+import { WedgeScanDetector } from "@/lib/wedgeScanner";
+import type { InventoryItem } from "@/lib/types";
+
+export type ScanHandler = (item: InventoryItem, code: string) => void;
+
+interface ScannerContextValue {
+  // Makes `handler` receive scans until the returned function is called.
+  register: (handler: ScanHandler) => () => void;
+}
+
+const ScannerContext = createContext<ScannerContextValue | null>(null);
+
+// Keystrokes typed into a field belong to that field, scanner or not.
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT");
+
+// Listens for keyboard-wedge scanner bursts anywhere in the store's pages and
+// hands the matching item to the page's handler. Pages without one open the
+// item's history.
+export const ScannerProvider = ({ children }: { children: ReactNode }) => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { data: items = [] } = useInventory();
+  const handlers = useRef<ScanHandler[]>([]);
+  const latest = useRef({ items, navigate, storePath });
+
+  useEffect(() => {
+    latest.current = { items, navigate, storePath };
+  }, [items, navigate, storePath]);
+
+  useEffect(() => {
+    const detector = new WedgeScanDetector();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target)) return;
+      const code = detector.push(event.key, event.timeStamp);
+      if (code === null) return;
+
+      // Keep the trailing Enter from also clicking whatever button has focus.
+      event.preventDefault();
+      event.stopPropagation();
+      const item = findItemByBarcode(latest.current.items, code);
+      if (!item) {
+        toast.error(`No item with barcode ${code}`);
+        return;
+      }
+      const handler = handlers.current[handlers.current.length - 1];
+      if (handler) {
+        handler(item, code);
+      } else {
+        latest.current.navigate(latest.current.storePath(`/inventory/${encodeURIComponent(item.id)}`));
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, []);
+
+  const register = useCallback((handler: ScanHandler) => {
+    handlers.current = [...handlers.current, handler];
+    return () => {
+      handlers.current = handlers.current.filter(h => h !== handler);
+    };
+  }, []);
+
+  const value = useMemo(() => ({ register }), [register]);
+
+  return <ScannerContext.Provider value={value}>{children}</ScannerContext.Provider>;
+};
+
+// Routes wedge scans to `handler` while the calling page is mounted.
+export function useScanHandler(handler: ScanHandler) {
+  const context = useContext(ScannerContext);
+  if (!context) {
+    throw new Error("useScanHandler must be used within a ScannerProvider.");
+  }
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  const { register } = context;
+  useEffect(() => register((item, code) => handlerRef.current(item, code)), [register]);
+}
@@ -0,0 +1,90 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo } from "react";
+import { Navigate, useLocation, useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useStores } from "@/hooks/use-stores";
+import { canAccessStore } from "@/lib/permissions";
+import { setLastStoreId } from "@/lib/stores";
+import type { Store } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Package2 } from "lucide-react";
+
+interface StoreContextValue {
+  store: Store;
+  // Stores the signed-in employee may switch to.
+  stores: Store[];
+  switchStore: (storeId: string) => void;
+  // Builds a link inside the current store, e.g. storePath("/orders").
+  storePath: (path: string) => string;
+}
+
+const StoreContext = createContext<StoreContextValue | null>(null);
+
+// Resolves the `:storeId` URL segment to a store the employee can access.
+export const StoreProvider = ({ children }: { children: ReactNode }) => {
+  const { storeId } = useParams();
+  const { user } = useAuth();
+  const { data: stores, isLoading, isError, error, refetch, isFetching } = useStores();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const store = stores?.find(s => s.id === storeId);
+  const allowed = !!store && canAccessStore(user, store.id);
+
+  useEffect(() => {
+    if (allowed) setLastStoreId(store.id);
+  }, [allowed, store]);
+
+  const storePath = useCallback((path: string) => `/stores/${storeId}${path}`, [storeId]);
+
+  const switchStore = useCallback(
+    (nextStoreId: string) => {
+      navigate(location.pathname.replace(`/stores/${storeId}`, `/stores/${nextStoreId}`) + location.search);
+    },
+    [navigate, location, storeId]
+  );
+
+  const value = useMemo(
+    () =>
+      allowed
+        ? { store, stores: stores.filter(s => canAccessStore(user, s.id)), switchStore, storePath }
+        : null,
+    [allowed, store, stores, user, switchStore, storePath]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Package2 className="h-12 w-12 text-muted-foreground animate-pulse" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-center">
+        <div>
+          <AlertTriangle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Couldn't load your stores</h3>
+          <p className="text-muted-foreground mb-4">{error.message}</p>
+          <Button onClick={() => refetch()} disabled={isFetching}>
+            {isFetching ? "Retrying..." : "Try again"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!value) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <StoreContext.Provider value={value}>{children}</StoreContext.Provider>;
+};
+
+export function useStore() {
+  const context = useContext(StoreContext);
+  if (!context) {
+    throw new Error("useStore must be used within a StoreProvider.");
+  }
+  return context;
+}
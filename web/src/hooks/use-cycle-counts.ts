@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { applyMovement } from "@/lib/movements";
+import { applyAdjustments, canPost, CycleCountError, CycleCountSession } from "@/lib/cycleCount";
+import { cycleCountKeys, inventoryKeys, movementKeys } from "@/lib/queryKeys";
+
+export function useCycleCounts() {
+  const { cycleCounts } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: cycleCountKeys.store(store.id),
+    queryFn: async () => (await cycleCounts.list()).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  });
+}
+
+// Saves after every entry so a session survives a reload or a dead battery mid-aisle.
+export function useSaveCycleCount() {
+  const { cycleCounts } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+  const queryKey = cycleCountKeys.store(store.id);
+
+  return useMutation({
+    mutationFn: (session: CycleCountSession) => cycleCounts.save(session),
+    onMutate: (session) => {
+      queryClient.setQueryData<CycleCountSession[]>(queryKey, sessions => [
+        session,
+        ...(sessions ?? []).filter(s => s.id !== session.id),
+      ]);
+    },
+    onError: (error) => {
+      toast.error("Failed to save count session", { description: error.message });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+// Posts every variance as one batch of ledger entries; see applyAdjustments for
+// how an interrupted batch is resumed.
+export function usePostCycleCount() {
+  const repositories = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: async (session: CycleCountSession) => {
+      if (!canPost(session)) throw new CycleCountError("Finish counting and recounts before posting");
+
+      const current = await applyAdjustments(
+        session,
+        (line, delta) =>
+          applyMovement(repositories, {
+            itemId: line.itemId,
+            delta,
+            reason: 'cycle_count',
+            actor: user?.username ?? "unknown",
+            note: `Cycle count ${session.id}: counted ${line.recount ?? line.counted}, expected ${line.expected}`,
+          }),
+        progress => repositories.cycleCounts.save(progress)
+      );
+
+      return repositories.cycleCounts.save({
+        ...current,
+        status: 'posted',
+        postedAt: new Date().toISOString(),
+        postedBy: user?.username,
+      });
+    },
+    onSuccess: (session) => {
+      toast.success(`Posted cycle count ${session.id}`);
+    },
+    onError: (error) => {
+      toast.error("Failed to post cycle count", { description: error.message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cycleCountKeys.store(store.id) });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) });
+      queryClient.invalidateQueries({ queryKey: movementKeys.store(store.id) });
+    },
+  });
+}
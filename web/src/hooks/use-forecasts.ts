@@ -0,0 +1,58 @@
+import { useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useInventory } from "@/hooks/use-inventory";
+import { useOrders } from "@/hooks/use-orders";
+import { historyKeys } from "@/lib/queryKeys";
+import { Forecast, forecastItem, toSnapshots, unrecordedItems } from "@/lib/forecasting";
+import { onOrderQuantity } from "@/lib/replenishment";
+import type { CountSnapshot } from "@/lib/types";
+
+export function useCountHistory() {
+  const { history } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: historyKeys.store(store.id),
+    queryFn: () => history.list(),
+  });
+}
+
+// Demand forecasts keyed by item id. Items without enough history are left out.
+// Inventory loads also record today's counts, which is how the history grows;
+// only counts that aren't in today's snapshots yet are written.
+export function useForecasts() {
+  const { history } = useRepositories();
+  const { store } = useStore();
+  const queryClient = useQueryClient();
+  const { data: items } = useInventory();
+  const { data: orders = [] } = useOrders();
+  const { data: snapshots = [], isSuccess: historyLoaded } = useCountHistory();
+
+  useEffect(() => {
+    if (!items || !historyLoaded) return;
+    const now = new Date();
+    const changed = unrecordedItems(items, snapshots, now);
+    if (changed.length === 0) return;
+    const recorded = toSnapshots(changed, now);
+    const ids = new Set(changed.map(item => item.id));
+    history
+      .record(changed)
+      .then(() =>
+        queryClient.setQueryData<CountSnapshot[]>(historyKeys.store(store.id), (current = []) => [
+          ...current.filter(snapshot => snapshot.date !== recorded[0].date || !ids.has(snapshot.itemId)),
+          ...recorded,
+        ])
+      )
+      .catch(error => console.error("[Forecasts] Failed to record counts", error));
+  }, [history, items, historyLoaded, snapshots, queryClient, store.id]);
+
+  return useMemo(() => {
+    const forecasts = new Map<string, Forecast>();
+    (items ?? []).forEach(item => {
+      const forecast = forecastItem(item, snapshots, orders, { onOrder: onOrderQuantity(orders, item.id) });
+      if (forecast) forecasts.set(item.id, forecast);
+    });
+    return forecasts;
+  }, [items, orders, snapshots]);
+}
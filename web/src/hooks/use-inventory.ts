@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import type { InventoryItem, ItemDetails } from "@/lib/types";
+import type { FeedStatus } from "@/lib/changesFeed";
+import type { InventoryChange } from "@/lib/repositories";
+import type { ImportPlan } from "@/lib/catalogImport";
+import { applyMovement } from "@/lib/movements";
+import { inventoryKeys, movementKeys } from "@/lib/queryKeys";
+
+const activeItems = (items: InventoryItem[]) => items.filter(item => !item.archived);
+
+// Archived items are left out unless asked for, so counting, ordering and
+// scanning never see them.
+export function useInventory({ includeArchived = false } = {}) {
+  const { inventory } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: inventoryKeys.store(store.id),
+    queryFn: () => inventory.list(),
+    select: includeArchived ? undefined : activeItems,
+  });
+}
+
+const applyChanges = (items: InventoryItem[], changes: InventoryChange[]) => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  changes.forEach(({ id, item, deleted }) => {
+    if (deleted) {
+      byId.delete(id);
+    } else if (item) {
+      byId.set(id, item);
+    }
+  });
+  return Array.from(byId.values());
+};
+
+// Patches the cached inventory as changes arrive from other devices and
+// reports the state of the underlying feed.
+export function useInventoryLiveUpdates() {
+  const { inventory } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+  const [status, setStatus] = useState<FeedStatus>('reconnecting');
+
+  useEffect(
+    () =>
+      inventory.watch({
+        onStatus: setStatus,
+        onChanges: changes =>
+          queryClient.setQueryData<InventoryItem[]>(
+            inventoryKeys.store(store.id),
+            items => items && applyChanges(items, changes)
+          ),
+      }),
+    [inventory, queryClient, store.id]
+  );
+
+  return status;
+}
+
+export function useUpdateInventoryCount() {
+  const repositories = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+  const queryKey = inventoryKeys.store(store.id);
+
+  return useMutation({
+    mutationFn: ({ id, delta }: { id: string; delta: number }) =>
+      applyMovement(repositories, { itemId: id, delta, reason: 'count', actor: user?.username ?? "unknown" }),
+    // Apply the delta immediately so the +/- buttons feel instant.
+    onMutate: async ({ id, delta }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<InventoryItem[]>(queryKey);
+      queryClient.setQueryData<InventoryItem[]>(queryKey, items =>
+        items?.map(item => (item.id === id ? { ...item, count: Math.max(0, item.count + delta) } : item))
+      );
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast.error("Failed to update inventory count", { description: error.message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: movementKeys.store(store.id) });
+    },
+  });
+}
+
+// Adds a catalog item at zero stock, then posts any opening count to the ledger
+// so the item's history starts with where its stock came from.
+export function useCreateItem() {
+  const repositories = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: async ({ item, openingCount }: { item: InventoryItem; openingCount: number }) => {
+      const created = await repositories.inventory.create({ ...item, count: 0 });
+      if (openingCount <= 0) return created;
+      return applyMovement(repositories, {
+        itemId: created.id,
+        delta: openingCount,
+        reason: 'adjustment',
+        actor: user?.username ?? "unknown",
+        note: "Opening count",
+      });
+    },
+    onSuccess: item => toast.success(`${item.name} added to the catalog`),
+    onError: error => toast.error("Couldn't add item", { description: error.message }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) });
+      queryClient.invalidateQueries({ queryKey: movementKeys.store(store.id) });
+    },
+  });
+}
+
+export function useUpdateItem() {
+  const { inventory } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<ItemDetails> }) => inventory.update(id, changes),
+    onSuccess: (item, { changes }) => {
+      if (changes.archived === undefined) {
+        toast.success(`${item.name} saved`);
+      } else {
+        toast.success(`${item.name} ${changes.archived ? "archived" : "restored"}`);
+      }
+    },
+    onError: error => toast.error("Couldn't save item", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) }),
+  });
+}
+
+// Applies a planned import one item at a time, so a failure part-way leaves the
+// earlier rows in place and is reported with how far it got.
+export function useImportCatalog() {
+  const { inventory } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: async (plan: ImportPlan) => {
+      let applied = 0;
+      try {
+        for (const { item } of plan.adds) {
+          await inventory.create(item);
+          applied++;
+        }
+        for (const { item, changes } of plan.updates) {
+          await inventory.update(item.id, changes);
+          applied++;
+        }
+      } catch (error) {
+        throw new Error(`Stopped after ${applied} of ${plan.adds.length + plan.updates.length} rows: ${(error as Error).message}`);
+      }
+      return plan;
+    },
+    onSuccess: plan => {
+      const skipped = plan.conflicts.length + plan.errors.length;
+      toast.success(`Imported ${plan.adds.length} new and ${plan.updates.length} updated items`, {
+        description: skipped ? `${skipped} rows skipped` : undefined,
+      });
+    },
+    onError: error => toast.error("Import failed", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) }),
+  });
+}
@@ -0,0 +1,42 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { applyMovement, sortMovements } from "@/lib/movements";
+import { inventoryKeys, movementKeys } from "@/lib/queryKeys";
+
+// The store's ledger, newest first. Filtering by item happens on the cached list
+// so switching between items doesn't refetch.
+export function useMovements(itemId?: string) {
+  const { movements } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: movementKeys.store(store.id),
+    queryFn: async () => sortMovements(await movements.list()),
+    select: data => (itemId ? data.filter(movement => movement.itemId === itemId) : data),
+  });
+}
+
+// A correction outside normal counting, e.g. breakage or a found case; always carries a note.
+export function useRecordAdjustment() {
+  const repositories = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: ({ itemId, delta, note }: { itemId: string; delta: number; note: string }) =>
+      applyMovement(repositories, { itemId, delta, reason: 'adjustment', actor: user?.username ?? "unknown", note }),
+    onSuccess: (item) => {
+      toast.success(`Adjusted ${item.name}`, { description: `Count is now ${item.count}` });
+    },
+    onError: (error) => {
+      toast.error("Failed to record adjustment", { description: error.message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) });
+      queryClient.invalidateQueries({ queryKey: movementKeys.store(store.id) });
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+// A blob: URL for `blob`, revoked when the blob changes or the component unmounts.
+export function useObjectUrl(blob: Blob | undefined) {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
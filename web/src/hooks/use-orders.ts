@@ -0,0 +1,226 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { inventoryKeys, movementKeys, orderKeys } from "@/lib/queryKeys";
+import { orderStatusLabels, transitionOrder } from "@/lib/orderLifecycle";
+import { receiveOrder } from "@/lib/receiving";
+import { buildReorder, DuplicateOrderError, findOpenOrder, ReorderRequest } from "@/lib/reordering";
+import { applyMovement } from "@/lib/movements";
+import {
+  createPurchaseOrderId,
+  PurchaseOrderError,
+  submitPurchaseOrder,
+  SubmitPurchaseOrderRequest,
+  vendorForItem,
+} from "@/lib/vendors";
+import type { InventoryItem, Order, OrderStatus } from "@/lib/types";
+
+export function useOrders() {
+  const { orders } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: orderKeys.store(store.id),
+    queryFn: () => orders.list(),
+  });
+}
+
+export function useTransitionOrder() {
+  const { orders } = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+  const queryKey = orderKeys.store(store.id);
+
+  return useMutation({
+    mutationFn: async ({ order, to, note }: { order: Order; to: OrderStatus; note?: string }) => {
+      const next = transitionOrder(order, to, { by: user?.username, note });
+      // A draft submitted on its own goes out as a PO of its own.
+      const purchaseOrderId =
+        to === 'submitted' ? order.purchaseOrderId ?? createPurchaseOrderId() : order.purchaseOrderId;
+      return orders.update(order.id, { status: next.status, history: next.history, purchaseOrderId });
+    },
+    onSuccess: (order) => {
+      toast.success(`Order ${order.id} ${orderStatusLabels[order.status].toLowerCase()}`);
+    },
+    onError: (error) => {
+      toast.error("Failed to update order", { description: error.message });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+}
+
+export interface ReceiptResult {
+  order: Order;
+  before: number;
+  after: number;
+}
+
+// Records a delivery on the order and adds the received units to stock as a
+// counter increment, so receipts merge cleanly with counts from other devices.
+export function useReceiveOrder() {
+  const repositories = useRepositories();
+  const { inventory, orders } = repositories;
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: async ({ order, quantity, note }: { order: Order; quantity: number; note?: string }): Promise<ReceiptResult> => {
+      const next = receiveOrder(order, quantity, { by: user?.username, note });
+      const stocked = await inventory.get(order.itemId);
+      if (!stocked) throw new Error(`${order.itemName} is no longer in the catalog`);
+      const updated = await orders.update(order.id, {
+        status: next.status,
+        history: next.history,
+        receivedCount: next.receivedCount,
+      });
+      let item: InventoryItem;
+      try {
+        item = await applyMovement(repositories, {
+          itemId: order.itemId,
+          delta: quantity,
+          reason: 'receipt',
+          actor: user?.username ?? "unknown",
+          note,
+          orderId: order.id,
+        });
+      } catch (error) {
+        // Put the order back so the delivery can be received again once the stock change goes through.
+        await orders.update(order.id, {
+          status: order.status,
+          history: order.history,
+          receivedCount: order.receivedCount,
+        });
+        throw error;
+      }
+      return { order: updated, before: stocked.count, after: item.count };
+    },
+    onSuccess: ({ order, before, after }) => {
+      toast.success(`Received ${order.receivedCount} of ${order.count} units for ${order.id}`, {
+        description: `${order.itemName} stock: ${before} → ${after}`,
+      });
+    },
+    onError: (error) => {
+      toast.error("Failed to receive order", { description: error.message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.store(store.id) });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) });
+      queryClient.invalidateQueries({ queryKey: movementKeys.store(store.id) });
+    },
+  });
+}
+
+// Links to an order card on the Orders page.
+export function useOrderPath() {
+  const { storePath } = useStore();
+  return (orderId: string) => storePath(`/orders?order=${encodeURIComponent(orderId)}`);
+}
+
+export function useCreateOrder() {
+  const { orders } = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+  const navigate = useNavigate();
+  const orderPath = useOrderPath();
+
+  return useMutation({
+    mutationFn: async ({ item, request }: { item: InventoryItem; request: ReorderRequest }) => {
+      // Check against the freshest list, not just the cache the dialog saw.
+      const existing = findOpenOrder(await orders.list(), item.id);
+      if (existing) throw new DuplicateOrderError(existing);
+      return orders.create(buildReorder(item, request, { by: user?.username }));
+    },
+    onSuccess: (order) => {
+      toast.success(`Order ${order.id} placed`, {
+        description: `${order.count} units of ${order.itemName}`,
+        action: { label: "View order", onClick: () => navigate(orderPath(order.id)) },
+      });
+    },
+    onError: (error) => {
+      const existing = error instanceof DuplicateOrderError ? error.existing : null;
+      toast.error("Failed to place order", {
+        description: error.message,
+        action: existing ? { label: "View order", onClick: () => navigate(orderPath(existing.id)) } : undefined,
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.store(store.id) }),
+  });
+}
+
+// Drafts orders for several items at once, e.g. from the suggested-orders
+// review or an auto-draft. Items that already have an open order are skipped,
+// and each draft is placed with the vendor that can deliver the item soonest.
+export function useDraftOrders() {
+  const { orders, vendors } = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: async (drafts: { item: InventoryItem; quantity: number; notes?: string }[]) => {
+      const [existing, activeVendors] = await Promise.all([orders.list(), vendors.list()]);
+      const created: Order[] = [];
+      for (const { item, quantity, notes } of drafts) {
+        if (findOpenOrder([...existing, ...created], item.id)) continue;
+        const vendor = vendorForItem(activeVendors, item.id);
+        created.push(
+          await orders.create(
+            buildReorder(item, { quantity, vendor, urgency: 'routine', notes }, { by: user?.username, status: 'draft' })
+          )
+        );
+      }
+      return created;
+    },
+    onSuccess: (created) => {
+      if (created.length === 0) {
+        toast.info("Nothing to draft", { description: "Every item already has an open order" });
+      } else {
+        toast.success(`Drafted ${created.length} order${created.length === 1 ? "" : "s"}`, {
+          description: created.map(order => order.itemName).join(", "),
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error("Failed to draft orders", { description: error.message });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.store(store.id) }),
+  });
+}
+
+export function useSubmitPurchaseOrder() {
+  const { orders } = useRepositories();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: (request: SubmitPurchaseOrderRequest) =>
+      submitPurchaseOrder({ orders }, request, { by: user?.username }),
+    onSuccess: ({ purchaseOrderId, vendor, submitted }) => {
+      const items = `${submitted.length} item${submitted.length === 1 ? "" : "s"}`;
+      if (vendor) {
+        toast.success(`Submitted ${purchaseOrderId} to ${vendor.name}`, { description: items });
+      } else {
+        toast.success(`Submitted ${items}`, { description: submitted.map(order => order.purchaseOrderId).join(", ") });
+      }
+    },
+    onError: (error) => {
+      if (error instanceof PurchaseOrderError && error.submitted.length > 0) {
+        const total = error.submitted.length + error.remaining.length;
+        toast.error(`Sent ${error.submitted.length} of ${total} items`, {
+          description: `${error.message}. Submit again to send the other ${error.remaining.length}${
+            error.purchaseOrderId ? ` on ${error.purchaseOrderId}` : ""
+          }.`,
+        });
+        return;
+      }
+      toast.error("Failed to submit purchase order", { description: error.message });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: orderKeys.store(store.id) }),
+  });
+}
@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { inventoryKeys, movementKeys, orderKeys } from "@/lib/queryKeys";
+import type { OutboxEntry, OutboxMutation, OutboxStatus } from "@/lib/outbox";
+
+const EMPTY: OutboxEntry[] = [];
+const noopSubscribe = () => () => {};
+const severity: OutboxStatus[] = ['pending', 'syncing', 'failed'];
+
+const targetId = (mutation: OutboxMutation) => {
+  switch (mutation.kind) {
+    case 'adjustCount':
+    case 'updateItem':
+      return mutation.itemId;
+    case 'createItem':
+      return mutation.item.id;
+    case 'createOrder':
+      return mutation.order.id;
+    case 'updateOrder':
+      return mutation.orderId;
+    case 'recordMovement':
+      return mutation.movement.id;
+  }
+};
+
+export function useOutbox() {
+  const { outbox } = useRepositories();
+  return useSyncExternalStore(outbox?.subscribe ?? noopSubscribe, outbox?.getSnapshot ?? (() => EMPTY));
+}
+
+// Most severe queued-mutation status per item or order id.
+export function usePendingStatuses() {
+  const entries = useOutbox();
+  return useMemo(() => {
+    const statuses = new Map<string, OutboxStatus>();
+    entries.forEach(({ mutation, status }) => {
+      const id = targetId(mutation);
+      const current = statuses.get(id);
+      if (!current || severity.indexOf(status) > severity.indexOf(current)) {
+        statuses.set(id, status);
+      }
+    });
+    return statuses;
+  }, [entries]);
+}
+
+export function usePendingStatus(id: string) {
+  return usePendingStatuses().get(id);
+}
+
+// Refetch once queued writes are confirmed or discarded, so cached data
+// reflects the server rather than the locally rebased view.
+export function useOutboxRefresh() {
+  const { outbox } = useRepositories();
+  const { store } = useStore();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!outbox) return;
+    let size = outbox.getSnapshot().length;
+    return outbox.subscribe(() => {
+      const next = outbox.getSnapshot().length;
+      if (next < size) {
+        queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) });
+        queryClient.invalidateQueries({ queryKey: orderKeys.store(store.id) });
+        queryClient.invalidateQueries({ queryKey: movementKeys.store(store.id) });
+      }
+      size = next;
+    });
+  }, [outbox, store.id, queryClient]);
+}
@@ -0,0 +1,14 @@
+import { useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { canReorder, hasPermission, Permission } from "@/lib/permissions";
+import type { InventoryItem } from "@/lib/types";
+
+export function usePermissions() {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+  const canReorderItem = useCallback((item: InventoryItem) => canReorder(role, item), [role]);
+
+  return { role, can, canReorderItem };
+}
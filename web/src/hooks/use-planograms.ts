@@ -0,0 +1,29 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import type { Planogram } from "@/lib/planogram";
+import { planogramKeys } from "@/lib/queryKeys";
+
+// Every saved version; see currentPlanograms and versionsOf for the usual views.
+export function usePlanogramVersions() {
+  const { planograms } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: planogramKeys.store(store.id),
+    queryFn: () => planograms.list(),
+  });
+}
+
+export function useSavePlanogram() {
+  const { planograms } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: (planogram: Planogram) => planograms.save(planogram),
+    onSuccess: planogram => toast.success(`Saved ${planogram.name} version ${planogram.version}`),
+    onError: error => toast.error("Couldn't save planogram", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: planogramKeys.store(store.id) }),
+  });
+}
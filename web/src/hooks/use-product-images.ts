@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import type { InventoryItem } from "@/lib/types";
+import { ImageVariant, prepareProductImage } from "@/lib/productImages";
+import { inventoryKeys, productImageKeys } from "@/lib/queryKeys";
+
+// An object URL for the item's uploaded photo, or undefined while loading and
+// for items without one. A digest's content never changes, so it is fetched once.
+export function useProductImage(item: InventoryItem, variant: ImageVariant) {
+  const { images } = useRepositories();
+  const digest = item.photo?.[variant];
+  const { data: blob, isError } = useQuery({
+    queryKey: productImageKeys.digest(digest ?? ""),
+    queryFn: () => images.get(item.id, variant, digest),
+    enabled: !!digest,
+    staleTime: Infinity,
+    retry: 1,
+  });
+  const src = useObjectUrl(blob);
+
+  return { src: digest ? src : undefined, isError };
+}
+
+export function useUploadProductImage() {
+  const { images } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: async ({ item, file }: { item: InventoryItem; file: File }) =>
+      images.save(item.id, await prepareProductImage(file)),
+    onSuccess: item => toast.success(`Photo saved for ${item.name}`),
+    onError: error => toast.error("Couldn't upload photo", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) }),
+  });
+}
+
+export function useRemoveProductImage() {
+  const { images } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: (item: InventoryItem) => images.remove(item.id),
+    onSuccess: item => toast.success(`Photo removed from ${item.name}`),
+    onError: error => toast.error("Couldn't remove photo", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.store(store.id) }),
+  });
+}
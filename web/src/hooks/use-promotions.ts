@@ -0,0 +1,56 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { EffectivePrice, effectivePrice, Promotion } from "@/lib/promotions";
+import { promotionKeys } from "@/lib/queryKeys";
+import type { InventoryItem } from "@/lib/types";
+
+export function usePromotions() {
+  const { promotions } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: promotionKeys.store(store.id),
+    queryFn: () => promotions.list(),
+  });
+}
+
+// Today's price for each item, keyed by item id.
+export function useEffectivePrices(items: InventoryItem[]) {
+  const { data: promotions = [] } = usePromotions();
+  return useMemo(() => {
+    const prices = new Map<string, EffectivePrice>();
+    items.forEach(item => prices.set(item.id, effectivePrice(item, promotions)));
+    return prices;
+  }, [items, promotions]);
+}
+
+export function useCreatePromotion() {
+  const { promotions } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: (promotion: Promotion) => promotions.create(promotion),
+    onSuccess: promotion => toast.success(`Scheduled ${promotion.name}`),
+    onError: error => toast.error("Couldn't save promotion", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: promotionKeys.store(store.id) }),
+  });
+}
+
+export function useCancelPromotion() {
+  const { promotions } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (promotion: Promotion) =>
+      promotions.update(promotion.id, { cancelledAt: new Date().toISOString(), cancelledBy: user?.username }),
+    onSuccess: promotion => toast.success(`Cancelled ${promotion.name}`),
+    onError: error => toast.error("Couldn't cancel promotion", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: promotionKeys.store(store.id) }),
+  });
+}
@@ -0,0 +1,44 @@
+import { useCallback, useMemo, useState } from "react";
+import { useStore } from "@/contexts/StoreContext";
+import { useInventory } from "@/hooks/use-inventory";
+import { useOrders } from "@/hooks/use-orders";
+import { useForecasts } from "@/hooks/use-forecasts";
+import { isAutoDraftEnabled, proposeOrders, setAutoDraftEnabled } from "@/lib/replenishment";
+
+export function useSuggestedOrders() {
+  const inventory = useInventory();
+  const orders = useOrders();
+  const forecasts = useForecasts();
+  const suggestions = useMemo(
+    () => proposeOrders(inventory.data ?? [], orders.data ?? [], forecasts),
+    [inventory.data, orders.data, forecasts]
+  );
+
+  return {
+    suggestions,
+    isLoading: inventory.isLoading || orders.isLoading,
+    error: inventory.error ?? orders.error,
+  };
+}
+
+export function useAutoDraftSetting() {
+  const { store } = useStore();
+  const [enabled, setEnabled] = useState(() => isAutoDraftEnabled(store.id));
+  const [prevStoreId, setPrevStoreId] = useState(store.id);
+
+  // Re-read the setting when switching stores.
+  if (prevStoreId !== store.id) {
+    setPrevStoreId(store.id);
+    setEnabled(isAutoDraftEnabled(store.id));
+  }
+
+  const update = useCallback(
+    (value: boolean) => {
+      setAutoDraftEnabled(store.id, value);
+      setEnabled(value);
+    },
+    [store.id]
+  );
+
+  return [enabled, update] as const;
+}
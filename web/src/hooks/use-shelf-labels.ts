@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useStore } from "@/contexts/StoreContext";
+import { useInventory } from "@/hooks/use-inventory";
+import { useEffectivePrices, usePromotions } from "@/hooks/use-promotions";
+import {
+  assumeLabelsCurrent,
+  LabelContent,
+  labelContent,
+  labelFingerprint,
+  labelsNeedingReprint,
+  loadPrintedLabels,
+  savePrintedLabels,
+} from "@/lib/shelfLabels";
+
+// Label content for every active item at today's prices, and the ones whose
+// printed label is out of date.
+export function useShelfLabels() {
+  const { store } = useStore();
+  const inventory = useInventory();
+  const promotions = usePromotions();
+  const items = useMemo(() => inventory.data ?? [], [inventory.data]);
+  const prices = useEffectivePrices(items);
+  const [printed, setPrinted] = useState(() => loadPrintedLabels(store.id));
+  const [prevStoreId, setPrevStoreId] = useState(store.id);
+
+  // Re-read the record when switching stores.
+  if (prevStoreId !== store.id) {
+    setPrevStoreId(store.id);
+    setPrinted(loadPrintedLabels(store.id));
+  }
+
+  const isLoading = inventory.isLoading || promotions.isLoading;
+  const labels = useMemo(() => items.map(item => labelContent(item, prices.get(item.id))), [items, prices]);
+
+  // Wait for promotions too, or every item on sale would look changed.
+  useEffect(() => {
+    if (printed || isLoading || inventory.error || promotions.error) return;
+    const initial = assumeLabelsCurrent(labels);
+    savePrintedLabels(store.id, initial);
+    setPrinted(initial);
+  }, [printed, isLoading, inventory.error, promotions.error, labels, store.id]);
+
+  const queue = useMemo(() => (printed ? labelsNeedingReprint(labels, printed) : []), [labels, printed]);
+
+  const markPrinted = useCallback(
+    (printedLabels: LabelContent[]) => {
+      const next = { ...loadPrintedLabels(store.id) };
+      printedLabels.forEach(label => (next[label.itemId] = labelFingerprint(label)));
+      savePrintedLabels(store.id, next);
+      setPrinted(next);
+    },
+    [store.id]
+  );
+
+  return { labels, queue, markPrinted, isLoading, error: inventory.error ?? promotions.error };
+}
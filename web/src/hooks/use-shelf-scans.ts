@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import type { ShelfScan } from "@/lib/compliance";
+import { shelfScanKeys } from "@/lib/queryKeys";
+
+export function useShelfScans() {
+  const { shelfScans } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: shelfScanKeys.store(store.id),
+    queryFn: () => shelfScans.list(),
+  });
+}
+
+// Scans are never rewritten, so a photo is fetched once per scan.
+export function useShelfScanPhoto(scan: ShelfScan | undefined) {
+  const { shelfScans } = useRepositories();
+  const { data } = useQuery({
+    queryKey: shelfScanKeys.photo(scan?.id ?? ""),
+    queryFn: () => shelfScans.photo(scan.id),
+    enabled: !!scan?.hasPhoto,
+    staleTime: Infinity,
+  });
+  return useObjectUrl(scan?.hasPhoto ? data : undefined);
+}
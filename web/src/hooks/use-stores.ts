@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRepositoryRegistry } from "@/contexts/RepositoryContext";
+import { storeKeys } from "@/lib/queryKeys";
+
+export function useStores() {
+  const { stores } = useRepositoryRegistry();
+  return useQuery({
+    queryKey: storeKeys.all,
+    queryFn: () => stores.list(),
+    staleTime: Infinity,
+  });
+}
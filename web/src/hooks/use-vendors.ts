@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useRepositories } from "@/contexts/RepositoryContext";
+import { useStore } from "@/contexts/StoreContext";
+import { vendorKeys } from "@/lib/queryKeys";
+import type { Vendor } from "@/lib/vendors";
+
+export function useVendors() {
+  const { vendors } = useRepositories();
+  const { store } = useStore();
+  return useQuery({
+    queryKey: vendorKeys.store(store.id),
+    queryFn: () => vendors.list(),
+  });
+}
+
+export function useCreateVendor() {
+  const { vendors } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: (vendor: Vendor) => vendors.create(vendor),
+    onSuccess: vendor => toast.success(`Added ${vendor.name}`),
+    onError: error => toast.error("Couldn't save vendor", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: vendorKeys.store(store.id) }),
+  });
+}
+
+export function useUpdateVendor() {
+  const { vendors } = useRepositories();
+  const queryClient = useQueryClient();
+  const { store } = useStore();
+
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<Omit<Vendor, 'id'>> }) => vendors.update(id, changes),
+    onSuccess: vendor => toast.success(vendor.archived ? `Archived ${vendor.name}` : `Saved ${vendor.name}`),
+    onError: error => toast.error("Couldn't save vendor", { description: error.message }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: vendorKeys.store(store.id) }),
+  });
+}
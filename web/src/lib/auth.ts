@@ -0,0 +1,132 @@
+import { syncGatewayConfig } from "./config";
+import { SyncGatewayClient, SyncGatewayError } from "./syncGateway";
+import { Role, roles } from "./permissions";
+
+export interface User {
+  username: string;
+  displayName: string;
+  role: Role;
+  // Stores the employee is assigned to.
+  storeIds: string[];
+}
+
+export interface Session {
+  user: User;
+  expiresAt: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Pluggable backend behind the Login page.
+export interface AuthService {
+  login(username: string, password: string): Promise<Session>;
+  logout(session: Session): Promise<void>;
+}
+
+// Sync Gateway's default session_ttl.
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const expiresIn = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+export const isSessionExpired = (session: Session) => new Date(session.expiresAt).getTime() <= Date.now();
+
+interface SessionResponse {
+  ok: boolean;
+  userCtx: { name: string | null; channels: Record<string, number> };
+}
+
+const ROLE_CHANNEL_PREFIX = "role.";
+const STORE_CHANNEL_PREFIX = "store-";
+
+// The sync function grants each user a `role.<role>` channel; the highest one wins.
+const roleFromChannels = (channels: Record<string, number>): Role =>
+  [...roles].reverse().find(role => `${ROLE_CHANNEL_PREFIX}${role}` in channels) ?? 'clerk';
+
+// Store access follows the `store-<id>` channels the user can read.
+const storesFromChannels = (channels: Record<string, number>) =>
+  Object.keys(channels)
+    .filter(channel => channel.startsWith(STORE_CHANNEL_PREFIX))
+    .map(channel => channel.slice(STORE_CHANNEL_PREFIX.length));
+
+// Creates a Sync Gateway session for the employee's Sync Gateway user. The
+// session cookie is then sent with every REST and `_changes` request.
+export class SyncGatewayAuthService implements AuthService {
+  constructor(private readonly client: SyncGatewayClient) {}
+
+  async login(username: string, password: string): Promise<Session> {
+    try {
+      const response = await this.client.databaseRequest<SessionResponse>("_session", {
+        method: "POST",
+        body: JSON.stringify({ name: username, password }),
+      });
+      const name = response.userCtx.name ?? username;
+      const channels = response.userCtx.channels ?? {};
+      return {
+        user: {
+          username: name,
+          displayName: name,
+          role: roleFromChannels(channels),
+          storeIds: storesFromChannels(channels),
+        },
+        expiresAt: expiresIn(SESSION_TTL_MS),
+      };
+    } catch (error) {
+      if (error instanceof SyncGatewayError && error.status === 401) {
+        throw new AuthError("Invalid username or password");
+      }
+      throw error;
+    }
+  }
+
+  async logout() {
+    await this.client.databaseRequest("_session", { method: "DELETE" }).catch(() => undefined);
+  }
+}
+
+interface StubAccount {
+  password: string;
+  displayName: string;
+  role: Role;
+  storeIds: string[];
+}
+
+// Demo accounts for running without a Sync Gateway, one per role.
+export const stubAccounts: Record<string, StubAccount> = {
+  clerk: { password: "password", displayName: "Store Clerk", role: 'clerk', storeIds: ["2847"] },
+  lead: { password: "password", displayName: "Shift Lead", role: 'shift_lead', storeIds: ["2847"] },
+  manager: { password: "password", displayName: "Store Manager", role: 'store_manager', storeIds: ["2847"] },
+  admin: { password: "password", displayName: "District Admin", role: 'district_admin', storeIds: [] },
+};
+
+export class LocalAuthService implements AuthService {
+  constructor(
+    private readonly accounts: Record<string, StubAccount> = stubAccounts,
+    private readonly ttlMs = 8 * 60 * 60 * 1000
+  ) {}
+
+  async login(username: string, password: string): Promise<Session> {
+    const account = this.accounts[username.toLowerCase()];
+    if (!account || account.password !== password) {
+      throw new AuthError("Invalid username or password");
+    }
+    return {
+      user: {
+        username: username.toLowerCase(),
+        displayName: account.displayName,
+        role: account.role,
+        storeIds: account.storeIds,
+      },
+      expiresAt: expiresIn(this.ttlMs),
+    };
+  }
+
+  async logout() {}
+}
+
+export const createAuthService = (): AuthService =>
+  syncGatewayConfig ? new SyncGatewayAuthService(new SyncGatewayClient(syncGatewayConfig)) : new LocalAuthService();
@@ -0,0 +1,10 @@
+import type { InventoryItem } from "./types";
+import { gtinKey } from "./gtin";
+
+// Scanners report a UPC-A either as its 12 digits or as an EAN-13 with a
+// leading zero; comparing GTIN-14 keys matches either against the stored code.
+export const findItemByBarcode = (items: InventoryItem[], code: string) => {
+  const wanted = gtinKey(code);
+  if (!wanted) return undefined;
+  return items.find(item => item.barcode && gtinKey(item.barcode) === wanted);
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "./types";
+import { guessMapping, planImport } from "./catalogImport";
+
+const item = (changes: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "A1",
+  name: "Apples",
+  category: "Produce",
+  image: "",
+  barcode: "",
+  price: 1,
+  count: 5,
+  reorderPoint: 5,
+  parLevel: 20,
+  packSize: 1,
+  ...changes,
+});
+
+const header = ["SKU", "Item Name", "Dept", "UPC", "Retail Price"];
+
+describe("guessMapping", () => {
+  it("recognises head-office header spellings", () => {
+    expect(guessMapping(header)).toMatchObject({ id: 0, name: 1, category: 2, barcode: 3, price: 4, aisle: null });
+  });
+});
+
+describe("planImport", () => {
+  it("restores leading zeros a spreadsheet dropped from barcodes", () => {
+    // 012345678905 and 001234567895 as read back from number cells.
+    const rows = [header, ["B2", "Bananas", "Produce", "12345678905", "0.5"], ["A1", "", "", "1234567895", ""]];
+    const plan = planImport(rows, guessMapping(header), [item()]);
+    expect(plan.errors).toEqual([]);
+    expect(plan.adds[0].item.barcode).toBe("00012345678905");
+    expect(plan.updates[0].changes).toEqual({ barcode: "00001234567895" });
+  });
+
+  it("still reports a short barcode that padding doesn't fix", () => {
+    const plan = planImport([header, ["A1", "", "", "12345678906", ""]], guessMapping(header), [item()]);
+    expect(plan.errors).toEqual([
+      { row: 2, field: 'barcode', message: expect.stringMatching(/8, 12, 13 or 14 digits/) },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { InventoryItem, ItemDetails } from "./types";
+import { gtinKey, normalizeGtin, restoreLeadingZeros } from "./gtin";
+import { itemFieldSchemas, itemFormSchema, PAR_LEVEL_ERROR, toFormValues, toItemDetails } from "./itemMaster";
+
+// Catalog columns a spreadsheet can update. Counts are not imported: stock only
+// changes through the ledger, so head office sends counts the other way.
+export type ImportField =
+  | 'id'
+  | 'name'
+  | 'category'
+  | 'barcode'
+  | 'price'
+  | 'reorderPoint'
+  | 'parLevel'
+  | 'packSize'
+  | 'aisle';
+
+export const importFields: ImportField[] = [
+  'id',
+  'name',
+  'category',
+  'barcode',
+  'price',
+  'reorderPoint',
+  'parLevel',
+  'packSize',
+  'aisle',
+];
+
+export const importFieldLabels: Record<ImportField, string> = {
+  id: "Item ID",
+  name: "Name",
+  category: "Category",
+  barcode: "Barcode",
+  price: "Price",
+  reorderPoint: "Reorder Point",
+  parLevel: "Par Level",
+  packSize: "Pack Size",
+  aisle: "Aisle",
+};
+
+// Header spellings seen in head-office sheets, compared lower-case without punctuation.
+const headerAliases: Record<ImportField, string[]> = {
+  id: ["id", "itemid", "sku", "itemcode", "productid"],
+  name: ["name", "itemname", "productname", "description"],
+  category: ["category", "department", "dept"],
+  barcode: ["barcode", "upc", "ean", "gtin", "upcean"],
+  price: ["price", "retailprice", "unitprice", "retail"],
+  reorderPoint: ["reorderpoint", "reorderat", "minimum", "min"],
+  parLevel: ["parlevel", "par", "maximum", "max"],
+  packSize: ["packsize", "casepack", "pack", "casesize"],
+  aisle: ["aisle", "location", "shelf"],
+};
+
+// Column index per field; null leaves the field out of the import.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  return importFields.reduce((mapping, field) => {
+    const index = normalized.findIndex(header => headerAliases[field].includes(header));
+    return { ...mapping, [field]: index === -1 ? null : index };
+  }, {} as ColumnMapping);
+}
+
+export interface RowError {
+  // Spreadsheet row number, counting the header as row 1.
+  row: number;
+  field?: ImportField;
+  message: string;
+}
+
+export interface ImportAdd {
+  row: number;
+  item: InventoryItem;
+}
+
+export interface ImportUpdate {
+  row: number;
+  item: InventoryItem;
+  changes: Partial<ItemDetails>;
+}
+
+export interface ImportConflict {
+  row: number;
+  itemId: string;
+  message: string;
+}
+
+export interface ImportPlan {
+  adds: ImportAdd[];
+  updates: ImportUpdate[];
+  unchanged: number;
+  conflicts: ImportConflict[];
+  errors: RowError[];
+}
+
+const detailFields = importFields.filter((field): field is Exclude<ImportField, 'id'> => field !== 'id');
+
+// Blank cells keep the item's current value, so a sheet can update just prices.
+const cellsFor = (row: string[], mapping: ColumnMapping) =>
+  importFields.reduce<Partial<Record<ImportField, string>>>((cells, field) => {
+    const value = mapping[field] === null ? "" : (row[mapping[field]] ?? "").trim();
+    if (!value) return cells;
+    return { ...cells, [field]: field === 'barcode' ? restoreLeadingZeros(value) : value };
+  }, {});
+
+// Checks only the columns present in the row against an existing item, so an
+// item with an old value the editor would now reject (say, no price) can still
+// have its other fields updated. Returns the fields that differ from the item.
+function parseUpdate(item: InventoryItem, cells: Partial<Record<ImportField, string>>, row: number) {
+  const errors: RowError[] = [];
+  const values = detailFields.reduce<Partial<ItemDetails>>((values, field) => {
+    if (cells[field] === undefined) return values;
+    const parsed = itemFieldSchemas[field].safeParse(cells[field]);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => errors.push({ row, field, message: issue.message }));
+      return values;
+    }
+    return { ...values, [field]: field === 'barcode' ? normalizeGtin(parsed.data as string) : parsed.data };
+  }, {});
+  if (errors.length > 0) return { errors };
+
+  const current = toFormValues(item);
+  const parLevel = values.parLevel ?? current.parLevel;
+  if ((cells.parLevel || cells.reorderPoint) && parLevel <= (values.reorderPoint ?? current.reorderPoint)) {
+    errors.push({ row, field: 'parLevel', message: PAR_LEVEL_ERROR });
+    return { errors };
+  }
+
+  const changes = detailFields.reduce<Partial<ItemDetails>>(
+    (changes, field) =>
+      values[field] !== undefined && values[field] !== item[field] ? { ...changes, [field]: values[field] } : changes,
+    {}
+  );
+  return { errors, changes };
+}
+
+// Works out what an import would do without changing anything. Rows are
+// validated with the same rules as the item editor, updates only for the
+// columns they fill in; rows that fail, and rows that clash with each other or
+// with another item's barcode, are left out.
+export function planImport(rows: string[][], mapping: ColumnMapping, items: InventoryItem[]): ImportPlan {
+  const plan: ImportPlan = { adds: [], updates: [], unchanged: 0, conflicts: [], errors: [] };
+  if (mapping.id === null) {
+    plan.errors.push({ row: 1, field: 'id', message: "Map a column to Item ID to match rows to items" });
+    return plan;
+  }
+
+  const byId = new Map(items.map(item => [item.id.toUpperCase(), item]));
+  const idRows = new Map<string, number>();
+  // Barcode key -> id of the item that will hold it once the import is applied.
+  const barcodeOwners = new Map(items.filter(item => item.barcode).map(item => [gtinKey(item.barcode), item.id]));
+
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cells = cellsFor(row, mapping);
+    if (Object.keys(cells).length === 0) return;
+
+    if (!cells.id) {
+      plan.errors.push({ row: rowNumber, field: 'id', message: "Item ID is missing" });
+      return;
+    }
+    const id = cells.id.toUpperCase();
+    if (idRows.has(id)) {
+      plan.conflicts.push({ row: rowNumber, itemId: id, message: `Same item as row ${idRows.get(id)}` });
+      return;
+    }
+    idRows.set(id, rowNumber);
+
+    const existing = byId.get(id);
+    if (existing) {
+      const { errors, changes } = parseUpdate(existing, cells, rowNumber);
+      if (errors.length > 0) {
+        plan.errors.push(...errors);
+        return;
+      }
+      const owner = changes.barcode ? barcodeOwners.get(gtinKey(changes.barcode)) : undefined;
+      if (owner && owner !== existing.id) {
+        plan.conflicts.push({ row: rowNumber, itemId: existing.id, message: `Barcode already belongs to ${owner}` });
+        return;
+      }
+      if (existing.archived) {
+        plan.conflicts.push({ row: rowNumber, itemId: existing.id, message: "Item is archived; restore it before updating" });
+        return;
+      }
+      if (Object.keys(changes).length === 0) {
+        plan.unchanged++;
+        return;
+      }
+      if (changes.barcode) barcodeOwners.set(gtinKey(changes.barcode), existing.id);
+      plan.updates.push({ row: rowNumber, item: existing, changes });
+      return;
+    }
+
+    const parsed = itemFormSchema.safeParse({ ...toFormValues(), ...cells });
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue =>
+        plan.errors.push({ row: rowNumber, field: issue.path[0] as ImportField, message: issue.message })
+      );
+      return;
+    }
+    if (!cells.name || !cells.category || !cells.price) {
+      plan.errors.push({ row: rowNumber, message: "New items need a name, category and price" });
+      return;
+    }
+
+    const details = toItemDetails(parsed.data);
+    const itemId = parsed.data.id;
+    const owner = details.barcode ? barcodeOwners.get(gtinKey(details.barcode)) : undefined;
+    if (owner && owner !== itemId) {
+      plan.conflicts.push({ row: rowNumber, itemId, message: `Barcode already belongs to ${owner}` });
+      return;
+    }
+    if (details.barcode) barcodeOwners.set(gtinKey(details.barcode), itemId);
+    plan.adds.push({ row: rowNumber, item: { ...details, id: itemId, count: 0 } });
+  });
+
+  return plan;
+}
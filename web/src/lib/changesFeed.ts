@@ -0,0 +1,142 @@
+import { SyncGatewayClient, SyncGatewayDocument } from "./syncGateway";
+
+export type FeedStatus = 'live' | 'reconnecting' | 'offline';
+
+export interface ChangesFeedResult<T> {
+  seq: string | number;
+  id: string;
+  deleted?: boolean;
+  doc?: T;
+}
+
+interface ChangesResponse<T> {
+  results: ChangesFeedResult<T>[];
+  last_seq: string | number;
+}
+
+interface ChangesFeedOptions<T> {
+  // Restricts the feed to one channel (one store's documents).
+  channel?: string;
+  onChanges: (changes: ChangesFeedResult<T>[]) => void;
+  onStatus: (status: FeedStatus) => void;
+}
+
+const LONGPOLL_TIMEOUT_MS = 25000;
+const MAX_BACKOFF_MS = 30000;
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// Follows a collection's `_changes` feed with longpolling. The last sequence
+// seen is checkpointed in localStorage so a reload resumes where it left off
+// instead of replaying the whole collection.
+export class ChangesFeed<T extends SyncGatewayDocument> {
+  private controller: AbortController | null = null;
+  private status: FeedStatus | null = null;
+
+  constructor(
+    private readonly client: SyncGatewayClient,
+    private readonly collection: string,
+    private readonly options: ChangesFeedOptions<T>
+  ) {}
+
+  private get checkpointKey() {
+    return `changes-since:${this.client.keyspace(this.collection)}:${this.options.channel ?? "*"}`;
+  }
+
+  private get filter() {
+    const { channel } = this.options;
+    return channel ? `filter=sync_gateway/bychannel&channels=${encodeURIComponent(channel)}&` : "";
+  }
+
+  private get since() {
+    return localStorage.getItem(this.checkpointKey);
+  }
+
+  private set since(seq: string) {
+    localStorage.setItem(this.checkpointKey, seq);
+  }
+
+  start() {
+    window.addEventListener("online", this.handleOnline);
+    window.addEventListener("offline", this.handleOffline);
+    if (navigator.onLine) {
+      this.run();
+    } else {
+      this.setStatus('offline');
+    }
+  }
+
+  stop() {
+    window.removeEventListener("online", this.handleOnline);
+    window.removeEventListener("offline", this.handleOffline);
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private handleOnline = () => {
+    this.controller?.abort();
+    this.run();
+  };
+
+  private handleOffline = () => {
+    this.controller?.abort();
+    this.controller = null;
+    this.setStatus('offline');
+  };
+
+  private setStatus(status: FeedStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.options.onStatus(status);
+  }
+
+  // The first request of a run returns straight away with whatever changed
+  // while disconnected, so the status turns live as soon as the server answers;
+  // after that the feed longpolls. The status only goes live on a response.
+  private async run() {
+    const controller = new AbortController();
+    this.controller = controller;
+    const { signal } = controller;
+    let backoff = 1000;
+    let catchingUp = true;
+
+    while (!signal.aborted) {
+      try {
+        // Without a checkpoint, skip history: the caller already loaded a snapshot.
+        if (this.since === null) {
+          const initial = await this.client.request<ChangesResponse<T>>(this.collection, `_changes?${this.filter}`, {
+            signal,
+          });
+          this.since = String(initial.last_seq);
+        }
+
+        const feed = catchingUp ? "" : `feed=longpoll&timeout=${LONGPOLL_TIMEOUT_MS}&`;
+        const response = await this.client.request<ChangesResponse<T>>(
+          this.collection,
+          `_changes?${this.filter}${feed}include_docs=true&since=${encodeURIComponent(this.since)}`,
+          { signal }
+        );
+        this.setStatus('live');
+
+        if (response.results.length > 0) {
+          this.options.onChanges(response.results);
+        }
+        this.since = String(response.last_seq);
+        catchingUp = false;
+        backoff = 1000;
+      } catch {
+        if (signal.aborted) return;
+        this.setStatus(navigator.onLine ? 'reconnecting' : 'offline');
+        await delay(backoff, signal);
+        backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+      }
+    }
+  }
+}
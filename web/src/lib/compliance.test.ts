@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "./types";
+import type { Planogram, PlanogramPosition } from "./planogram";
+import { fixtureCompliance, MIN_CONFIDENCE, resolveDetection, ShelfDetection, ShelfScan } from "./compliance";
+
+const item = (id: string, name: string, count = 10): InventoryItem => ({
+  id,
+  name,
+  category: "Snacks",
+  image: "",
+  barcode: "",
+  price: 1,
+  count,
+  reorderPoint: 2,
+  parLevel: 20,
+  packSize: 1,
+});
+
+const items = [item("A", "Salted Crisps"), item("B", "Cheese Crisps"), item("C", "Pretzels", 0)];
+
+// A single-fixture planogram with one entry in `shelves` per shelf, top first.
+const planogram = (version: number, shelves: PlanogramPosition[][]): Planogram => ({
+  id: "PG-1",
+  version,
+  name: "Snack aisle",
+  fixtures: [
+    {
+      id: "FX-1",
+      name: "Gondola 1",
+      width: 12,
+      shelves: shelves.map((positions, index) => ({ id: `SH-${index}`, positions })),
+    },
+  ],
+  savedAt: "2024-01-01T00:00:00.000Z",
+  savedBy: "planner",
+});
+
+const detection = (changes: Partial<ShelfDetection>): ShelfDetection => ({
+  label: "",
+  confidence: 0.9,
+  count: 1,
+  boxes: [],
+  ...changes,
+});
+
+const scan = (shelfIndex: number, detections: ShelfDetection[], changes: Partial<ShelfScan> = {}): ShelfScan => ({
+  id: `SC-${shelfIndex}`,
+  planogramId: "PG-1",
+  planogramVersion: 1,
+  fixtureId: "FX-1",
+  shelfIndex,
+  scannedAt: "2024-01-15T09:00:00.000Z",
+  scannedBy: "clerk",
+  detections,
+  hasPhoto: false,
+  ...changes,
+});
+
+describe("resolveDetection", () => {
+  it("prefers the app's match, then an exact name, then a name containing the label", () => {
+    expect(resolveDetection(detection({ itemId: "B", label: "Salted Crisps" }), items)?.id).toBe("B");
+    expect(resolveDetection(detection({ label: "cheese crisps" }), items)?.id).toBe("B");
+    expect(resolveDetection(detection({ label: "crisps" }), items)?.id).toBe("A");
+    expect(resolveDetection(detection({ label: "  " }), items)).toBe(undefined);
+  });
+
+  it("doesn't trust low-confidence detections", () => {
+    expect(resolveDetection(detection({ itemId: "A", confidence: MIN_CONFIDENCE - 0.01 }), items)).toBe(undefined);
+  });
+});
+
+describe("fixtureCompliance", () => {
+  it("has no score until a shelf is scanned", () => {
+    const current = planogram(1, [[{ itemId: "A", facings: 2 }]]);
+    const [result] = fixtureCompliance(current, [current], [], items);
+    expect(result.score).toBe(null);
+    expect(result.shelves[0]).toMatchObject({ planned: 2, matched: 0 });
+  });
+
+  it("scores found facings against planned ones", () => {
+    const current = planogram(1, [[{ itemId: "A", facings: 4 }]]);
+    const [result] = fixtureCompliance(current, [current], [scan(0, [detection({ itemId: "A", count: 3 })])], items);
+    expect(result.score).toBe(75);
+    expect(result.issues).toEqual([
+      {
+        kind: 'missing',
+        shelfIndex: 0,
+        itemId: "A",
+        itemName: "Salted Crisps",
+        expected: 4,
+        found: 3,
+        note: "10 on hand",
+      },
+    ]);
+  });
+
+  it("reports a gap as out of stock when there are none on hand", () => {
+    const current = planogram(1, [[{ itemId: "C", facings: 2 }]]);
+    const [result] = fixtureCompliance(current, [current], [scan(0, [])], items);
+    expect(result.issues).toEqual([
+      { kind: 'out_of_stock', shelfIndex: 0, itemId: "C", itemName: "Pretzels", expected: 2, found: 0 },
+    ]);
+  });
+
+  it("points misplaced items to the shelf they belong on", () => {
+    const current = planogram(1, [[{ itemId: "A", facings: 1 }], [{ itemId: "B", facings: 1 }]]);
+    const scans = [scan(1, [detection({ itemId: "B" }), detection({ itemId: "A", count: 2 })])];
+    const [result] = fixtureCompliance(current, [current], scans, items);
+    expect(result.issues).toEqual([
+      {
+        kind: 'misplaced',
+        shelfIndex: 1,
+        itemId: "A",
+        itemName: "Salted Crisps",
+        expected: 0,
+        found: 2,
+        note: "Belongs on shelf 1",
+      },
+    ]);
+  });
+
+  it("notes items that aren't on the fixture at all", () => {
+    const current = planogram(1, [[{ itemId: "A", facings: 1 }]]);
+    const scans = [scan(0, [detection({ itemId: "A" }), detection({ itemId: "B" })])];
+    const [result] = fixtureCompliance(current, [current], scans, items);
+    expect(result.issues.map(issue => issue.note)).toEqual(["Not on this fixture"]);
+  });
+
+  it("counts low-confidence detections as unrecognised", () => {
+    const current = planogram(1, [[{ itemId: "A", facings: 2 }]]);
+    const scans = [scan(0, [detection({ itemId: "A" }), detection({ itemId: "A", confidence: 0.3, count: 3 })])];
+    const [result] = fixtureCompliance(current, [current], scans, items);
+    expect(result.shelves[0]).toMatchObject({ planned: 2, matched: 1, unrecognised: 3 });
+    expect(result.score).toBe(50);
+  });
+
+  it("checks a scan against the planogram version it was taken on", () => {
+    const v1 = planogram(1, [[{ itemId: "A", facings: 2 }]]);
+    const v2 = planogram(2, [[{ itemId: "B", facings: 2 }]]);
+    const scans = [scan(0, [detection({ itemId: "A", count: 2 })], { planogramVersion: 1 })];
+    const [result] = fixtureCompliance(v2, [v1, v2], scans, items);
+    expect(result.score).toBe(100);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("uses only the latest scan of each shelf", () => {
+    const current = planogram(1, [[{ itemId: "A", facings: 2 }]]);
+    const scans = [
+      scan(0, [detection({ itemId: "A", count: 2 })], { id: "SC-new", scannedAt: "2024-01-16T09:00:00.000Z" }),
+      scan(0, [], { id: "SC-old" }),
+    ];
+    const [result] = fixtureCompliance(current, [current], scans, items);
+    expect(result.shelves[0].scan.id).toBe("SC-new");
+    expect(result.lastScannedAt).toBe("2024-01-16T09:00:00.000Z");
+    expect(result.score).toBe(100);
+  });
+});
@@ -0,0 +1,193 @@
+import type { InventoryItem } from "./types";
+import type { Planogram, PlanogramFixture } from "./planogram";
+
+// A product pack found in a shelf photo, as a fraction of the photo's size
+// measured from its top-left corner.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One product the mobile app recognised on the shelf, with every pack it found.
+export interface ShelfDetection {
+  // Set when the app matched the product to a catalog item itself.
+  itemId?: string;
+  label: string;
+  brand?: string;
+  confidence: number;
+  count: number;
+  boxes: BoundingBox[];
+}
+
+// The result of photographing one shelf of a fixture, taken against a
+// particular planogram version.
+export interface ShelfScan {
+  id: string;
+  planogramId: string;
+  planogramVersion: number;
+  fixtureId: string;
+  // 0 is the top shelf, as in the planogram.
+  shelfIndex: number;
+  scannedAt: string;
+  scannedBy: string;
+  detections: ShelfDetection[];
+  hasPhoto: boolean;
+}
+
+export type ComplianceIssueKind = 'missing' | 'misplaced' | 'out_of_stock';
+
+export const complianceIssueLabels: Record<ComplianceIssueKind, string> = {
+  missing: "Missing facings",
+  misplaced: "Misplaced",
+  out_of_stock: "Out of stock",
+};
+
+export interface ComplianceIssue {
+  kind: ComplianceIssueKind;
+  shelfIndex: number;
+  itemId?: string;
+  itemName: string;
+  // Facings the planogram calls for on this shelf, and packs the scan found there.
+  expected: number;
+  found: number;
+  note?: string;
+}
+
+export interface ShelfCompliance {
+  shelfIndex: number;
+  // The latest scan of the shelf, if it has been scanned.
+  scan?: ShelfScan;
+  planned: number;
+  matched: number;
+  // Packs the app couldn't put a catalog item to.
+  unrecognised: number;
+}
+
+export interface FixtureCompliance {
+  fixture: PlanogramFixture;
+  shelves: ShelfCompliance[];
+  issues: ComplianceIssue[];
+  // Percentage of planned facings found in place on the scanned shelves, or
+  // null before any shelf has been scanned.
+  score: number | null;
+  lastScannedAt?: string;
+}
+
+// Detections below this are shown as unrecognised rather than trusted.
+export const MIN_CONFIDENCE = 0.6;
+
+// Prefers the app's own match, then an exact name match, then a name containing the label.
+export function resolveDetection(detection: ShelfDetection, items: InventoryItem[]) {
+  if (detection.confidence < MIN_CONFIDENCE) return undefined;
+  if (detection.itemId) {
+    const item = items.find(i => i.id === detection.itemId);
+    if (item) return item;
+  }
+  const label = detection.label.trim().toLowerCase();
+  if (!label) return undefined;
+  return (
+    items.find(item => item.name.toLowerCase() === label) ??
+    items.find(item => item.name.toLowerCase().includes(label))
+  );
+}
+
+// The most recent scan of each shelf, keyed by `<fixtureId>/<shelfIndex>`.
+export function latestScans(scans: ShelfScan[], planogramId: string) {
+  const latest = new Map<string, ShelfScan>();
+  scans
+    .filter(scan => scan.planogramId === planogramId)
+    .forEach(scan => {
+      const key = `${scan.fixtureId}/${scan.shelfIndex}`;
+      if (!latest.has(key) || latest.get(key).scannedAt < scan.scannedAt) latest.set(key, scan);
+    });
+  return latest;
+}
+
+const plannedFacings = (fixture: PlanogramFixture | undefined, shelfIndex: number) => {
+  const facings = new Map<string, number>();
+  fixture?.shelves[shelfIndex]?.positions.forEach(({ itemId, facings: count }) =>
+    facings.set(itemId, (facings.get(itemId) ?? 0) + count)
+  );
+  return facings;
+};
+
+// Compares each shelf's latest scan with the planogram version it was taken
+// against, so a reset that hasn't been set yet isn't reported as a failure of
+// the old one.
+export function fixtureCompliance(
+  current: Planogram,
+  versions: Planogram[],
+  scans: ShelfScan[],
+  items: InventoryItem[]
+): FixtureCompliance[] {
+  const latest = latestScans(scans, current.id);
+  const byId = new Map(items.map(item => [item.id, item]));
+  const fixtureIn = (version: number, fixtureId: string) =>
+    (versions.find(v => v.id === current.id && v.version === version) ?? current).fixtures.find(f => f.id === fixtureId);
+
+  return current.fixtures.map(fixture => {
+    const issues: ComplianceIssue[] = [];
+    const shelves = fixture.shelves.map((_, shelfIndex): ShelfCompliance => {
+      const scan = latest.get(`${fixture.id}/${shelfIndex}`);
+      const plannedFixture = scan ? fixtureIn(scan.planogramVersion, fixture.id) ?? fixture : fixture;
+      const planned = plannedFacings(plannedFixture, shelfIndex);
+      const plannedTotal = Array.from(planned.values()).reduce((sum, n) => sum + n, 0);
+      if (!scan) return { shelfIndex, planned: plannedTotal, matched: 0, unrecognised: 0 };
+
+      const found = new Map<string, number>();
+      let unrecognised = 0;
+      scan.detections.forEach(detection => {
+        const item = resolveDetection(detection, items);
+        if (item) found.set(item.id, (found.get(item.id) ?? 0) + detection.count);
+        else unrecognised += detection.count;
+      });
+
+      let matched = 0;
+      planned.forEach((expected, itemId) => {
+        const count = found.get(itemId) ?? 0;
+        matched += Math.min(count, expected);
+        if (count >= expected) return;
+        const item = byId.get(itemId);
+        issues.push({
+          kind: item && item.count === 0 ? 'out_of_stock' : 'missing',
+          shelfIndex,
+          itemId,
+          itemName: item?.name ?? itemId,
+          expected,
+          found: count,
+          note: item && item.count > 0 ? `${item.count} on hand` : undefined,
+        });
+      });
+
+      found.forEach((count, itemId) => {
+        if (planned.has(itemId)) return;
+        const plannedShelf = plannedFixture.shelves.findIndex(shelf => shelf.positions.some(p => p.itemId === itemId));
+        issues.push({
+          kind: 'misplaced',
+          shelfIndex,
+          itemId,
+          itemName: byId.get(itemId)?.name ?? itemId,
+          expected: 0,
+          found: count,
+          note: plannedShelf === -1 ? "Not on this fixture" : `Belongs on shelf ${plannedShelf + 1}`,
+        });
+      });
+
+      return { shelfIndex, scan, planned: plannedTotal, matched, unrecognised };
+    });
+
+    const scanned = shelves.filter(shelf => shelf.scan);
+    const planned = scanned.reduce((sum, shelf) => sum + shelf.planned, 0);
+    const matched = scanned.reduce((sum, shelf) => sum + shelf.matched, 0);
+    const lastScannedAt = scanned.map(shelf => shelf.scan.scannedAt).sort().pop();
+    return {
+      fixture,
+      shelves,
+      issues,
+      score: scanned.length === 0 ? null : planned === 0 ? 100 : Math.round((matched / planned) * 100),
+      lastScannedAt,
+    };
+  });
+}
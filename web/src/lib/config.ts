@@ -0,0 +1,26 @@
+export interface SyncGatewayConfig {
+  url: string;
+  database: string;
+  scope: string;
+}
+
+// Mirrors the endpoint the iOS AppServicesSyncManager replicates with. The web
+// client talks to the public REST port over https instead of the wss:// replicator.
+export const syncGatewayConfig: SyncGatewayConfig | null = import.meta.env.VITE_SYNC_GATEWAY_URL
+  ? {
+      url: import.meta.env.VITE_SYNC_GATEWAY_URL.replace(/\/+$/, ""),
+      database: import.meta.env.VITE_SYNC_GATEWAY_DATABASE ?? "LiquorInventoryDB",
+      scope: import.meta.env.VITE_SYNC_GATEWAY_SCOPE ?? "_default",
+    }
+  : null;
+
+export const collections = {
+  inventory: "liquor_items",
+  orders: "orders",
+  stores: "stores",
+  movements: "movements",
+  planograms: "planograms",
+  shelfScans: "shelf_scans",
+  promotions: "promotions",
+  vendors: "vendors",
+} as const;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  actorTotals,
+  addToTotals,
+  adjust,
+  counterValue,
+  createCounter,
+  decrement,
+  increment,
+  LEGACY_ACTOR,
+  merge,
+  raiseTotals,
+  toCounter,
+} from "./crdt";
+
+describe("PN-counter", () => {
+  it("converts a legacy scalar quantity to a counter owned by the legacy actor", () => {
+    const counter = toCounter(12);
+    expect(counter.p).toEqual({ [LEGACY_ACTOR]: 12 });
+    expect(counter.value).toBe(12);
+    expect(toCounter(undefined).value).toBe(0);
+  });
+
+  it("recomputes the value of a stored counter instead of trusting it", () => {
+    expect(toCounter({ type: "pn-counter", p: { a: 5 }, n: { b: 2 }, value: 99 }).value).toBe(3);
+  });
+
+  it("never goes below zero", () => {
+    expect(decrement(createCounter(2), "a", 5).value).toBe(0);
+  });
+
+  it("applies signed deltas as increments or decrements", () => {
+    const counter = adjust(adjust(createCounter(10), "a", 4), "b", -6);
+    expect(counter.p).toEqual({ [LEGACY_ACTOR]: 10, a: 4 });
+    expect(counter.n).toEqual({ b: 6 });
+    expect(counterValue(counter)).toBe(8);
+    expect(adjust(counter, "a", 0)).toBe(counter);
+  });
+
+  it("merges concurrent edits from different devices without losing either", () => {
+    const base = createCounter(10);
+    const phone = increment(base, "phone", 3);
+    const tablet = decrement(base, "tablet", 4);
+    expect(merge(phone, tablet).value).toBe(9);
+    expect(merge(tablet, phone)).toEqual(merge(phone, tablet));
+  });
+
+  it("is idempotent when the same state is merged twice", () => {
+    const a = increment(createCounter(5), "a", 2);
+    const b = decrement(a, "b", 1);
+    expect(merge(merge(a, b), b)).toEqual(merge(a, b));
+  });
+});
+
+describe("actor totals", () => {
+  it("adds positive deltas to p and negative deltas to n", () => {
+    expect(addToTotals({ p: 3, n: 1 }, 4)).toEqual({ p: 7, n: 1 });
+    expect(addToTotals({ p: 3, n: 1 }, -2)).toEqual({ p: 3, n: 3 });
+  });
+
+  it("raises an actor's totals once however often it is replayed", () => {
+    const counter = increment(createCounter(10), "phone", 2);
+    const totals = addToTotals(actorTotals(counter, "phone"), 5);
+    const once = raiseTotals(counter, "phone", totals);
+    expect(once.value).toBe(17);
+    expect(raiseTotals(once, "phone", totals)).toEqual(once);
+  });
+
+  it("leaves higher totals from a later edit in place", () => {
+    const counter = increment(createCounter(), "phone", 8);
+    expect(raiseTotals(counter, "phone", { p: 5, n: 0 }).value).toBe(8);
+  });
+});
@@ -0,0 +1,95 @@
+// TypeScript port of the mobile apps' MutableCRDTCounter / LiquorCRDTConflictResolver.
+// A PN-counter keeps a grow-only tally of increments (`p`) and decrements (`n`)
+// per actor, so concurrent edits from different devices merge by taking the
+// per-actor maximum instead of overwriting each other.
+
+export interface PNCounter {
+  type: "pn-counter";
+  p: Record<string, number>;
+  n: Record<string, number>;
+  value: number;
+}
+
+// Actor used when converting a legacy scalar quantity. Every device that
+// upgrades the same document produces the same entry, so the upgrades merge.
+export const LEGACY_ACTOR = "legacy";
+
+const sum = (tally: Record<string, number> = {}) =>
+  Object.values(tally).reduce((total, value) => total + (typeof value === "number" ? value : 0), 0);
+
+const computeValue = (p: Record<string, number>, n: Record<string, number>) => Math.max(0, sum(p) - sum(n));
+
+export const isPNCounter = (value: unknown): value is PNCounter =>
+  typeof value === "object" && value !== null && (value as PNCounter).type === "pn-counter";
+
+export function createCounter(initial = 0, actor = LEGACY_ACTOR): PNCounter {
+  const p = initial > 0 ? { [actor]: initial } : {};
+  return { type: "pn-counter", p, n: {}, value: computeValue(p, {}) };
+}
+
+// Reads a document's quantity field whether it is already a counter or an older scalar.
+export function toCounter(quantity: unknown): PNCounter {
+  if (isPNCounter(quantity)) {
+    const p = quantity.p ?? {};
+    const n = quantity.n ?? {};
+    return { type: "pn-counter", p, n, value: computeValue(p, n) };
+  }
+  return createCounter(typeof quantity === "number" ? quantity : 0);
+}
+
+export const counterValue = (counter: PNCounter) => computeValue(counter.p, counter.n);
+
+export function increment(counter: PNCounter, actor: string, amount: number): PNCounter {
+  const p = { ...counter.p, [actor]: (counter.p[actor] ?? 0) + amount };
+  return { ...counter, p, value: computeValue(p, counter.n) };
+}
+
+export function decrement(counter: PNCounter, actor: string, amount: number): PNCounter {
+  const n = { ...counter.n, [actor]: (counter.n[actor] ?? 0) + amount };
+  return { ...counter, n, value: computeValue(counter.p, n) };
+}
+
+// Applies a signed delta as an increment or decrement for the actor.
+export function adjust(counter: PNCounter, actor: string, delta: number): PNCounter {
+  if (delta > 0) return increment(counter, actor, delta);
+  if (delta < 0) return decrement(counter, actor, -delta);
+  return counter;
+}
+
+// One actor's running totals: everything it has ever added and removed.
+export interface ActorTotals {
+  p: number;
+  n: number;
+}
+
+export const actorTotals = (counter: PNCounter, actor: string): ActorTotals => ({
+  p: counter.p[actor] ?? 0,
+  n: counter.n[actor] ?? 0,
+});
+
+export const addToTotals = ({ p, n }: ActorTotals, delta: number): ActorTotals =>
+  delta >= 0 ? { p: p + delta, n } : { p, n: n - delta };
+
+const mergeTally = (a: Record<string, number> = {}, b: Record<string, number> = {}) => {
+  const merged: Record<string, number> = {};
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(actor => {
+    merged[actor] = Math.max(a[actor] ?? 0, b[actor] ?? 0);
+  });
+  return merged;
+};
+
+export function merge(a: PNCounter, b: PNCounter): PNCounter {
+  const p = mergeTally(a.p, b.p);
+  const n = mergeTally(a.n, b.n);
+  return { type: "pn-counter", p, n, value: computeValue(p, n) };
+}
+
+// Raises the actor's totals to at least `totals`. Unlike `adjust`, applying it
+// twice changes nothing, so it is safe to replay after a lost response.
+export const raiseTotals = (counter: PNCounter, actor: string, totals: ActorTotals) =>
+  merge(counter, {
+    type: "pn-counter",
+    p: { [actor]: totals.p },
+    n: { [actor]: totals.n },
+    value: computeValue({ [actor]: totals.p }, { [actor]: totals.n }),
+  });
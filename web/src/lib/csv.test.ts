@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(parseCsv('id,name\r\nA1,"Apples, ""Gala""\nper lb"\r\n')).toEqual([
+      ["id", "name"],
+      ["A1", 'Apples, "Gala"\nper lb'],
+    ]);
+  });
+
+  it("accepts LF line endings, a missing final newline and Excel's byte-order mark", () => {
+    expect(parseCsv("\ufeffid,count\nA1,3\nB2,")).toEqual([
+      ["id", "count"],
+      ["A1", "3"],
+      ["B2", ""],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("round-trips through parseCsv", () => {
+    const rows = [
+      ["id", "name", "price", "aisle"],
+      ["A1", 'Apples, "Gala"', 1.99, null],
+      ["B2", "Two\nlines", 0, undefined],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual([
+      ["id", "name", "price", "aisle"],
+      ["A1", 'Apples, "Gala"', "1.99", ""],
+      ["B2", "Two\nlines", "0", ""],
+    ]);
+  });
+
+  it("stops text from being run as a formula", () => {
+    expect(parseCsv(toCsv([["=SUM(A1:A9)", "-5 off", "+1"]]))).toEqual([["'=SUM(A1:A9)", "'-5 off", "'+1"]]);
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(toCsv([[-5]])).toBe("-5\r\n");
+  });
+});
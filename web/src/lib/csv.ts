@@ -0,0 +1,58 @@
+// RFC 4180 CSV: comma separated, fields optionally quoted, quotes doubled
+// inside quoted fields, CRLF or LF line endings.
+
+export type Cell = string | number | null | undefined;
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Excel writes a byte-order mark at the start of UTF-8 CSVs.
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Spreadsheet apps run text starting with these as a formula; prefixing a quote
+// keeps an exported item name from executing when the file is opened.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCell = (cell: Cell) => {
+  if (cell === null || cell === undefined) return "";
+  if (typeof cell === "number") return String(cell);
+  const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]) => rows.map(row => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "./types";
+import {
+  adjustmentsFor,
+  applyAdjustments,
+  canPost,
+  CycleCountError,
+  CycleCountLine,
+  CycleCountSession,
+  createSession,
+  finalCount,
+  lineStatus,
+  recordCount,
+} from "./cycleCount";
+
+const line = (changes: Partial<CycleCountLine> = {}): CycleCountLine => ({
+  itemId: "A",
+  itemName: "Apples",
+  price: 2,
+  ...changes,
+});
+
+const session = (lines: CycleCountLine[], tolerance = 0.05): CycleCountSession => ({
+  id: "CC-TEST",
+  scope: { type: 'aisle', value: "A1" },
+  tolerance,
+  status: 'in_progress',
+  createdAt: "2024-01-15T09:00:00.000Z",
+  createdBy: "lead",
+  lines,
+});
+
+describe("createSession", () => {
+  const item = (id: string, name: string, aisle: string): InventoryItem => ({
+    id,
+    name,
+    category: "Produce",
+    image: "",
+    barcode: "",
+    price: 1,
+    count: 5,
+    reorderPoint: 2,
+    parLevel: 10,
+    packSize: 1,
+    aisle,
+  });
+
+  it("walks the items in scope in aisle then name order", () => {
+    const created = createSession(
+      [item("C", "Cherries", "A2"), item("B", "Bananas", "A1"), item("A", "Apples", "A1"), item("X", "Other", "B1")],
+      { type: 'aisle', value: "A1" },
+      { by: "lead" }
+    );
+    expect(created.lines.map(l => l.itemId)).toEqual(["A", "B"]);
+  });
+
+  it("refuses a scope with nothing in it", () => {
+    expect(() => createSession([], { type: 'category', value: "Dairy" }, { by: "lead" })).toThrow(CycleCountError);
+  });
+});
+
+describe("lineStatus", () => {
+  it("is pending until counted", () => {
+    expect(lineStatus(line(), 0.05)).toBe('pending');
+  });
+
+  it("flags variances beyond the tolerance", () => {
+    expect(lineStatus(line({ expected: 100, counted: 95 }), 0.05)).toBe('matched');
+    expect(lineStatus(line({ expected: 100, counted: 94 }), 0.05)).toBe('variance');
+  });
+
+  it("allows a unit either way at small counts", () => {
+    expect(lineStatus(line({ expected: 10, counted: 11 }), 0.05)).toBe('matched');
+    expect(lineStatus(line({ expected: 10, counted: 8 }), 0.05)).toBe('variance');
+    expect(lineStatus(line({ expected: 0, counted: 1 }), 0.05)).toBe('matched');
+  });
+
+  it("asks for a recount when the first count is far off", () => {
+    // Four times the 5-unit tolerance is 20.
+    expect(lineStatus(line({ expected: 100, counted: 80 }), 0.05)).toBe('variance');
+    expect(lineStatus(line({ expected: 100, counted: 79 }), 0.05)).toBe('needs_recount');
+  });
+
+  it("needs at least five units off before asking for a recount", () => {
+    expect(lineStatus(line({ expected: 10, counted: 6 }), 0.05)).toBe('variance');
+    expect(lineStatus(line({ expected: 10, counted: 5 }), 0.05)).toBe('needs_recount');
+  });
+
+  it("judges a recounted line on the recount", () => {
+    expect(lineStatus(line({ expected: 100, counted: 70, recount: 99 }), 0.05)).toBe('matched');
+    expect(lineStatus(line({ expected: 100, counted: 70, recount: 70 }), 0.05)).toBe('variance');
+  });
+});
+
+describe("recordCount", () => {
+  it("takes the entry after a far-off count as the recount", () => {
+    const first = recordCount(session([line()]), "A", 70, 100);
+    expect(lineStatus(first.lines[0], first.tolerance)).toBe('needs_recount');
+
+    const second = recordCount(first, "A", 98, 100);
+    expect(second.lines[0]).toMatchObject({ counted: 70, recount: 98 });
+    expect(finalCount(second.lines[0])).toBe(98);
+  });
+
+  it("replaces the count, and drops any recount, on an ordinary line", () => {
+    const recounted = session([line({ expected: 100, counted: 70, recount: 98 })]);
+    const corrected = recordCount(recounted, "A", 100, 101);
+    expect(corrected.lines[0]).toMatchObject({ counted: 100, expected: 101, recount: undefined });
+  });
+
+  it("rejects counts that aren't whole and non-negative", () => {
+    expect(() => recordCount(session([line()]), "A", -1, 5)).toThrow(CycleCountError);
+    expect(() => recordCount(session([line()]), "A", 1.5, 5)).toThrow(CycleCountError);
+  });
+});
+
+describe("posting", () => {
+  it("can't post while a line is uncounted or waiting for a recount", () => {
+    expect(canPost(session([line({ expected: 5, counted: 5 }), line({ itemId: "B" })]))).toBe(false);
+    expect(canPost(session([line({ expected: 100, counted: 70 })]))).toBe(false);
+    expect(canPost(session([line({ expected: 100, counted: 70, recount: 71 })]))).toBe(true);
+  });
+
+  it("posts every difference, including ones inside tolerance", () => {
+    const counted = session([
+      line({ itemId: "A", expected: 100, counted: 99 }),
+      line({ itemId: "B", expected: 10, counted: 10 }),
+      line({ itemId: "C", expected: 100, counted: 70, recount: 72 }),
+    ]);
+    expect(adjustmentsFor(counted).map(({ line, delta }) => [line.itemId, delta])).toEqual([
+      ["A", -1],
+      ["C", -28],
+    ]);
+  });
+
+  it("resumes an interrupted post without adjusting a line twice", async () => {
+    const counted = session([
+      line({ itemId: "A", expected: 10, counted: 12 }),
+      line({ itemId: "B", expected: 10, counted: 9 }),
+    ]);
+    const applied: string[] = [];
+    const saved: CycleCountSession[] = [];
+    const save = async (progress: CycleCountSession) => {
+      saved.push(progress);
+    };
+
+    await expect(
+      applyAdjustments(
+        counted,
+        async ({ itemId }) => {
+          if (itemId === "B") throw new Error("Network down");
+          applied.push(itemId);
+        },
+        save
+      )
+    ).rejects.toThrow("Network down");
+    const interrupted = saved[0];
+    expect(interrupted.lines.map(l => l.adjusted)).toEqual([true, undefined]);
+
+    const done = await applyAdjustments(
+      interrupted,
+      async ({ itemId }) => {
+        applied.push(itemId);
+      },
+      save
+    );
+    expect(applied).toEqual(["A", "B"]);
+    expect(done.lines.every(l => l.adjusted)).toBe(true);
+    expect(adjustmentsFor(done)).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import type { InventoryItem } from "./types";
+
+export type CycleCountScope = { type: 'category' | 'aisle'; value: string };
+
+export type CycleCountStatus = 'in_progress' | 'posted' | 'abandoned';
+
+export type LineStatus = 'pending' | 'matched' | 'variance' | 'needs_recount';
+
+export interface CycleCountLine {
+  itemId: string;
+  itemName: string;
+  price: number;
+  // The system count when the line was counted. Captured then rather than at
+  // session start so sales during a long walk-through don't show up as variance.
+  expected?: number;
+  counted?: number;
+  // Second count, required when the first was too far off.
+  recount?: number;
+  // Set once the line's adjustment is in the ledger, so a retried post never applies it twice.
+  adjusted?: boolean;
+}
+
+export interface CycleCountSession {
+  id: string;
+  scope: CycleCountScope;
+  // Variance allowed without flagging, as a fraction of the expected count.
+  tolerance: number;
+  status: CycleCountStatus;
+  createdAt: string;
+  createdBy: string;
+  lines: CycleCountLine[];
+  postedAt?: string;
+  postedBy?: string;
+}
+
+export const DEFAULT_TOLERANCE = 0.05;
+// Variances this many times over tolerance (or at least this many units) need a recount.
+const RECOUNT_FACTOR = 4;
+const RECOUNT_MIN_UNITS = 5;
+
+export const cycleCountStatusLabels: Record<CycleCountStatus, string> = {
+  in_progress: "In Progress",
+  posted: "Posted",
+  abandoned: "Abandoned",
+};
+
+export const scopeLabel = ({ type, value }: CycleCountScope) => `${type === 'aisle' ? "Aisle" : "Category"} ${value}`;
+
+export const scopeOptions = (items: InventoryItem[], type: CycleCountScope['type']) =>
+  Array.from(new Set(items.map(item => (type === 'aisle' ? item.aisle : item.category)).filter(Boolean))).sort();
+
+const inScope = (item: InventoryItem, { type, value }: CycleCountScope) =>
+  (type === 'aisle' ? item.aisle : item.category) === value;
+
+export class CycleCountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CycleCountError";
+  }
+}
+
+// Items are walked in aisle then name order, the way a clerk moves along the shelf.
+export function createSession(
+  items: InventoryItem[],
+  scope: CycleCountScope,
+  { by, tolerance = DEFAULT_TOLERANCE }: { by: string; tolerance?: number }
+): CycleCountSession {
+  const lines = items
+    .filter(item => inScope(item, scope))
+    .sort((a, b) => (a.aisle ?? "").localeCompare(b.aisle ?? "") || a.name.localeCompare(b.name))
+    .map(item => ({ itemId: item.id, itemName: item.name, price: item.price }));
+  if (lines.length === 0) throw new CycleCountError(`No items in ${scopeLabel(scope).toLowerCase()}`);
+
+  return {
+    id: `CC-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+    scope,
+    tolerance,
+    status: 'in_progress',
+    createdAt: new Date().toISOString(),
+    createdBy: by,
+    lines,
+  };
+}
+
+// The count that will be posted: the recount when there is one.
+export const finalCount = (line: CycleCountLine) => line.recount ?? line.counted;
+
+export const variance = (line: CycleCountLine) =>
+  finalCount(line) === undefined || line.expected === undefined ? 0 : finalCount(line) - line.expected;
+
+const allowedVariance = (expected: number, tolerance: number) => Math.max(1, expected * tolerance);
+
+const exceedsRecountThreshold = (line: CycleCountLine, tolerance: number) => {
+  const off = Math.abs(line.counted - line.expected);
+  return off >= RECOUNT_MIN_UNITS && off > allowedVariance(line.expected, tolerance) * RECOUNT_FACTOR;
+};
+
+export function lineStatus(line: CycleCountLine, tolerance: number): LineStatus {
+  if (line.counted === undefined || line.expected === undefined) return 'pending';
+  if (line.recount === undefined && exceedsRecountThreshold(line, tolerance)) return 'needs_recount';
+  const off = Math.abs(variance(line));
+  if (off === 0) return 'matched';
+  return off > allowedVariance(line.expected, tolerance) ? 'variance' : 'matched';
+}
+
+export const lineStatusLabels: Record<LineStatus, string> = {
+  pending: "Not counted",
+  matched: "Within tolerance",
+  variance: "Variance",
+  needs_recount: "Recount required",
+};
+
+// Records a count for one line. A second entry on a line that needs a recount is
+// taken as the recount; otherwise it replaces the first count.
+export function recordCount(session: CycleCountSession, itemId: string, quantity: number, expected: number) {
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    throw new CycleCountError("Counted quantity must be a whole number of zero or more");
+  }
+  return {
+    ...session,
+    lines: session.lines.map(line => {
+      if (line.itemId !== itemId) return line;
+      if (lineStatus(line, session.tolerance) === 'needs_recount') return { ...line, recount: quantity };
+      return { ...line, counted: quantity, expected, recount: undefined };
+    }),
+  };
+}
+
+export const canPost = (session: CycleCountSession) =>
+  session.status === 'in_progress' &&
+  session.lines.every(line => {
+    const status = lineStatus(line, session.tolerance);
+    return status !== 'pending' && status !== 'needs_recount';
+  });
+
+// Every non-zero difference is posted, including small ones inside tolerance:
+// tolerance decides what gets flagged for review, not what gets corrected.
+export const adjustmentsFor = (session: CycleCountSession) =>
+  session.lines.filter(line => !line.adjusted && variance(line) !== 0).map(line => ({ line, delta: variance(line) }));
+
+// Applies the outstanding adjustments one line at a time, marking each line as
+// it goes. The progress is saved even when a line fails, so retrying the post
+// picks up where it stopped instead of adjusting a line twice.
+export async function applyAdjustments(
+  session: CycleCountSession,
+  apply: (line: CycleCountLine, delta: number) => Promise<unknown>,
+  save: (session: CycleCountSession) => Promise<unknown>
+) {
+  let current = session;
+  try {
+    for (const { line, delta } of adjustmentsFor(session)) {
+      await apply(line, delta);
+      current = {
+        ...current,
+        lines: current.lines.map(l => (l.itemId === line.itemId ? { ...l, adjusted: true } : l)),
+      };
+    }
+  } finally {
+    await save(current);
+  }
+  return current;
+}
+
+export interface CycleCountSummary {
+  lines: number;
+  counted: number;
+  matched: number;
+  flagged: number;
+  recounted: number;
+  unitsOver: number;
+  unitsShort: number;
+  // Net change in stock value at shelf price.
+  valueImpact: number;
+}
+
+export function summarize(session: CycleCountSession): CycleCountSummary {
+  const statuses = session.lines.map(line => lineStatus(line, session.tolerance));
+  const deltas = session.lines.map(variance);
+  return {
+    lines: session.lines.length,
+    counted: statuses.filter(status => status !== 'pending').length,
+    matched: statuses.filter(status => status === 'matched').length,
+    flagged: statuses.filter(status => status === 'variance' || status === 'needs_recount').length,
+    recounted: session.lines.filter(line => line.recount !== undefined).length,
+    unitsOver: deltas.filter(delta => delta > 0).reduce((sum, delta) => sum + delta, 0),
+    unitsShort: -deltas.filter(delta => delta < 0).reduce((sum, delta) => sum + delta, 0),
+    valueImpact: session.lines.reduce((sum, line, index) => sum + deltas[index] * line.price, 0),
+  };
+}
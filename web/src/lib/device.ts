@@ -0,0 +1,12 @@
+const DEVICE_ID_KEY = "inventory-pro.device.uuid";
+
+// Stable per-browser identifier, the web equivalent of the mobile apps'
+// `Database.deviceUUID`. Used as the actor for CRDT counter updates.
+export function getDeviceId() {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = `web-${crypto.randomUUID()}`;
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
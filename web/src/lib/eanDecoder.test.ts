@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { decodeEan, ImageLike, L_PATTERNS } from "./eanDecoder";
+import { encodeEan } from "./eanEncoder";
+
+const QUIET_ZONE = 10;
+
+// Draws bars as an RGBA image, `scale` pixels per module, with quiet zones on
+// both sides. `light` gives the background brightness at each x.
+function render(
+  modules: boolean[],
+  { scale = 3, height = 20, light = (x: number): number => 255 } = {}
+): ImageLike {
+  const padded = [...Array(QUIET_ZONE).fill(false), ...modules, ...Array(QUIET_ZONE).fill(false)];
+  const width = padded.length * scale;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = padded[Math.floor(x / scale)] ? 20 : light(x);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+const modulesFor = (code: string) => encodeEan(code).modules;
+
+describe("decodeEan", () => {
+  it("reads an EAN-13", () => {
+    expect(decodeEan(render(modulesFor("4006381333931")))).toEqual({ format: 'EAN-13', text: "4006381333931" });
+  });
+
+  it("reads a UPC-A as 12 digits", () => {
+    expect(decodeEan(render(modulesFor("036000291452")))).toEqual({ format: 'UPC-A', text: "036000291452" });
+  });
+
+  it("reads a code scanned upside down", () => {
+    const reversed = [...modulesFor("4006381333931")].reverse();
+    expect(decodeEan(render(reversed))).toEqual({ format: 'EAN-13', text: "4006381333931" });
+  });
+
+  it("reads bars that are more than one pixel per module and unevenly lit", () => {
+    const image = render(modulesFor("9780201379624"), { scale: 4, light: x => 120 + (x % 400) / 4 });
+    expect(decodeEan(image)?.text).toBe("9780201379624");
+  });
+
+  it("rejects bars whose check digit doesn't match", () => {
+    // Redraw the last digit (the check digit, just before the end guard) as a 9.
+    const modules = [...modulesFor("4006381333931")];
+    const nine = L_PATTERNS[9].flatMap((width, index) => Array<boolean>(width).fill(index % 2 === 0));
+    modules.splice(modules.length - 3 - 7, 7, ...nine);
+    expect(decodeEan(render(modules))).toBe(null);
+  });
+
+  it("finds nothing in a blank image", () => {
+    expect(decodeEan(render([]))).toBe(null);
+  });
+});
+
+describe("encodeEan", () => {
+  it("draws 95 modules for codes that fit on a shelf label", () => {
+    expect(encodeEan("00036000291452")).toMatchObject({ format: 'UPC-A', text: "036000291452" });
+    expect(encodeEan("4006381333931").modules).toHaveLength(95);
+  });
+
+  it("refuses invalid codes and GTIN-14s with a packaging indicator", () => {
+    expect(encodeEan("4006381333932")).toBe(null);
+    expect(encodeEan("10012345678902")).toBe(null);
+  });
+});
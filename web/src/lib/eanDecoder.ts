@@ -0,0 +1,206 @@
+// Pure TypeScript EAN-13 / UPC-A decoder. It works on anything shaped like
+// ImageData, so it runs the same on camera frames and on still images, and has
+// no DOM or native BarcodeDetector dependency.
+
+import { hasValidCheckDigit } from "./gtin";
+
+export interface ImageLike {
+  width: number;
+  height: number;
+  // RGBA, four bytes per pixel, row-major.
+  data: Uint8ClampedArray | number[];
+}
+
+export type BarcodeFormat = 'EAN-13' | 'UPC-A';
+
+export interface DecodedBarcode {
+  format: BarcodeFormat;
+  // Digits including the check digit: 13 for EAN-13, 12 for UPC-A.
+  text: string;
+}
+
+// Module widths (space, bar, space, bar) of the left-hand odd-parity digits.
+// Right-hand digits use the same widths starting with a bar, and even-parity
+// digits are the same widths reversed.
+export const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+export const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// Parity of the six left-hand digits (G = even) encodes the leading digit.
+export const FIRST_DIGIT_PARITY = [
+  "LLLLLL",
+  "LLGLGG",
+  "LLGGLG",
+  "LLGGGL",
+  "LGLLGG",
+  "LGGLLG",
+  "LGGGLL",
+  "LGLGLG",
+  "LGLGGL",
+  "LGGLGL",
+];
+
+// Start guard + 6 digits + middle guard + 6 digits + end guard, in runs.
+const EAN13_RUNS = 3 + 6 * 4 + 5 + 6 * 4 + 3;
+// Worst summed module error still accepted for a digit.
+const MAX_DIGIT_ERROR = 1.5;
+const SCAN_ROWS = [0.5, 0.45, 0.55, 0.4, 0.6, 0.35, 0.65, 0.3, 0.7, 0.25, 0.75];
+
+function luminanceRow(image: ImageLike, y: number) {
+  const row = new Float32Array(image.width);
+  const offset = y * image.width * 4;
+  for (let x = 0; x < image.width; x++) {
+    const i = offset + x * 4;
+    row[x] = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+  }
+  return row;
+}
+
+// Dark/light per pixel against a moving average, which copes with the uneven
+// lighting of a phone camera better than one threshold for the whole row.
+function binarizeAdaptive(row: Float32Array) {
+  const window = Math.max(8, Math.floor(row.length / 10));
+  const prefix = new Float64Array(row.length + 1);
+  row.forEach((value, i) => (prefix[i + 1] = prefix[i] + value));
+  return Array.from(row, (value, x) => {
+    const from = Math.max(0, x - window);
+    const to = Math.min(row.length, x + window + 1);
+    return value < (prefix[to] - prefix[from]) / (to - from);
+  });
+}
+
+function binarizeGlobal(row: Float32Array) {
+  let min = 255;
+  let max = 0;
+  row.forEach(value => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  const threshold = (min + max) / 2;
+  return Array.from(row, value => value < threshold);
+}
+
+interface Runs {
+  widths: number[];
+  // Whether the first run is dark; runs alternate from there.
+  firstDark: boolean;
+}
+
+function toRuns(bits: boolean[]): Runs {
+  const widths: number[] = [];
+  let current = bits[0];
+  let width = 0;
+  bits.forEach(bit => {
+    if (bit === current) {
+      width++;
+    } else {
+      widths.push(width);
+      current = bit;
+      width = 1;
+    }
+  });
+  widths.push(width);
+  return { widths, firstDark: bits[0] };
+}
+
+function matchDigit(widths: number[], patterns: number[][]) {
+  const total = widths.reduce((sum, w) => sum + w, 0);
+  const normalized = widths.map(w => (w * 7) / total);
+  let best = -1;
+  let bestError = Infinity;
+  patterns.forEach((pattern, digit) => {
+    const error = pattern.reduce((sum, p, i) => sum + Math.abs(p - normalized[i]), 0);
+    if (error < bestError) {
+      best = digit;
+      bestError = error;
+    }
+  });
+  return bestError <= MAX_DIGIT_ERROR ? { digit: best, error: bestError } : null;
+}
+
+const isGuard = (widths: number[], unit: number) => widths.every(w => w > unit * 0.4 && w < unit * 2);
+
+function decodeAt(widths: number[], start: number): string | null {
+  const run = (i: number) => widths[start + i];
+  const unit = (run(0) + run(1) + run(2)) / 3;
+  if (!isGuard([run(0), run(1), run(2)], unit)) return null;
+  // A barcode needs a light quiet zone before the start guard.
+  if (start > 0 && widths[start - 1] < unit * 3) return null;
+
+  let parity = "";
+  let left = "";
+  for (let k = 0; k < 6; k++) {
+    const digitRuns = widths.slice(start + 3 + k * 4, start + 7 + k * 4);
+    const l = matchDigit(digitRuns, L_PATTERNS);
+    const g = matchDigit(digitRuns, G_PATTERNS);
+    if (!l && !g) return null;
+    const useG = !!g && (!l || g.error < l.error);
+    parity += useG ? "G" : "L";
+    left += useG ? g.digit : l.digit;
+  }
+
+  const middle = widths.slice(start + 27, start + 32);
+  if (!isGuard(middle, unit)) return null;
+
+  let right = "";
+  for (let k = 0; k < 6; k++) {
+    const r = matchDigit(widths.slice(start + 32 + k * 4, start + 36 + k * 4), L_PATTERNS);
+    if (!r) return null;
+    right += r.digit;
+  }
+
+  if (!isGuard(widths.slice(start + 56, start + 59), unit)) return null;
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first === -1) return null;
+
+  const digits = `${first}${left}${right}`;
+  return hasValidCheckDigit(digits) ? digits : null;
+}
+
+function decodeRuns({ widths, firstDark }: Runs): string | null {
+  // Candidate start guards begin on a dark run.
+  for (let start = firstDark ? 0 : 1; start + EAN13_RUNS <= widths.length; start += 2) {
+    const digits = decodeAt(widths, start);
+    if (digits) return digits;
+  }
+  return null;
+}
+
+function decodeRow(row: Float32Array): string | null {
+  for (const binarize of [binarizeAdaptive, binarizeGlobal]) {
+    const bits = binarize(row);
+    const digits = decodeRuns(toRuns(bits)) ?? decodeRuns(toRuns([...bits].reverse()));
+    if (digits) return digits;
+  }
+  return null;
+}
+
+const toResult = (digits: string): DecodedBarcode =>
+  digits.startsWith("0") ? { format: 'UPC-A', text: digits.slice(1) } : { format: 'EAN-13', text: digits };
+
+// Scans a spread of rows around the middle of the image and returns the code
+// most rows agree on. Stops early once `agreement` rows have read the same code.
+export function decodeEan(image: ImageLike, { agreement = 2 } = {}): DecodedBarcode | null {
+  const votes = new Map<string, number>();
+  for (const fraction of SCAN_ROWS) {
+    const digits = decodeRow(luminanceRow(image, Math.floor(image.height * fraction)));
+    if (!digits) continue;
+    const count = (votes.get(digits) ?? 0) + 1;
+    if (count >= agreement) return toResult(digits);
+    votes.set(digits, count);
+  }
+
+  const [best] = [...votes.entries()].sort((a, b) => b[1] - a[1]);
+  return best ? toResult(best[0]) : null;
+}
@@ -0,0 +1,43 @@
+// Renders stored barcodes as EAN-13 / UPC-A bars for printed shelf labels,
+// using the same digit tables the decoder reads them with.
+
+import { BarcodeFormat, FIRST_DIGIT_PARITY, G_PATTERNS, L_PATTERNS } from "./eanDecoder";
+import { isValidGtin, normalizeGtin } from "./gtin";
+
+export interface EncodedBarcode {
+  format: BarcodeFormat;
+  // Digits printed under the bars: 13 for EAN-13, 12 for UPC-A.
+  text: string;
+  // One entry per module, left to right, true for a bar. Quiet zones aren't included.
+  modules: boolean[];
+}
+
+const runs = (widths: number[], startWithBar: boolean) =>
+  widths.flatMap((width, index) => Array<boolean>(width).fill((index % 2 === 0) === startWithBar));
+
+const GUARD = [true, false, true];
+const MIDDLE_GUARD = [false, true, false, true, false];
+
+// Null for codes that can't be drawn as EAN-13: invalid ones, and GTIN-14s with
+// a packaging indicator, which need ITF-14 and never appear on a shelf edge.
+export function encodeEan(code: string): EncodedBarcode | null {
+  if (!isValidGtin(code)) return null;
+  const gtin = normalizeGtin(code);
+  if (gtin[0] !== "0") return null;
+
+  const ean13 = gtin.slice(1);
+  const digits = ean13.split("").map(Number);
+  const parity = FIRST_DIGIT_PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .flatMap((digit, index) => runs((parity[index] === "L" ? L_PATTERNS : G_PATTERNS)[digit], false));
+  const right = digits.slice(7).flatMap(digit => runs(L_PATTERNS[digit], true));
+
+  // UPC-A is an EAN-13 with a leading zero; the bars are identical.
+  const isUpc = ean13[0] === "0";
+  return {
+    format: isUpc ? 'UPC-A' : 'EAN-13',
+    text: isUpc ? ean13.slice(1) : ean13,
+    modules: [...GUARD, ...left, ...MIDDLE_GUARD, ...right, ...GUARD],
+  };
+}
@@ -0,0 +1,66 @@
+import type { Cell } from "./csv";
+import type { InventoryItem, Order } from "./types";
+import { orderStatusLabels } from "./orderLifecycle";
+import { orderUrgencyLabels } from "./reordering";
+import { toDateKey } from "./forecasting";
+import { describePromotion, effectivePrice, Promotion } from "./promotions";
+
+// Headers match the import's column names, so an exported sheet can be edited
+// and imported back. The import ignores the promotion columns; Price stays the
+// catalog price so a round trip doesn't bake a sale into it.
+export const inventoryTable = (items: InventoryItem[], promotions: Promotion[] = []): Cell[][] => [
+  [
+    "ID",
+    "Name",
+    "Category",
+    "Barcode",
+    "Price",
+    "Count",
+    "Reorder Point",
+    "Par Level",
+    "Pack Size",
+    "Aisle",
+    "Effective Price",
+    "Promotions",
+  ],
+  ...items.map(item => {
+    const pricing = effectivePrice(item, promotions);
+    return [
+      item.id,
+      item.name,
+      item.category,
+      item.barcode,
+      item.price,
+      item.count,
+      item.reorderPoint,
+      item.parLevel,
+      item.packSize,
+      item.aisle ?? "",
+      pricing.price,
+      [pricing.priceChange, pricing.discount, ...pricing.deals]
+        .filter(Boolean)
+        .map(promotion => `${promotion.name} (${describePromotion(promotion)})`)
+        .join("; "),
+    ];
+  }),
+];
+
+export const ordersTable = (orders: Order[]): Cell[][] => [
+  ["Order ID", "Item ID", "Item", "Quantity", "Received", "Status", "Urgency", "Supplier", "PO", "Date", "Notes"],
+  ...orders.map(order => [
+    order.id,
+    order.itemId,
+    order.itemName,
+    order.count,
+    order.receivedCount,
+    orderStatusLabels[order.status],
+    order.urgency ? orderUrgencyLabels[order.urgency] : "",
+    order.supplier ?? "",
+    order.purchaseOrderId ?? "",
+    order.date,
+    order.notes ?? "",
+  ]),
+];
+
+// e.g. inventory-2847-2026-10-19
+export const exportBasename = (what: string, storeId: string) => `${what}-${storeId}-${toDateKey(new Date())}`;
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import type { CountSnapshot, InventoryItem, Order } from "./types";
+import {
+  addDays,
+  dailyDemand,
+  exponentialSmoothing,
+  forecastItem,
+  movingAverage,
+  receiptsByDay,
+  unrecordedItems,
+  weekday,
+} from "./forecasting";
+
+const item = (count: number, changes: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "A",
+  name: "Apples",
+  category: "Produce",
+  image: "",
+  barcode: "",
+  price: 1,
+  count,
+  reorderPoint: 10,
+  parLevel: 30,
+  packSize: 1,
+  ...changes,
+});
+
+// Daily closing counts from `start`, one per entry in `demand`, selling that many each day.
+const history = (start: string, opening: number, demand: number[]): CountSnapshot[] => {
+  let count = opening;
+  return [
+    { itemId: "A", date: start, count },
+    ...demand.map((sold, index) => {
+      count -= sold;
+      return { itemId: "A", date: addDays(start, index + 1), count };
+    }),
+  ];
+};
+
+describe("date keys", () => {
+  it("adds days across month ends", () => {
+    expect(addDays("2024-01-30", 3)).toBe("2024-02-02");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+  });
+
+  it("reads the weekday of a date key", () => {
+    expect(weekday("2024-01-14")).toBe(0);
+    expect(weekday("2024-01-20")).toBe(6);
+  });
+});
+
+describe("dailyDemand", () => {
+  it("counts deliveries so a restock isn't read as negative demand", () => {
+    const snapshots = [
+      { itemId: "A", date: "2024-01-01", count: 10 },
+      { itemId: "A", date: "2024-01-02", count: 30 },
+    ];
+    expect(dailyDemand(snapshots, new Map([["2024-01-02", 24]]))).toEqual([{ date: "2024-01-02", demand: 4 }]);
+  });
+
+  it("spreads the drop evenly across days without a count", () => {
+    const snapshots = [
+      { itemId: "A", date: "2024-01-04", count: 4 },
+      { itemId: "A", date: "2024-01-01", count: 10 },
+    ];
+    expect(dailyDemand(snapshots, new Map())).toEqual([
+      { date: "2024-01-02", demand: 2 },
+      { date: "2024-01-03", demand: 2 },
+      { date: "2024-01-04", demand: 2 },
+    ]);
+  });
+});
+
+describe("unrecordedItems", () => {
+  it("picks the items without today's count", () => {
+    const items = [item(5), item(7, { id: "B" }), item(9, { id: "C" })];
+    const snapshots = [
+      { itemId: "A", date: "2024-01-15", count: 5 },
+      { itemId: "B", date: "2024-01-15", count: 6 },
+      { itemId: "C", date: "2024-01-14", count: 9 },
+    ];
+    const today = new Date(2024, 0, 15, 18);
+    expect(unrecordedItems(items, snapshots, today).map(entry => entry.id)).toEqual(["B", "C"]);
+  });
+});
+
+describe("receiptsByDay", () => {
+  it("adds up received quantities per local day for the item", () => {
+    const order = (itemId: string, quantities: [string, number][]): Order => ({
+      id: `ORD-${itemId}`,
+      itemName: itemId,
+      itemId,
+      count: 50,
+      receivedCount: 0,
+      status: 'partially_received',
+      date: "2024-01-01",
+      history: quantities.map(([at, quantity]) => ({ status: 'partially_received', at, quantity })),
+    });
+    const receipts = receiptsByDay(
+      [
+        order("A", [
+          ["2024-01-02T09:00:00", 6],
+          ["2024-01-02T15:00:00", 4],
+        ]),
+        order("B", [["2024-01-02T09:00:00", 99]]),
+      ],
+      "A"
+    );
+    expect(Array.from(receipts)).toEqual([["2024-01-02", 10]]);
+  });
+});
+
+describe("smoothing", () => {
+  it("averages the most recent window", () => {
+    expect(movingAverage([100, 1, 2, 3], 3)).toBe(2);
+    expect(movingAverage([])).toBe(0);
+  });
+
+  it("weights recent values by alpha", () => {
+    expect(exponentialSmoothing([10, 20], 0.5)).toBe(15);
+  });
+});
+
+describe("forecastItem", () => {
+  it("needs a week of history", () => {
+    expect(forecastItem(item(20), history("2024-01-01", 50, [3, 3, 3, 3, 3, 3]), [], { today: "2024-01-08" })).toBe(
+      undefined
+    );
+  });
+
+  it("leaves today's partial count out", () => {
+    const snapshots = [
+      ...history("2024-01-01", 80, [3, 3, 3, 3, 3, 3, 3]),
+      { itemId: "A", date: "2024-01-09", count: 0 },
+    ];
+    expect(forecastItem(item(20), snapshots, [], { today: "2024-01-09" }).dailyDemand).toBe(3);
+  });
+
+  it("orders enough whole packs to cover steady demand", () => {
+    const forecast = forecastItem(item(20, { packSize: 6 }), history("2024-01-01", 80, Array(10).fill(3)), [], {
+      today: "2024-01-12",
+    });
+    expect(forecast.method).toBe('moving_average');
+    expect(forecast.historyDays).toBe(10);
+    expect(forecast.dailyDemand).toBe(3);
+    expect(forecast.daysOfCover).toBeCloseTo(6 + 2 / 3);
+    // 14 days at 3 a day, less the 20 on hand, rounded up to packs of 6.
+    expect(forecast.suggestedQuantity).toBe(24);
+  });
+
+  it("counts stock already on order", () => {
+    const forecast = forecastItem(item(20), history("2024-01-01", 80, Array(10).fill(3)), [], {
+      today: "2024-01-12",
+      onOrder: 30,
+    });
+    expect(forecast.suggestedQuantity).toBe(0);
+  });
+
+  it("follows the weekly pattern once there are two weeks of history", () => {
+    // 2024-01-01 is a Monday; Saturdays sell 10, other days 2.
+    const demand = Array.from({ length: 21 }, (_, index) => (weekday(addDays("2024-01-01", index + 1)) === 6 ? 10 : 2));
+    const forecast = forecastItem(item(100), history("2024-01-01", 500, demand), [], { today: "2024-01-23" });
+    expect(forecast.method).toBe('seasonal_smoothing');
+    expect(forecast.dailyDemand).toBeCloseTo(22 / 7);
+  });
+
+  it("has no days of cover when nothing is selling", () => {
+    const forecast = forecastItem(item(20), history("2024-01-01", 20, Array(10).fill(0)), [], { today: "2024-01-12" });
+    expect(forecast.daysOfCover).toBe(null);
+    expect(forecast.suggestedQuantity).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+import type { CountSnapshot, InventoryItem, Order } from "./types";
+
+// How far ahead an order should last: supplier lead time plus the review cycle.
+export const DEFAULT_COVER_DAYS = 14;
+// Below this there isn't enough history to say anything useful.
+export const MIN_HISTORY_DAYS = 7;
+// Weekday seasonality needs at least two of each weekday.
+const SEASONAL_HISTORY_DAYS = 14;
+const SMOOTHING_ALPHA = 0.3;
+const MAX_COVER_DAYS = 90;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Local calendar day, so a store's evening counts don't land on tomorrow in UTC.
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (key: string, days: number) => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const weekday = (key: string) => fromDateKey(key).getDay();
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / 86_400_000);
+
+export const toSnapshots = (items: InventoryItem[], date = new Date()): CountSnapshot[] =>
+  items.map(item => ({ itemId: item.id, date: toDateKey(date), count: item.count }));
+
+// Items whose count isn't in the day's snapshots yet, either because the day
+// has none for them or because the count has changed since.
+export function unrecordedItems(items: InventoryItem[], snapshots: CountSnapshot[], date = new Date()) {
+  const day = toDateKey(date);
+  const recorded = new Map(
+    snapshots.filter(snapshot => snapshot.date === day).map(snapshot => [snapshot.itemId, snapshot.count])
+  );
+  return items.filter(item => recorded.get(item.id) !== item.count);
+}
+
+// Units received per day for one item, from the orders' receiving events.
+export function receiptsByDay(orders: Order[], itemId: string) {
+  const receipts = new Map<string, number>();
+  orders
+    .filter(order => order.itemId === itemId)
+    .flatMap(order => order.history)
+    .forEach(event => {
+      if (!event.quantity) return;
+      const day = toDateKey(new Date(event.at));
+      receipts.set(day, (receipts.get(day) ?? 0) + event.quantity);
+    });
+  return receipts;
+}
+
+export interface DailyDemand {
+  date: string;
+  demand: number;
+}
+
+// Units that left the shelf each day: the previous close plus that day's
+// deliveries minus the day's close. When days are missing between snapshots
+// the drop is spread evenly across them.
+export function dailyDemand(snapshots: CountSnapshot[], receipts: Map<string, number>): DailyDemand[] {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  const series: DailyDemand[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    const gap = daysBetween(previous.date, current.date);
+    if (gap <= 0) continue;
+
+    let received = 0;
+    for (let d = 1; d <= gap; d++) received += receipts.get(addDays(previous.date, d)) ?? 0;
+
+    const perDay = Math.max(0, previous.count + received - current.count) / gap;
+    for (let d = 1; d <= gap; d++) series.push({ date: addDays(previous.date, d), demand: perDay });
+  }
+  return series;
+}
+
+export const movingAverage = (values: number[], window = 7) => {
+  const recent = values.slice(-window);
+  return recent.length === 0 ? 0 : recent.reduce((sum, value) => sum + value, 0) / recent.length;
+};
+
+// Simple exponential smoothing; returns the final smoothed level.
+export const exponentialSmoothing = (values: number[], alpha = SMOOTHING_ALPHA) =>
+  values.reduce((level, value, index) => (index === 0 ? value : alpha * value + (1 - alpha) * level), 0);
+
+// Demand on each weekday (0 = Sunday) relative to the overall average.
+export function weekdayIndices(series: DailyDemand[]) {
+  const overall = movingAverage(series.map(d => d.demand), series.length);
+  const indices = Array<number>(7).fill(1);
+  if (overall === 0) return indices;
+
+  for (let day = 0; day < 7; day++) {
+    const values = series.filter(d => weekday(d.date) === day).map(d => d.demand);
+    if (values.length > 0) indices[day] = movingAverage(values, values.length) / overall;
+  }
+  return indices;
+}
+
+export type ForecastMethod = 'moving_average' | 'seasonal_smoothing';
+
+export interface Forecast {
+  method: ForecastMethod;
+  historyDays: number;
+  // Expected units per day over the coming week.
+  dailyDemand: number;
+  // Days until the shelf is empty at the forecast rate; null when nothing is selling.
+  daysOfCover: number | null;
+  // Units to order now to last `coverDays`, in whole packs.
+  suggestedQuantity: number;
+}
+
+interface ForecastOptions {
+  onOrder?: number;
+  coverDays?: number;
+  today?: string;
+}
+
+export function forecastItem(
+  item: InventoryItem,
+  snapshots: CountSnapshot[],
+  orders: Order[],
+  { onOrder = 0, coverDays = DEFAULT_COVER_DAYS, today = toDateKey(new Date()) }: ForecastOptions = {}
+): Forecast | undefined {
+  // Today is still in progress, so only completed days feed the model.
+  const history = snapshots.filter(s => s.itemId === item.id && s.date < today);
+  const series = dailyDemand(history, receiptsByDay(orders, item.id));
+  if (series.length < MIN_HISTORY_DAYS) return undefined;
+
+  const seasonal = series.length >= SEASONAL_HISTORY_DAYS;
+  const indices = seasonal ? weekdayIndices(series) : Array<number>(7).fill(1);
+  const level = seasonal
+    ? exponentialSmoothing(series.map(d => d.demand / (indices[weekday(d.date)] || 1)))
+    : movingAverage(series.map(d => d.demand));
+
+  const demandOn = (offset: number) => level * indices[weekday(addDays(today, offset))];
+  const projected = Array.from({ length: Math.max(coverDays, MAX_COVER_DAYS) }, (_, i) => demandOn(i + 1));
+
+  let daysOfCover: number | null = null;
+  if (level > 0) {
+    let stock = item.count;
+    daysOfCover = MAX_COVER_DAYS;
+    for (let day = 0; day < MAX_COVER_DAYS; day++) {
+      if (stock < projected[day]) {
+        daysOfCover = day + stock / projected[day];
+        break;
+      }
+      stock -= projected[day];
+    }
+  }
+
+  const needed = projected.slice(0, coverDays).reduce((sum, value) => sum + value, 0) - item.count - onOrder;
+  const pack = Math.max(1, item.packSize);
+
+  return {
+    method: seasonal ? 'seasonal_smoothing' : 'moving_average',
+    historyDays: series.length,
+    dailyDemand: projected.slice(0, 7).reduce((sum, value) => sum + value, 0) / 7,
+    daysOfCover,
+    suggestedQuantity: needed > 0 ? Math.ceil(needed / pack) * pack : 0,
+  };
+}
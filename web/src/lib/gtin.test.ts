@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  GtinError,
+  gtinCheckDigit,
+  gtinFormat,
+  gtinKey,
+  isValidGtin,
+  normalizeGtin,
+  restoreLeadingZeros,
+  toStoredBarcode,
+  validateGtin,
+} from "./gtin";
+
+describe("gtinCheckDigit", () => {
+  it("computes the mod-10 check digit for each format", () => {
+    expect(gtinCheckDigit("12345678901")).toBe(2);
+    expect(gtinCheckDigit("400638133393")).toBe(1);
+    expect(gtinCheckDigit("9638507")).toBe(4);
+  });
+
+  it("is unchanged by leading zeros", () => {
+    expect(gtinCheckDigit("0012345678901")).toBe(gtinCheckDigit("12345678901"));
+  });
+});
+
+describe("validateGtin", () => {
+  it("accepts EAN-8, UPC-A, EAN-13 and GTIN-14", () => {
+    expect(validateGtin("96385074")).toBe(null);
+    expect(validateGtin("123456789012")).toBe(null);
+    expect(validateGtin("4006381333931")).toBe(null);
+    expect(validateGtin("00123456789012")).toBe(null);
+  });
+
+  it("ignores spaces and dashes", () => {
+    expect(validateGtin("0 12345-67890 5")).toBe(null);
+    expect(gtinFormat("4006-3813-3393-1")).toBe('EAN-13');
+  });
+
+  it("explains what is wrong", () => {
+    expect(validateGtin("")).toBe("Barcode is required");
+    expect(validateGtin("12345ABC9012")).toBe("Barcode must contain only digits");
+    expect(validateGtin("12345")).toMatch(/8, 12, 13 or 14 digits/);
+    expect(validateGtin("123456789013")).toBe("Check digit should be 2 for a UPC-A");
+  });
+});
+
+describe("normalizeGtin", () => {
+  it("stores every format as GTIN-14", () => {
+    expect(normalizeGtin("123456789012")).toBe("00123456789012");
+    expect(normalizeGtin("0123456789012")).toBe("00123456789012");
+    expect(normalizeGtin("96385074")).toBe("00000096385074");
+  });
+
+  it("throws for codes that aren't valid", () => {
+    expect(() => normalizeGtin("123456789013")).toThrow(GtinError);
+  });
+});
+
+describe("gtinKey", () => {
+  it("matches a UPC-A scan to the same product entered as EAN-13", () => {
+    expect(gtinKey("123456789012")).toBe(gtinKey("0123456789012"));
+  });
+
+  it("still matches codes with a bad check digit to themselves", () => {
+    expect(gtinKey("123456789013")).toBe(gtinKey("00123456789013"));
+    expect(isValidGtin("123456789013")).toBe(false);
+  });
+
+  it("compares non-numeric codes case-insensitively", () => {
+    expect(gtinKey("abc-123")).toBe(gtinKey("ABC123"));
+  });
+});
+
+describe("toStoredBarcode", () => {
+  it("normalizes valid codes and keeps the rest as entered", () => {
+    expect(toStoredBarcode(" 123456789012 ")).toBe("00123456789012");
+    expect(toStoredBarcode(" 123456789013 ")).toBe("123456789013");
+  });
+});
+
+describe("restoreLeadingZeros", () => {
+  it("puts back the zeros a number cell dropped", () => {
+    expect(restoreLeadingZeros("12345678905")).toBe("012345678905");
+    expect(restoreLeadingZeros("1234567895")).toBe("001234567895");
+    expect(restoreLeadingZeros("4006381333931")).toBe("04006381333931");
+  });
+
+  it("leaves codes alone when padding doesn't make them valid", () => {
+    expect(restoreLeadingZeros("12345678906")).toBe("12345678906");
+    expect(restoreLeadingZeros("96385074")).toBe("96385074");
+    expect(restoreLeadingZeros("ABC12345678")).toBe("ABC12345678");
+  });
+});
@@ -0,0 +1,82 @@
+// GTIN (Global Trade Item Number) handling. UPC-A, EAN-8, EAN-13 and GTIN-14
+// are all the same number space: right-aligned in 14 digits with leading zeros
+// and ending in a mod-10 check digit. Barcodes are stored as GTIN-14 so a
+// product scanned as UPC-A matches the same item entered as EAN-13.
+
+export type GtinFormat = 'EAN-8' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+const formatsByLength: Record<number, GtinFormat> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+  14: 'GTIN-14',
+};
+
+export class GtinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GtinError";
+  }
+}
+
+// Scanners and spreadsheets add spaces and dashes; they're never significant.
+const clean = (code: string) => code.replace(/[\s-]/g, "");
+
+// Check digit for the digits before it. Weights alternate 3, 1 starting from
+// the rightmost digit, which is what makes left-padding with zeros harmless.
+export const gtinCheckDigit = (body: string) => {
+  const sum = body
+    .split("")
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const hasValidCheckDigit = (digits: string) =>
+  /^\d{2,}$/.test(digits) && gtinCheckDigit(digits.slice(0, -1)) === Number(digits.slice(-1));
+
+export const gtinFormat = (code: string): GtinFormat | undefined => formatsByLength[clean(code).length];
+
+// Why `code` isn't a usable GTIN, or null when it is.
+export function validateGtin(code: string): string | null {
+  const digits = clean(code);
+  if (!digits) return "Barcode is required";
+  if (!/^\d+$/.test(digits)) return "Barcode must contain only digits";
+  if (!formatsByLength[digits.length]) return "Barcode must be 8, 12, 13 or 14 digits (EAN-8, UPC-A, EAN-13 or GTIN-14)";
+  if (!hasValidCheckDigit(digits)) {
+    return `Check digit should be ${gtinCheckDigit(digits.slice(0, -1))} for a ${formatsByLength[digits.length]}`;
+  }
+  return null;
+}
+
+export const isValidGtin = (code: string) => validateGtin(code) === null;
+
+// The GTIN-14 form used for storage. Throws for anything that isn't a valid GTIN.
+export function normalizeGtin(code: string) {
+  const error = validateGtin(code);
+  if (error) throw new GtinError(error);
+  return clean(code).padStart(14, "0");
+}
+
+// Spreadsheets keep barcodes typed into number cells as numbers, dropping their
+// leading zeros: 012345678905 comes back as 12345678905. Puts the zeros back
+// when the padded code passes its check digit, and otherwise leaves it alone
+// for validation to report.
+export function restoreLeadingZeros(code: string) {
+  const digits = clean(code);
+  const length = digits.length >= 9 && digits.length <= 11 ? 12 : digits.length >= 12 && digits.length <= 13 ? 14 : 0;
+  if (!length || !/^\d+$/.test(digits)) return code;
+  const padded = digits.padStart(length, "0");
+  return hasValidCheckDigit(padded) ? padded : code;
+}
+
+// Comparison key for lookups. Unlike normalizeGtin it accepts codes with a bad
+// check digit, so items imported before validation still match their own label.
+export const gtinKey = (code: string) => {
+  const digits = clean(code);
+  return /^\d{1,14}$/.test(digits) ? digits.padStart(14, "0") : digits.toUpperCase();
+};
+
+// Stores valid codes as GTIN-14 and leaves anything else as entered, so a bad
+// code from another system stays visible (and flagged) rather than being lost.
+export const toStoredBarcode = (code: string) => (isValidGtin(code) ? normalizeGtin(code) : code.trim());
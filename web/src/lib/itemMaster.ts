@@ -0,0 +1,131 @@
+import { z } from "zod";
+import type { InventoryItem, ItemDetails, SizeUnit } from "./types";
+import { gtinKey, normalizeGtin, validateGtin } from "./gtin";
+import { DEFAULT_PACK_SIZE, DEFAULT_PAR_LEVEL, DEFAULT_REORDER_POINT } from "./replenishment";
+
+const wholeNumber = (label: string, min: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(min, `${label} must be at least ${min}`);
+
+export const sizeUnitLabels: Record<SizeUnit, string> = {
+  fl_oz: "fl oz",
+  oz: "oz",
+  lb: "lb",
+  ml: "mL",
+  l: "L",
+  g: "g",
+  kg: "kg",
+  ct: "count",
+};
+
+export const PAR_LEVEL_ERROR = "Par level must be above the reorder point";
+
+export const itemFormSchema = z
+  .object({
+    id: z
+      .string()
+      .trim()
+      .min(1, "Item ID is required")
+      .max(32, "Item ID must be 32 characters or fewer")
+      .regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, dashes and underscores only")
+      .transform(id => id.toUpperCase()),
+    name: z.string().trim().min(1, "Name is required").max(80, "Name must be 80 characters or fewer"),
+    category: z.string().trim().min(1, "Category is required").max(40, "Category must be 40 characters or fewer"),
+    // Optional: loose produce and deli items often have no barcode.
+    barcode: z
+      .string()
+      .trim()
+      .superRefine((code, ctx) => {
+        const error = code ? validateGtin(code) : null;
+        if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      }),
+    price: z.coerce
+      .number({ invalid_type_error: "Price must be a number" })
+      .positive("Price must be more than zero")
+      .max(100000, "Price looks too high")
+      .refine(price => Math.abs(price * 100 - Math.round(price * 100)) < 1e-6, "Price can't have fractions of a cent"),
+    reorderPoint: wholeNumber("Reorder point", 0),
+    parLevel: wholeNumber("Par level", 1),
+    packSize: wholeNumber("Pack size", 1),
+    // Zero leaves the unit price off the shelf label.
+    size: z.coerce
+      .number({ invalid_type_error: "Size must be a number" })
+      .min(0, "Size can't be negative")
+      .max(100000, "Size looks too large"),
+    sizeUnit: z.enum(['fl_oz', 'oz', 'lb', 'ml', 'l', 'g', 'kg', 'ct']),
+    aisle: z.string().trim().max(10, "Aisle must be 10 characters or fewer"),
+    image: z.string().trim(),
+    // Stock on the shelf when a new item is added; posted to the ledger as an adjustment.
+    openingCount: wholeNumber("Opening count", 0),
+  })
+  .refine(values => values.parLevel > values.reorderPoint, {
+    path: ["parLevel"],
+    message: PAR_LEVEL_ERROR,
+  });
+
+export type ItemFormValues = z.infer<typeof itemFormSchema>;
+
+// The rules for each field on its own, for checking a partial update.
+export const itemFieldSchemas = itemFormSchema.innerType().shape;
+
+// Adds the checks that need the rest of the catalog. Archived items count:
+// their ids and barcodes stay reserved so unarchiving never causes a clash.
+export const itemSchemaFor = (items: InventoryItem[], editing?: InventoryItem) =>
+  itemFormSchema.superRefine((values, ctx) => {
+    if (!editing) {
+      const taken = items.find(item => item.id.toUpperCase() === values.id);
+      if (taken) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["id"],
+          message: `${taken.id} is already used by ${taken.name}${taken.archived ? " (archived)" : ""}`,
+        });
+      }
+    }
+    if (values.barcode) {
+      const key = gtinKey(values.barcode);
+      const clash = items.find(item => item.id !== editing?.id && item.barcode && gtinKey(item.barcode) === key);
+      if (clash) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["barcode"],
+          message: `Barcode already belongs to ${clash.name}`,
+        });
+      }
+    }
+  });
+
+export const toFormValues = (item?: InventoryItem): ItemFormValues => ({
+  id: item?.id ?? "",
+  name: item?.name ?? "",
+  category: item?.category ?? "",
+  barcode: item?.barcode ?? "",
+  price: item?.price ?? 0,
+  reorderPoint: item?.reorderPoint ?? DEFAULT_REORDER_POINT,
+  parLevel: item?.parLevel ?? DEFAULT_PAR_LEVEL,
+  packSize: item?.packSize ?? DEFAULT_PACK_SIZE,
+  size: item?.size ?? 0,
+  sizeUnit: item?.sizeUnit ?? 'fl_oz',
+  aisle: item?.aisle ?? "",
+  image: item?.image ?? "",
+  openingCount: 0,
+});
+
+// Barcodes are stored as GTIN-14 (see gtin.ts).
+export const toItemDetails = (values: ItemFormValues): ItemDetails => ({
+  name: values.name,
+  category: values.category,
+  barcode: values.barcode ? normalizeGtin(values.barcode) : "",
+  price: values.price,
+  reorderPoint: values.reorderPoint,
+  parLevel: values.parLevel,
+  packSize: values.packSize,
+  size: values.size || undefined,
+  sizeUnit: values.size ? values.sizeUnit : undefined,
+  aisle: values.aisle || undefined,
+  image: values.image,
+});
+
+export const categoriesOf = (items: InventoryItem[]) => Array.from(new Set(items.map(item => item.category))).sort();
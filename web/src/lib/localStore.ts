@@ -0,0 +1,79 @@
+// Thin promise wrapper around IndexedDB. The app only needs whole-store reads
+// and keyed writes, so this avoids pulling in a client library.
+
+const DB_VERSION = 4;
+
+export type StoreName = 'inventory' | 'orders' | 'outbox' | 'snapshots' | 'movements' | 'cycleCounts';
+
+export type LocalStore = ReturnType<typeof createLocalStore>;
+
+// Each retail store gets its own database so item and order ids never collide.
+export function createLocalStore(dbName: string) {
+  let connection: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    connection ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore("inventory", { keyPath: "id" });
+          db.createObjectStore("orders", { keyPath: "id" });
+          db.createObjectStore("outbox", { keyPath: "seq", autoIncrement: true });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore("snapshots", { keyPath: ["itemId", "date"] });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore("movements", { keyPath: "id" });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore("cycleCounts", { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+    return connection;
+  };
+
+  async function transaction<T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const request = run(tx.objectStore(store));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  return {
+    async getAll<T>(store: StoreName): Promise<T[]> {
+      return (await transaction<T[]>(store, "readonly", s => s.getAll())) ?? [];
+    },
+
+    async put<T>(store: StoreName, value: T): Promise<IDBValidKey> {
+      return transaction(store, "readwrite", s => s.put(value));
+    },
+
+    async remove(store: StoreName, key: IDBValidKey): Promise<void> {
+      await transaction(store, "readwrite", s => s.delete(key));
+    },
+
+    // Replaces the whole store in one transaction, used to mirror a fresh server snapshot.
+    async replaceAll<T>(store: StoreName, values: T[]): Promise<void> {
+      await transaction(store, "readwrite", s => {
+        s.clear();
+        values.forEach(value => s.put(value));
+      });
+    },
+  };
+}
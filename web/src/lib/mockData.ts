@@ -1,68 +1,80 @@
-export interface InventoryItem {
-  id: string;
-  name: string;
-  category: string;
-  image: string;
-  barcode: string;
-  price: number;
-  count: number;
-}
+import type { CountSnapshot, InventoryItem, Order, Store } from "./types";
+import type { Vendor } from "./vendors";
+import { addDays, toDateKey } from "./forecasting";
+import { toStoredBarcode } from "./gtin";
 
-export interface Order {
-  id: string;
-  itemName: string;
-  itemId: string;
-  count: number;
-  status: 'submitted' | 'received';
-  date: string;
-}
+export const storesData: Store[] = [
+  { id: "2847", name: "Downtown", district: "North District", channel: "store-2847" },
+  { id: "1932", name: "Riverside", district: "North District", channel: "store-1932" },
+  { id: "3310", name: "Hillcrest", district: "South District", channel: "store-3310" },
+];
 
-export const inventoryData: InventoryItem[] = [
+const seedItems: InventoryItem[] = [
   // Produce Category
   {
     id: "PROD001",
     name: "Apples",
     category: "Produce",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "123456789012",
     price: 2.99,
-    count: 45
+    count: 45,
+    reorderPoint: 15,
+    parLevel: 40,
+    packSize: 10,
+    aisle: "A1"
   },
   {
     id: "PROD002", 
     name: "Bananas",
     category: "Produce",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "123456789013",
     price: 1.89,
-    count: 32
+    count: 32,
+    reorderPoint: 15,
+    parLevel: 40,
+    packSize: 10,
+    aisle: "A1"
   },
   {
     id: "PROD003",
     name: "Onions",
     category: "Produce", 
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "123456789014",
     price: 1.49,
-    count: 18
+    count: 18,
+    reorderPoint: 15,
+    parLevel: 40,
+    packSize: 10,
+    aisle: "A1"
   },
   {
     id: "PROD004",
     name: "Tomatoes",
     category: "Produce",
-    image: "/api/placeholder/150/150", 
+    image: "",
     barcode: "123456789015",
     price: 3.49,
-    count: 23
+    count: 23,
+    reorderPoint: 15,
+    parLevel: 40,
+    packSize: 10,
+    aisle: "A1"
   },
   {
     id: "PROD005",
     name: "Lettuce",
     category: "Produce",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "123456789016", 
     price: 2.29,
-    count: 15
+    count: 15,
+    reorderPoint: 15,
+    parLevel: 40,
+    packSize: 10,
+    aisle: "A1"
   },
   
   // Beverages Category
@@ -70,46 +82,66 @@ export const inventoryData: InventoryItem[] = [
     id: "BEV001",
     name: "Apple Juice",
     category: "Beverages",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "223456789012",
     price: 4.99,
-    count: 28
+    count: 28,
+    reorderPoint: 12,
+    parLevel: 48,
+    packSize: 12,
+    aisle: "A2"
   },
   {
     id: "BEV002",
     name: "Cranberry Juice", 
     category: "Beverages",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "223456789013",
     price: 5.49,
-    count: 12
+    count: 12,
+    reorderPoint: 12,
+    parLevel: 48,
+    packSize: 12,
+    aisle: "A2"
   },
   {
     id: "BEV003",
     name: "Orange Juice",
     category: "Beverages",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "223456789014", 
     price: 4.79,
-    count: 35
+    count: 35,
+    reorderPoint: 12,
+    parLevel: 48,
+    packSize: 12,
+    aisle: "A2"
   },
   {
     id: "BEV004",
     name: "Sparkling Water",
     category: "Beverages",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "223456789015",
     price: 1.99,
-    count: 67
+    count: 67,
+    reorderPoint: 12,
+    parLevel: 48,
+    packSize: 12,
+    aisle: "A3"
   },
   {
     id: "BEV005",
     name: "Cola",
     category: "Beverages", 
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "223456789016",
     price: 2.49,
-    count: 48
+    count: 48,
+    reorderPoint: 12,
+    parLevel: 48,
+    packSize: 12,
+    aisle: "A3"
   },
 
   // Dairy Category
@@ -117,28 +149,40 @@ export const inventoryData: InventoryItem[] = [
     id: "DAIRY001",
     name: "Milk",
     category: "Dairy",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "323456789012",
     price: 3.99,
-    count: 22
+    count: 22,
+    reorderPoint: 12,
+    parLevel: 30,
+    packSize: 6,
+    aisle: "A4"
   },
   {
     id: "DAIRY002",
     name: "Cheese",
     category: "Dairy",
-    image: "/api/placeholder/150/150", 
+    image: "",
     barcode: "323456789013",
     price: 6.49,
-    count: 14
+    count: 14,
+    reorderPoint: 12,
+    parLevel: 30,
+    packSize: 6,
+    aisle: "A4"
   },
   {
     id: "DAIRY003",
     name: "Yogurt",
     category: "Dairy",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "323456789014",
     price: 4.29,
-    count: 31
+    count: 31,
+    reorderPoint: 12,
+    parLevel: 30,
+    packSize: 6,
+    aisle: "A4"
   },
 
   // Snacks Category  
@@ -146,64 +190,177 @@ export const inventoryData: InventoryItem[] = [
     id: "SNACK001",
     name: "Potato Chips",
     category: "Snacks",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "423456789012", 
     price: 3.99,
-    count: 56
+    count: 56,
+    reorderPoint: 10,
+    parLevel: 36,
+    packSize: 12,
+    aisle: "A5"
   },
   {
     id: "SNACK002",
     name: "Crackers",
     category: "Snacks",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "423456789013",
     price: 2.79,
-    count: 29
+    count: 29,
+    reorderPoint: 10,
+    parLevel: 36,
+    packSize: 12,
+    aisle: "A5"
   },
   {
     id: "SNACK003",
     name: "Nuts",
     category: "Snacks",
-    image: "/api/placeholder/150/150",
+    image: "",
     barcode: "423456789014",
     price: 7.99,
-    count: 18
+    count: 18,
+    reorderPoint: 10,
+    parLevel: 36,
+    packSize: 12,
+    aisle: "A5"
   }
 ];
 
+// Seed barcodes are stored the way an import would store them: GTIN-14 when
+// valid, and as written (flagged in the UI) when the check digit is wrong.
+export const inventoryData: InventoryItem[] = seedItems.map(item => ({
+  ...item,
+  barcode: toStoredBarcode(item.barcode),
+}));
+
 export const ordersData: Order[] = [
   {
     id: "ORD001",
     itemName: "Apples", 
     itemId: "PROD001",
     count: 20,
+    receivedCount: 0,
     status: "submitted",
-    date: "2024-01-15"
+    date: "2024-01-15",
+    history: [
+      { status: "submitted", at: "2024-01-15T09:12:00.000Z", by: "lead" }
+    ]
   },
   {
     id: "ORD002",
     itemName: "Orange Juice",
     itemId: "BEV003", 
     count: 15,
+    receivedCount: 0,
     status: "submitted",
-    date: "2024-01-14"
+    date: "2024-01-14",
+    history: [
+      { status: "submitted", at: "2024-01-14T10:05:00.000Z", by: "lead" }
+    ]
   },
   {
     id: "ORD003",
     itemName: "Milk",
     itemId: "DAIRY001",
     count: 12,
+    receivedCount: 12,
     status: "received",
-    date: "2024-01-13"
+    date: "2024-01-13",
+    history: [
+      { status: "submitted", at: "2024-01-11T08:30:00.000Z", by: "lead" },
+      { status: "received", at: "2024-01-13T14:20:00.000Z", by: "lead", quantity: 12 }
+    ]
   },
   {
     id: "ORD004",
     itemName: "Crackers",
     itemId: "SNACK002",
     count: 25,
+    receivedCount: 25,
     status: "received", 
-    date: "2024-01-12"
+    date: "2024-01-12",
+    history: [
+      { status: "submitted", at: "2024-01-10T16:45:00.000Z", by: "manager" },
+      { status: "received", at: "2024-01-12T11:00:00.000Z", by: "lead", quantity: 25 }
+    ]
   }
 ];
 
-export const categories = Array.from(new Set(inventoryData.map(item => item.category))).sort();
\ No newline at end of file
+export const categories = Array.from(new Set(inventoryData.map(item => item.category))).sort();
+
+export const DEFAULT_STORE_ID = storesData[0].id;
+
+// Demo stock for the other stores: same catalog, different counts and no open orders.
+export const seedInventory = (storeId: string): InventoryItem[] =>
+  storeId === DEFAULT_STORE_ID
+    ? inventoryData
+    : inventoryData.map((item, index) => ({ ...item, count: (item.count * (index + Number(storeId))) % 60 }));
+
+export const seedOrders = (storeId: string): Order[] => (storeId === DEFAULT_STORE_ID ? ordersData : []);
+
+const catalogFor = (prefix: string, codePrefix: string) =>
+  inventoryData
+    .filter(item => item.id.startsWith(prefix))
+    .map((item, index) => ({
+      itemId: item.id,
+      vendorCode: `${codePrefix}-${String(index + 101)}`,
+      unitCost: Math.round(item.price * 60) / 100,
+    }));
+
+// Every demo store buys from the same three vendors.
+export const vendorsData: Vendor[] = [
+  {
+    id: "VEN001",
+    name: "Valley Fresh Produce",
+    contactName: "Maria Lopez",
+    email: "orders@valleyfresh.example",
+    phone: "555-0142",
+    leadTimeDays: 1,
+    deliveryDays: [1, 3, 5],
+    minimumOrderValue: 75,
+    items: catalogFor("PROD", "VF"),
+  },
+  {
+    id: "VEN002",
+    name: "Northside Beverage & Snack",
+    contactName: "Dan Whitaker",
+    email: "dispatch@northside.example",
+    leadTimeDays: 3,
+    deliveryDays: [2, 4],
+    minimumOrderUnits: 48,
+    items: [...catalogFor("BEV", "NB"), ...catalogFor("SNACK", "NS")],
+  },
+  {
+    id: "VEN003",
+    name: "Dairy Direct",
+    phone: "555-0187",
+    leadTimeDays: 2,
+    deliveryDays: [0, 1, 2, 3, 4, 5, 6],
+    items: catalogFor("DAIRY", "DD"),
+  },
+];
+
+// Busier weekends, quiet early week (Sunday first).
+const WEEKDAY_DEMAND = [1.4, 0.7, 0.8, 0.9, 1.0, 1.3, 1.6];
+const HISTORY_DAYS = 28;
+
+// Four weeks of daily closing counts ending yesterday, worked backwards from
+// today's count so the demo has something to forecast from.
+export const seedCountHistory = (storeId: string): CountSnapshot[] => {
+  const today = toDateKey(new Date());
+  return seedInventory(storeId).flatMap((item, index) => {
+    const baseDemand = Math.max(1, item.parLevel / 12);
+    const snapshots: CountSnapshot[] = [];
+    let count = item.count;
+    for (let offset = 1; offset <= HISTORY_DAYS; offset++) {
+      // The close of day -offset is the close of the next day plus what sold on it.
+      const date = addDays(today, -offset);
+      const next = addDays(date, 1);
+      const noise = (((index * 7 + offset * 13) % 5) - 2) / 10;
+      count += Math.round(baseDemand * WEEKDAY_DEMAND[new Date(`${next}T12:00:00`).getDay()] * (1 + noise));
+      snapshots.push({ itemId: item.id, date, count });
+    }
+    return snapshots;
+  });
+};
@@ -0,0 +1,81 @@
+import type { CountSnapshot, InventoryItem, Movement, MovementReason } from "./types";
+import type { Repositories } from "./repositories/types";
+import { getDeviceId } from "./device";
+import { addDays, toDateKey } from "./forecasting";
+
+export const movementReasonLabels: Record<MovementReason, string> = {
+  count: "Count",
+  receipt: "Receipt",
+  adjustment: "Adjustment",
+  cycle_count: "Cycle Count",
+};
+
+export interface MovementInput {
+  itemId: string;
+  delta: number;
+  reason: MovementReason;
+  actor: string;
+  note?: string;
+  orderId?: string;
+}
+
+// Ids are minted on the device so an entry can be queued offline and replayed
+// without ever being written twice.
+export const createMovementId = () => `mov-${crypto.randomUUID()}`;
+
+// Applies a stock change and appends it to the ledger. Every change to a count
+// goes through here so the ledger never misses one.
+export async function applyMovement(
+  { inventory, movements }: Pick<Repositories, 'inventory' | 'movements'>,
+  { itemId, delta, reason, actor, note, orderId }: MovementInput
+): Promise<InventoryItem> {
+  const device = getDeviceId();
+  const item = await inventory.adjustCount(itemId, delta, device);
+  await movements.record({
+    id: createMovementId(),
+    itemId,
+    delta,
+    reason,
+    actor,
+    device,
+    at: new Date().toISOString(),
+    countAfter: item.count,
+    note: note || undefined,
+    orderId,
+  });
+  return item;
+}
+
+export const sortMovements = (movements: Movement[]) => [...movements].sort((a, b) => b.at.localeCompare(a.at));
+
+export interface TimelinePoint {
+  date: string;
+  // Closing count for the day, if one was observed.
+  count?: number;
+  // Net change recorded in the ledger that day.
+  net: number;
+}
+
+// Daily closing counts alongside the ledger's net change per day, oldest first,
+// ending with today's live count.
+export function stockTimeline(
+  item: InventoryItem,
+  snapshots: CountSnapshot[],
+  movements: Movement[],
+  days = 28,
+  today = toDateKey(new Date())
+): TimelinePoint[] {
+  const closes = new Map(snapshots.filter(s => s.itemId === item.id).map(s => [s.date, s.count]));
+  const net = new Map<string, number>();
+  movements
+    .filter(m => m.itemId === item.id)
+    .forEach(m => {
+      const day = toDateKey(new Date(m.at));
+      net.set(day, (net.get(day) ?? 0) + m.delta);
+    });
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - days + 1);
+    return { date, count: date === today ? item.count : closes.get(date), net: net.get(date) ?? 0 };
+  });
+}
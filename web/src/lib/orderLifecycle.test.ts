@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import { canTransition, InvalidTransitionError, isOpenOrder, normalizeOrder, transitionOrder } from "./orderLifecycle";
+
+const order = (changes: Partial<Order> = {}): Order => ({
+  id: "ORD001",
+  itemName: "Apples",
+  itemId: "PROD001",
+  count: 12,
+  receivedCount: 0,
+  status: 'draft',
+  date: "2024-01-15",
+  history: [{ status: 'draft', at: "2024-01-15T09:00:00.000Z" }],
+  ...changes,
+});
+
+describe("transitionOrder", () => {
+  it("moves an order along and records who did it", () => {
+    const next = transitionOrder(order(), 'submitted', { by: "manager", note: "Sent on PO-1" });
+    expect(next.status).toBe('submitted');
+    expect(next.history).toHaveLength(2);
+    expect(next.history[1]).toMatchObject({ status: 'submitted', by: "manager", note: "Sent on PO-1" });
+  });
+
+  it("does not change the original order", () => {
+    const draft = order();
+    transitionOrder(draft, 'submitted');
+    expect(draft.status).toBe('draft');
+    expect(draft.history).toHaveLength(1);
+  });
+
+  it("refuses moves the state machine doesn't allow", () => {
+    expect(() => transitionOrder(order(), 'received')).toThrow(InvalidTransitionError);
+    expect(() => transitionOrder(order({ status: 'shipped' }), 'cancelled')).toThrow(
+      "Cannot move an order from Shipped to Cancelled"
+    );
+  });
+
+  it("allows repeated partial receipts but nothing out of a closed order", () => {
+    expect(canTransition('partially_received', 'partially_received')).toBe(true);
+    expect(canTransition('closed', 'draft')).toBe(false);
+    expect(canTransition('cancelled', 'submitted')).toBe(false);
+  });
+});
+
+describe("isOpenOrder", () => {
+  it("treats orders as open until they are received, closed or cancelled", () => {
+    expect(isOpenOrder(order({ status: 'shipped' }))).toBe(true);
+    expect(isOpenOrder(order({ status: 'partially_received' }))).toBe(true);
+    expect(isOpenOrder(order({ status: 'received' }))).toBe(false);
+    expect(isOpenOrder(order({ status: 'cancelled' }))).toBe(false);
+  });
+});
+
+describe("normalizeOrder", () => {
+  it("seeds history and receipts for orders stored before the lifecycle", () => {
+    const { history, receivedCount, ...legacy } = order({ status: 'received' });
+    const normalized = normalizeOrder(legacy);
+    expect(normalized.receivedCount).toBe(12);
+    expect(normalized.history).toEqual([{ status: 'received', at: new Date("2024-01-15").toISOString() }]);
+    expect(normalizeOrder({ ...legacy, status: 'submitted' }).receivedCount).toBe(0);
+  });
+
+  it("keeps history and receipts that are already there", () => {
+    const stored = order({ status: 'partially_received', receivedCount: 5 });
+    expect(normalizeOrder(stored)).toEqual(stored);
+  });
+});
@@ -0,0 +1,98 @@
+import type { Order, OrderEvent, OrderStatus } from "./types";
+import type { Permission } from "./permissions";
+
+// Purchase-order state machine:
+// draft → submitted → acknowledged → shipped → partially received → received → closed,
+// with cancellation possible until the goods ship.
+export const orderTransitions: Record<OrderStatus, OrderStatus[]> = {
+  draft: ['submitted', 'cancelled'],
+  submitted: ['acknowledged', 'cancelled'],
+  acknowledged: ['shipped', 'cancelled'],
+  shipped: ['partially_received', 'received'],
+  partially_received: ['partially_received', 'received', 'closed'],
+  received: ['closed'],
+  closed: [],
+  cancelled: [],
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  acknowledged: "Acknowledged",
+  shipped: "Shipped",
+  partially_received: "Partially Received",
+  received: "Received",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+// Text colour used for each status on order cards.
+export const orderStatusColors: Record<OrderStatus, string> = {
+  draft: "text-muted-foreground",
+  submitted: "text-warning",
+  acknowledged: "text-info",
+  shipped: "text-info",
+  partially_received: "text-warning",
+  received: "text-success",
+  closed: "text-muted-foreground",
+  cancelled: "text-destructive",
+};
+
+// Label of the button that moves an order into each status.
+export const transitionActions: Record<OrderStatus, string> = {
+  draft: "Save Draft",
+  submitted: "Submit Order",
+  acknowledged: "Mark Acknowledged",
+  shipped: "Mark Shipped",
+  partially_received: "Partial Receipt",
+  received: "Order Received",
+  closed: "Close Order",
+  cancelled: "Cancel Order",
+};
+
+// Receiving is done by whoever is on the floor; everything else is order management.
+export const transitionPermissions: Record<OrderStatus, Permission> = {
+  draft: 'orders.manage',
+  submitted: 'orders.manage',
+  acknowledged: 'orders.manage',
+  shipped: 'orders.manage',
+  partially_received: 'orders.receive',
+  received: 'orders.receive',
+  closed: 'orders.manage',
+  cancelled: 'orders.manage',
+};
+
+export const openOrderStatuses: OrderStatus[] = ['draft', 'submitted', 'acknowledged', 'shipped', 'partially_received'];
+
+export const isOpenOrder = (order: Order) => openOrderStatuses.includes(order.status);
+
+export class InvalidTransitionError extends Error {
+  constructor(readonly from: OrderStatus, readonly to: OrderStatus) {
+    super(`Cannot move an order from ${orderStatusLabels[from]} to ${orderStatusLabels[to]}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => orderTransitions[from].includes(to);
+
+// Returns the order in its new status with the change appended to its history.
+export function transitionOrder(order: Order, to: OrderStatus, event: Omit<OrderEvent, 'status' | 'at'> = {}): Order {
+  if (!canTransition(order.status, to)) {
+    throw new InvalidTransitionError(order.status, to);
+  }
+  return {
+    ...order,
+    status: to,
+    history: [...order.history, { ...event, status: to, at: new Date().toISOString() }],
+  };
+}
+
+type StoredOrder = Omit<Order, 'history' | 'receivedCount'> & Partial<Pick<Order, 'history' | 'receivedCount'>>;
+
+// Orders written before the lifecycle existed have no history or receipts;
+// seed the history from the order date and assume received orders arrived in full.
+export const normalizeOrder = (order: StoredOrder): Order => ({
+  ...order,
+  receivedCount: order.receivedCount ?? (order.status === 'received' || order.status === 'closed' ? order.count : 0),
+  history: order.history ?? [{ status: order.status, at: new Date(order.date).toISOString() }],
+});
@@ -0,0 +1,215 @@
+import type { InventoryItem, ItemDetails, Movement, Order } from "./types";
+import type { StoreName } from "./localStore";
+import type { RemoteRepositories } from "./repositories/types";
+import type { LocalStore } from "./localStore";
+import { SyncGatewayError } from "./syncGateway";
+import { addToTotals, ActorTotals } from "./crdt";
+
+export type OutboxMutation =
+  // `totals` is fixed on the first attempt and resent as-is on retries.
+  | { kind: 'adjustCount'; itemId: string; delta: number; actor: string; totals?: ActorTotals }
+  | { kind: 'createItem'; item: InventoryItem }
+  | { kind: 'updateItem'; itemId: string; changes: Partial<ItemDetails> }
+  | { kind: 'createOrder'; order: Order }
+  | { kind: 'updateOrder'; orderId: string; changes: Partial<Omit<Order, 'id'>> }
+  | { kind: 'recordMovement'; movement: Movement };
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+export interface OutboxEntry {
+  seq?: number;
+  mutation: OutboxMutation;
+  status: OutboxStatus;
+  createdAt: string;
+  attempts: number;
+  error?: string;
+}
+
+const RETRY_INTERVAL_MS = 15000;
+
+// Where the confirmed document for each kind of mutation is mirrored.
+const mirrorStores: Record<OutboxMutation['kind'], StoreName> = {
+  adjustCount: "inventory",
+  createItem: "inventory",
+  updateItem: "inventory",
+  createOrder: "orders",
+  updateOrder: "orders",
+  recordMovement: "movements",
+};
+
+// Network failures and server hiccups are worth retrying; anything else (a
+// rejected document, a missing item) needs a person to look at it.
+const isTransient = (error: unknown) =>
+  error instanceof SyncGatewayError ? error.status >= 500 || error.status === 408 : error instanceof TypeError;
+
+// The document a mutation writes. Entries for the same document must land in
+// order; entries for different documents are independent.
+const mutationTarget = (mutation: OutboxMutation) => {
+  switch (mutation.kind) {
+    case 'adjustCount':
+    case 'updateItem':
+      return `item:${mutation.itemId}`;
+    case 'createItem':
+      return `item:${mutation.item.id}`;
+    case 'createOrder':
+      return `order:${mutation.order.id}`;
+    case 'updateOrder':
+      return `order:${mutation.orderId}`;
+    case 'recordMovement':
+      return `movement:${mutation.movement.id}`;
+  }
+};
+
+// Persistent FIFO of writes that have been applied locally but not yet
+// confirmed by the server. Entries are replayed in order; a failed entry holds
+// back the later ones for the same document until it is retried or discarded,
+// while writes to other documents carry on.
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<() => void>();
+  private flushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private ready: Promise<void>;
+
+  constructor(private readonly remote: RemoteRepositories, private readonly localStore: LocalStore) {
+    this.ready = localStore
+      .getAll<OutboxEntry>("outbox")
+      .then(entries => {
+        // Anything left `syncing` was interrupted by a reload and never confirmed.
+        this.setEntries(entries.map(entry => (entry.status === 'syncing' ? { ...entry, status: 'pending' } : entry)));
+      })
+      .catch(error => console.error("[Outbox] Failed to load queued mutations", error));
+
+    window.addEventListener("online", () => this.flush());
+    this.ready.then(() => this.flush());
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.entries;
+
+  async whenReady() {
+    await this.ready;
+    return this.entries;
+  }
+
+  async enqueue(mutation: OutboxMutation) {
+    await this.ready;
+    const entry: OutboxEntry = { mutation, status: 'pending', createdAt: new Date().toISOString(), attempts: 0 };
+    entry.seq = Number(await this.localStore.put("outbox", entry));
+    this.setEntries([...this.entries, entry]);
+    this.flush();
+    return entry;
+  }
+
+  async retry(seq: number) {
+    await this.update(seq, { status: 'pending', error: undefined });
+    this.flush();
+  }
+
+  async discard(seq: number) {
+    await this.localStore.remove("outbox", seq);
+    this.setEntries(this.entries.filter(entry => entry.seq !== seq));
+    this.flush();
+  }
+
+  async flush() {
+    await this.ready;
+    if (this.flushing || !navigator.onLine) return;
+    this.flushing = true;
+
+    try {
+      const blocked = new Set<string>();
+      const skipped = new Set<number>();
+      for (
+        let entry = this.entries.find(e => !skipped.has(e.seq));
+        entry;
+        entry = this.entries.find(e => !skipped.has(e.seq))
+      ) {
+        const target = mutationTarget(entry.mutation);
+        if (entry.status === 'failed' || blocked.has(target)) {
+          blocked.add(target);
+          skipped.add(entry.seq);
+          continue;
+        }
+
+        await this.update(entry.seq, { status: 'syncing', attempts: entry.attempts + 1 });
+        try {
+          // Mirror the confirmed document before dropping the entry so reads never regress.
+          const confirmed = await this.send(entry);
+          await this.localStore.put(mirrorStores[entry.mutation.kind], confirmed);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (isTransient(error)) {
+            // The server is unreachable, so nothing behind this entry would get through either.
+            await this.update(entry.seq, { status: 'pending', error: message });
+            this.scheduleRetry();
+            return;
+          }
+          await this.update(entry.seq, { status: 'failed', error: message });
+          continue;
+        }
+        await this.localStore.remove("outbox", entry.seq);
+        this.setEntries(this.entries.filter(e => e.seq !== entry.seq));
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private send({ seq, mutation }: OutboxEntry) {
+    switch (mutation.kind) {
+      case 'adjustCount':
+        return this.sendCount(seq, mutation);
+      case 'createItem':
+        return this.remote.inventory.create(mutation.item);
+      case 'updateItem':
+        return this.remote.inventory.update(mutation.itemId, mutation.changes);
+      case 'createOrder':
+        return this.remote.orders.create(mutation.order);
+      case 'updateOrder':
+        return this.remote.orders.update(mutation.orderId, mutation.changes);
+      case 'recordMovement':
+        return this.remote.movements.record(mutation.movement);
+    }
+  }
+
+  // The server may have applied an attempt whose response never arrived, so the
+  // delta is turned into absolute totals once, before the first write, and
+  // every retry raises the counter to those same totals.
+  private async sendCount(seq: number, mutation: Extract<OutboxMutation, { kind: 'adjustCount' }>) {
+    let { totals } = mutation;
+    if (!totals) {
+      const current = await this.remote.inventory.countTotals(mutation.itemId, mutation.actor);
+      totals = addToTotals(current, mutation.delta);
+      await this.update(seq, { mutation: { ...mutation, totals } });
+    }
+    return this.remote.inventory.mergeCount(mutation.itemId, mutation.actor, totals);
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, RETRY_INTERVAL_MS);
+  }
+
+  private async update(seq: number, changes: Partial<OutboxEntry>) {
+    const entry = this.entries.find(e => e.seq === seq);
+    if (!entry) return;
+    const updated = { ...entry, ...changes };
+    await this.localStore.put("outbox", updated);
+    this.setEntries(this.entries.map(e => (e.seq === seq ? updated : e)));
+  }
+
+  private setEntries(entries: OutboxEntry[]) {
+    this.entries = entries;
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,57 @@
+import type { InventoryItem } from "./types";
+import { isLowStock } from "./replenishment";
+import type { User } from "./auth";
+
+export type Role = 'clerk' | 'shift_lead' | 'store_manager' | 'district_admin';
+
+export type Permission =
+  | 'inventory.view'
+  | 'inventory.count'
+  | 'inventory.adjust'
+  | 'inventory.manage'
+  | 'inventory.reorder'
+  | 'inventory.reorder.any'
+  | 'orders.view'
+  | 'orders.receive'
+  | 'orders.manage'
+  | 'merchandising.view'
+  | 'merchandising.manage'
+  | 'stores.switch';
+
+export const roles: Role[] = ['clerk', 'shift_lead', 'store_manager', 'district_admin'];
+
+export const roleLabels: Record<Role, string> = {
+  clerk: "Clerk",
+  shift_lead: "Shift Lead",
+  store_manager: "Store Manager",
+  district_admin: "District Admin",
+};
+
+// Each role inherits everything granted to the roles before it.
+const grants: Record<Role, Permission[]> = {
+  clerk: ['inventory.view', 'inventory.count', 'inventory.reorder', 'orders.view'],
+  shift_lead: ['inventory.adjust', 'inventory.reorder.any', 'orders.receive', 'orders.manage'],
+  store_manager: ['inventory.manage', 'merchandising.view', 'merchandising.manage'],
+  district_admin: ['stores.switch'],
+};
+
+export const permissionMatrix: Record<Role, Set<Permission>> = roles.reduce(
+  (matrix, role, index) => ({
+    ...matrix,
+    [role]: new Set(roles.slice(0, index + 1).flatMap(r => grants[r])),
+  }),
+  {} as Record<Role, Set<Permission>>
+);
+
+export const hasPermission = (role: Role | undefined, permission: Permission) =>
+  !!role && permissionMatrix[role].has(permission);
+
+// Clerks may only re-order items that have dropped to their reorder point;
+// re-ordering anything above it needs a shift lead or higher.
+export const canReorder = (role: Role | undefined, item: InventoryItem) =>
+  hasPermission(role, 'inventory.reorder.any') ||
+  (hasPermission(role, 'inventory.reorder') && isLowStock(item));
+
+// District admins can open any store; everyone else only the stores they're assigned to.
+export const canAccessStore = (user: User | null, storeId: string) =>
+  !!user && (hasPermission(user.role, 'stores.switch') || user.storeIds.includes(storeId));
@@ -0,0 +1,171 @@
+import type { InventoryItem } from "./types";
+
+// A run of identical product facing the aisle, as placed on a shelf.
+export interface PlanogramPosition {
+  itemId: string;
+  facings: number;
+}
+
+// Positions are listed left to right.
+export interface PlanogramShelf {
+  id: string;
+  positions: PlanogramPosition[];
+}
+
+// A gondola, cooler door or end cap. Shelves are listed top to bottom.
+export interface PlanogramFixture {
+  id: string;
+  name: string;
+  aisle?: string;
+  // Facings that fit across one shelf.
+  width: number;
+  shelves: PlanogramShelf[];
+}
+
+// One saved version of a planogram. Versions are never edited: saving writes
+// version + 1, so scans taken against an older layout can still be checked
+// against the layout that was live at the time.
+export interface Planogram {
+  id: string;
+  version: number;
+  name: string;
+  fixtures: PlanogramFixture[];
+  savedAt: string;
+  savedBy: string;
+  note?: string;
+}
+
+export const DEFAULT_SHELF_COUNT = 5;
+export const DEFAULT_FIXTURE_WIDTH = 12;
+
+export class PlanogramError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanogramError";
+  }
+}
+
+const shortId = () => crypto.randomUUID().slice(0, 8).toUpperCase();
+
+export const createShelf = (): PlanogramShelf => ({ id: `SH-${shortId()}`, positions: [] });
+
+export const createFixture = (
+  name: string,
+  {
+    aisle,
+    shelves = DEFAULT_SHELF_COUNT,
+    width = DEFAULT_FIXTURE_WIDTH,
+  }: { aisle?: string; shelves?: number; width?: number } = {}
+): PlanogramFixture => ({
+  id: `FX-${shortId()}`,
+  name,
+  aisle,
+  width,
+  shelves: Array.from({ length: shelves }, createShelf),
+});
+
+export const createPlanogram = (name: string, by: string): Planogram => ({
+  id: `PG-${shortId()}`,
+  version: 1,
+  name,
+  fixtures: [createFixture("Fixture 1")],
+  savedAt: new Date().toISOString(),
+  savedBy: by,
+});
+
+// Stamps an edited planogram as the version after the one it was based on.
+export const nextVersion = (planogram: Planogram, { by, note }: { by: string; note?: string }): Planogram => ({
+  ...planogram,
+  version: planogram.version + 1,
+  savedAt: new Date().toISOString(),
+  savedBy: by,
+  note: note || undefined,
+});
+
+// The highest version of each planogram, sorted by name.
+export function currentPlanograms(versions: Planogram[]) {
+  const latest = new Map<string, Planogram>();
+  versions.forEach(planogram => {
+    if ((latest.get(planogram.id)?.version ?? 0) < planogram.version) latest.set(planogram.id, planogram);
+  });
+  return Array.from(latest.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Every version of one planogram, newest first.
+export const versionsOf = (versions: Planogram[], id: string) =>
+  versions.filter(planogram => planogram.id === id).sort((a, b) => b.version - a.version);
+
+export const usedWidth = (shelf: PlanogramShelf) => shelf.positions.reduce((sum, position) => sum + position.facings, 0);
+
+export const facingCount = (planogram: Planogram) =>
+  planogram.fixtures.reduce(
+    (sum, fixture) => sum + fixture.shelves.reduce((shelfSum, shelf) => shelfSum + usedWidth(shelf), 0),
+    0
+  );
+
+// Problems that would make the layout impossible to set on the shop floor.
+export function validatePlanogram(planogram: Planogram, items: InventoryItem[]) {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const problems: string[] = [];
+  if (!planogram.name.trim()) problems.push("The planogram needs a name");
+
+  const names = new Set<string>();
+  planogram.fixtures.forEach(fixture => {
+    const label = fixture.name.trim() || "A fixture";
+    if (!fixture.name.trim()) problems.push("Every fixture needs a name");
+    else if (names.has(fixture.name.trim().toLowerCase())) problems.push(`${label} is used for two fixtures`);
+    names.add(fixture.name.trim().toLowerCase());
+    if (!Number.isInteger(fixture.width) || fixture.width < 1) problems.push(`${label} needs a width of at least 1 facing`);
+
+    fixture.shelves.forEach((shelf, index) => {
+      if (usedWidth(shelf) > fixture.width) {
+        problems.push(`${label}, shelf ${index + 1} holds ${usedWidth(shelf)} facings but fits ${fixture.width}`);
+      }
+      shelf.positions.forEach(({ itemId, facings }) => {
+        const item = byId.get(itemId);
+        if (!item) problems.push(`${label}, shelf ${index + 1}: ${itemId} is not in the catalog`);
+        else if (item.archived) problems.push(`${label}, shelf ${index + 1}: ${item.name} is archived`);
+        if (!Number.isInteger(facings) || facings < 1) {
+          problems.push(`${label}, shelf ${index + 1}: facings must be a whole number of at least 1`);
+        }
+      });
+    });
+  });
+  return problems;
+}
+
+// Layout edits. Each returns a new fixture and leaves the original untouched.
+
+const mapShelf = (fixture: PlanogramFixture, shelfId: string, update: (shelf: PlanogramShelf) => PlanogramShelf) => ({
+  ...fixture,
+  shelves: fixture.shelves.map(shelf => (shelf.id === shelfId ? update(shelf) : shelf)),
+});
+
+export const addPosition = (fixture: PlanogramFixture, shelfId: string, itemId: string, facings = 1) =>
+  mapShelf(fixture, shelfId, shelf => ({ ...shelf, positions: [...shelf.positions, { itemId, facings }] }));
+
+export const setFacings = (fixture: PlanogramFixture, shelfId: string, index: number, facings: number) =>
+  mapShelf(fixture, shelfId, shelf => ({
+    ...shelf,
+    positions: shelf.positions.map((position, i) => (i === index ? { ...position, facings } : position)),
+  }));
+
+export const removePosition = (fixture: PlanogramFixture, shelfId: string, index: number) =>
+  mapShelf(fixture, shelfId, shelf => ({ ...shelf, positions: shelf.positions.filter((_, i) => i !== index) }));
+
+// Swaps a position with its neighbour; `offset` is -1 for left, 1 for right.
+export const movePosition = (fixture: PlanogramFixture, shelfId: string, index: number, offset: -1 | 1) =>
+  mapShelf(fixture, shelfId, shelf => {
+    const target = index + offset;
+    if (target < 0 || target >= shelf.positions.length) return shelf;
+    const positions = [...shelf.positions];
+    [positions[index], positions[target]] = [positions[target], positions[index]];
+    return { ...shelf, positions };
+  });
+
+export const addShelf = (fixture: PlanogramFixture) => ({ ...fixture, shelves: [...fixture.shelves, createShelf()] });
+
+export const removeShelf = (fixture: PlanogramFixture, shelfId: string) => ({
+  ...fixture,
+  shelves: fixture.shelves.filter(shelf => shelf.id !== shelfId),
+});
@@ -0,0 +1,62 @@
+// Product photos are resized in the browser before upload: a display-sized
+// image for the item page and a small thumbnail for cards and tables, both
+// JPEG so a phone photo of a few megabytes ends up at a few hundred kilobytes.
+
+export type ImageVariant = 'image' | 'thumbnail';
+
+export type ProductImageFiles = Record<ImageVariant, Blob>;
+
+// Longest edge in pixels.
+const maxEdges: Record<ImageVariant, number> = {
+  image: 1200,
+  thumbnail: 320,
+};
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+
+function toJpeg(bitmap: ImageBitmap, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  // JPEG has no alpha, so transparent PNGs would otherwise turn black.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Couldn't encode the image"))),
+      "image/jpeg",
+      JPEG_QUALITY
+    )
+  );
+}
+
+export async function prepareProductImage(file: File): Promise<ProductImageFiles> {
+  if (!file.type.startsWith("image/")) throw new Error("Choose an image file");
+  if (file.size > MAX_UPLOAD_BYTES) throw new Error("Images must be smaller than 20 MB");
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error("The image couldn't be read");
+  }
+  try {
+    return {
+      image: await toJpeg(bitmap, maxEdges.image),
+      thumbnail: await toJpeg(bitmap, maxEdges.thumbnail),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Same form as Sync Gateway's attachment digests ("sha1-" + base64), so the
+// in-memory backend hands out keys that behave like the real ones.
+export async function blobDigest(blob: Blob) {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-1", await blob.arrayBuffer()));
+  return `sha1-${btoa(String.fromCharCode(...hash))}`;
+}
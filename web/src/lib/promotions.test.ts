@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "./types";
+import { dealUnitPrice, effectivePrice, Promotion } from "./promotions";
+
+const TODAY = "2024-06-15";
+
+const item: InventoryItem = {
+  id: "JUICE001",
+  name: "Apple Juice",
+  category: "Beverages",
+  image: "",
+  barcode: "",
+  price: 4.0,
+  count: 10,
+  reorderPoint: 5,
+  parLevel: 20,
+  packSize: 1,
+};
+
+let nextId = 1;
+const promotion = (changes: Partial<Promotion>): Promotion => ({
+  id: `PROMO-${nextId++}`,
+  name: "Promotion",
+  kind: 'percent_off',
+  value: 10,
+  targetType: 'item',
+  targets: [item.id],
+  startsOn: "2024-06-01",
+  createdAt: "2024-05-30T09:00:00.000Z",
+  createdBy: "manager",
+  ...changes,
+});
+
+describe("effectivePrice", () => {
+  it("is the catalog price when nothing applies", () => {
+    expect(effectivePrice(item, [], TODAY)).toEqual({ price: 4, regular: 4, deals: [] });
+  });
+
+  it("takes the latest price change in effect as the regular price", () => {
+    const older = promotion({ kind: 'price_change', value: 3.5, startsOn: "2024-05-01" });
+    const newer = promotion({ kind: 'price_change', value: 3.75, startsOn: "2024-06-10" });
+    const upcoming = promotion({ kind: 'price_change', value: 5, startsOn: "2024-07-01" });
+    const result = effectivePrice(item, [older, newer, upcoming], TODAY);
+    expect(result).toMatchObject({ price: 3.75, regular: 3.75, priceChange: newer });
+  });
+
+  it("breaks a tie between price changes on the same day by when they were entered", () => {
+    const first = promotion({ kind: 'price_change', value: 3, createdAt: "2024-05-30T09:00:00.000Z" });
+    const second = promotion({ kind: 'price_change', value: 3.25, createdAt: "2024-05-30T10:00:00.000Z" });
+    expect(effectivePrice(item, [second, first], TODAY).priceChange).toBe(second);
+  });
+
+  it("discounts from the regular price, taking the cheapest discount", () => {
+    const priceChange = promotion({ kind: 'price_change', value: 5 });
+    const percent = promotion({ kind: 'percent_off', value: 10 });
+    const amount = promotion({ kind: 'amount_off', value: 1 });
+    const result = effectivePrice(item, [priceChange, percent, amount], TODAY);
+    expect(result).toMatchObject({ price: 4, regular: 5, discount: amount });
+  });
+
+  it("rounds discounts to the cent and never below zero", () => {
+    expect(effectivePrice({ ...item, price: 3.99 }, [promotion({ value: 15 })], TODAY).price).toBe(3.39);
+    expect(effectivePrice(item, [promotion({ kind: 'amount_off', value: 10 })], TODAY).price).toBe(0);
+  });
+
+  it("applies category promotions to every item in the category", () => {
+    const categorySale = promotion({ targetType: 'category', targets: ["Beverages"], value: 25 });
+    expect(effectivePrice(item, [categorySale], TODAY).price).toBe(3);
+    expect(effectivePrice({ ...item, category: "Snacks" }, [categorySale], TODAY).price).toBe(4);
+  });
+
+  it("ignores promotions that are scheduled, ended or cancelled", () => {
+    const promotions = [
+      promotion({ startsOn: "2024-06-16" }),
+      promotion({ endsOn: "2024-06-14" }),
+      promotion({ cancelledAt: "2024-06-02T09:00:00.000Z", cancelledBy: "manager" }),
+    ];
+    expect(effectivePrice(item, promotions, TODAY).price).toBe(4);
+  });
+
+  it("runs through the last day inclusive", () => {
+    expect(effectivePrice(item, [promotion({ endsOn: TODAY })], TODAY).price).toBe(3.6);
+  });
+
+  it("lists deals without changing the single-unit price", () => {
+    const multiBuy = promotion({ kind: 'multi_buy', value: 7, quantity: 2 });
+    const bogo = promotion({ kind: 'bogo', value: 100, quantity: 1, getQuantity: 1 });
+    const result = effectivePrice(item, [multiBuy, bogo], TODAY);
+    expect(result.price).toBe(4);
+    expect(result.deals).toEqual([multiBuy, bogo]);
+  });
+});
+
+describe("dealUnitPrice", () => {
+  it("spreads the deal over the units bought", () => {
+    expect(dealUnitPrice(promotion({ kind: 'multi_buy', value: 10, quantity: 3 }), 4)).toBe(3.33);
+    expect(dealUnitPrice(promotion({ kind: 'bogo', value: 50, quantity: 1, getQuantity: 1 }), 4)).toBe(3);
+  });
+});
@@ -0,0 +1,251 @@
+import { z } from "zod";
+import type { InventoryItem } from "./types";
+import { toDateKey } from "./forecasting";
+
+// price_change replaces the shelf price from its start date; percent_off and
+// amount_off discount single units; multi_buy and bogo only apply at the till
+// when enough units are bought together.
+export type PromotionKind = 'price_change' | 'percent_off' | 'amount_off' | 'multi_buy' | 'bogo';
+
+export const promotionKindLabels: Record<PromotionKind, string> = {
+  price_change: "Price change",
+  percent_off: "Percent off",
+  amount_off: "Amount off",
+  multi_buy: "Multi-buy",
+  bogo: "Buy X get Y",
+};
+
+export type PromotionTargetType = 'item' | 'category';
+
+export type PromotionStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+export const promotionStatusLabels: Record<PromotionStatus, string> = {
+  scheduled: "Scheduled",
+  active: "Active",
+  ended: "Ended",
+  cancelled: "Cancelled",
+};
+
+export interface Promotion {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  // The new price for price_change, the percentage for percent_off, dollars off
+  // for amount_off, the bundle price for multi_buy and the percentage off the
+  // extra units for bogo (100 for free).
+  value: number;
+  // Units in the bundle for multi_buy, units to buy for bogo.
+  quantity?: number;
+  // Units discounted for bogo.
+  getQuantity?: number;
+  targetType: PromotionTargetType;
+  // Item ids or category names, depending on targetType.
+  targets: string[];
+  // YYYY-MM-DD in the store's local time, both inclusive. Price changes have no end.
+  startsOn: string;
+  endsOn?: string;
+  createdAt: string;
+  createdBy: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+}
+
+export interface EffectivePrice {
+  // The price a single unit sells for today.
+  price: number;
+  // The shelf price before discounts: the catalog price, or the latest price change in effect.
+  regular: number;
+  priceChange?: Promotion;
+  // The discount that set `price`, when one beats the regular price.
+  discount?: Promotion;
+  // Multi-buy and bogo deals the item qualifies for today.
+  deals: Promotion[];
+}
+
+export const isDeal = (promotion: Promotion) => promotion.kind === 'multi_buy' || promotion.kind === 'bogo';
+
+export function promotionStatus(promotion: Promotion, today = toDateKey(new Date())): PromotionStatus {
+  if (promotion.cancelledAt) return 'cancelled';
+  if (promotion.startsOn > today) return 'scheduled';
+  if (promotion.endsOn && promotion.endsOn < today) return 'ended';
+  return 'active';
+}
+
+export const appliesTo = (promotion: Promotion, item: InventoryItem) =>
+  promotion.targets.includes(promotion.targetType === 'item' ? item.id : item.category);
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const discounted = (promotion: Promotion, price: number) => {
+  if (promotion.kind === 'percent_off') return roundCents(price * (1 - promotion.value / 100));
+  if (promotion.kind === 'amount_off') return Math.max(0, roundCents(price - promotion.value));
+  return price;
+};
+
+// Resolves what an item sells for on a given day. Of several price changes the
+// one that started last wins; of several discounts the cheapest wins, as they
+// don't stack.
+export function effectivePrice(
+  item: InventoryItem,
+  promotions: Promotion[],
+  today = toDateKey(new Date())
+): EffectivePrice {
+  const live = promotions.filter(p => promotionStatus(p, today) === 'active' && appliesTo(p, item));
+  const priceChange = live
+    .filter(p => p.kind === 'price_change')
+    .sort((a, b) => b.startsOn.localeCompare(a.startsOn) || b.createdAt.localeCompare(a.createdAt))[0];
+  const regular = priceChange ? priceChange.value : item.price;
+
+  let price = regular;
+  let discount: Promotion | undefined;
+  live.forEach(promotion => {
+    const candidate = discounted(promotion, regular);
+    if (candidate < price) {
+      price = candidate;
+      discount = promotion;
+    }
+  });
+
+  return { price, regular, priceChange, discount, deals: live.filter(isDeal) };
+}
+
+// What each unit costs when a deal's full quantity is bought at `price`.
+export function dealUnitPrice(promotion: Promotion, price: number) {
+  if (promotion.kind === 'multi_buy') return roundCents(promotion.value / promotion.quantity);
+  if (promotion.kind === 'bogo') {
+    const { quantity, getQuantity, value } = promotion;
+    return roundCents((price * quantity + price * getQuantity * (1 - value / 100)) / (quantity + getQuantity));
+  }
+  return price;
+}
+
+// e.g. "Now $24.99", "15% off", "2 for $30.00", "Buy 1 get 1 free"
+export function describePromotion(promotion: Promotion) {
+  const { kind, value, quantity, getQuantity } = promotion;
+  switch (kind) {
+    case 'price_change':
+      return `Now $${value.toFixed(2)}`;
+    case 'percent_off':
+      return `${value}% off`;
+    case 'amount_off':
+      return `$${value.toFixed(2)} off`;
+    case 'multi_buy':
+      return `${quantity} for $${value.toFixed(2)}`;
+    case 'bogo':
+      return `Buy ${quantity} get ${getQuantity} ${value === 100 ? "free" : `${value}% off`}`;
+  }
+}
+
+// Promotions shown first in lists: running ones, then upcoming, then past.
+const statusOrder: Record<PromotionStatus, number> = { active: 0, scheduled: 1, ended: 2, cancelled: 3 };
+
+export const sortPromotions = (promotions: Promotion[], today = toDateKey(new Date())) =>
+  [...promotions].sort(
+    (a, b) =>
+      statusOrder[promotionStatus(a, today)] - statusOrder[promotionStatus(b, today)] ||
+      a.startsOn.localeCompare(b.startsOn) ||
+      a.name.localeCompare(b.name)
+  );
+
+const money = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be more than zero`)
+    .refine(
+      amount => Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6,
+      `${label} can't have fractions of a cent`
+    );
+
+const percent = (label: string, max: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be more than zero`)
+    .max(max, `${label} can't be more than ${max}%`);
+
+const units = (label: string, min: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(min, `${label} must be at least ${min}`);
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date");
+
+export const promotionFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(80, "Name must be 80 characters or fewer"),
+    kind: z.enum(['price_change', 'percent_off', 'amount_off', 'multi_buy', 'bogo']),
+    value: z.coerce.number({ invalid_type_error: "Enter a number" }),
+    quantity: z.coerce.number({ invalid_type_error: "Enter a number" }),
+    getQuantity: z.coerce.number({ invalid_type_error: "Enter a number" }),
+    targetType: z.enum(['item', 'category']),
+    targets: z.array(z.string()).min(1, "Pick at least one item or category"),
+    startsOn: dateKey,
+    endsOn: z.union([dateKey, z.literal("")]),
+  })
+  .superRefine((values, ctx) => {
+    const check = (path: 'value' | 'quantity' | 'getQuantity', schema: z.ZodTypeAny) => {
+      const result = schema.safeParse(values[path]);
+      if (!result.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: result.error.issues[0].message });
+      }
+    };
+    switch (values.kind) {
+      case 'price_change':
+        check("value", money("New price"));
+        break;
+      case 'percent_off':
+        check("value", percent("Discount", 99));
+        break;
+      case 'amount_off':
+        check("value", money("Discount"));
+        break;
+      case 'multi_buy':
+        check("value", money("Bundle price"));
+        check("quantity", units("Bundle size", 2));
+        break;
+      case 'bogo':
+        check("value", percent("Discount", 100));
+        check("quantity", units("Buy quantity", 1));
+        check("getQuantity", units("Get quantity", 1));
+        break;
+    }
+    // A category-wide absolute price would flatten every item in it to one price.
+    if (values.kind === 'price_change' && values.targetType !== 'item') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["targetType"], message: "Price changes apply to items" });
+    }
+    if (values.kind === 'price_change' && values.endsOn) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsOn"], message: "Price changes stay until replaced" });
+    }
+    if (values.endsOn && values.endsOn < values.startsOn) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsOn"], message: "Ends before it starts" });
+    }
+  });
+
+export type PromotionFormValues = z.infer<typeof promotionFormSchema>;
+
+export const defaultPromotionValues = (): PromotionFormValues => ({
+  name: "",
+  kind: 'percent_off',
+  value: 10,
+  quantity: 2,
+  getQuantity: 1,
+  targetType: 'item',
+  targets: [],
+  startsOn: toDateKey(new Date()),
+  endsOn: "",
+});
+
+export const toPromotion = (values: PromotionFormValues, by: string): Promotion => ({
+  id: `PR-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+  name: values.name,
+  kind: values.kind,
+  value: values.value,
+  quantity: values.kind === 'multi_buy' || values.kind === 'bogo' ? values.quantity : undefined,
+  getQuantity: values.kind === 'bogo' ? values.getQuantity : undefined,
+  targetType: values.targetType,
+  targets: values.targets,
+  startsOn: values.startsOn,
+  endsOn: values.endsOn || undefined,
+  createdAt: new Date().toISOString(),
+  createdBy: by,
+});
@@ -0,0 +1,55 @@
+export const storeKeys = {
+  all: ["stores"] as const,
+};
+
+export const inventoryKeys = {
+  all: ["inventory"] as const,
+  store: (storeId: string) => ["inventory", storeId] as const,
+};
+
+export const orderKeys = {
+  all: ["orders"] as const,
+  store: (storeId: string) => ["orders", storeId] as const,
+};
+
+export const historyKeys = {
+  all: ["history"] as const,
+  store: (storeId: string) => ["history", storeId] as const,
+};
+
+export const movementKeys = {
+  all: ["movements"] as const,
+  store: (storeId: string) => ["movements", storeId] as const,
+};
+
+export const planogramKeys = {
+  all: ["planograms"] as const,
+  store: (storeId: string) => ["planograms", storeId] as const,
+};
+
+export const shelfScanKeys = {
+  all: ["shelfScans"] as const,
+  store: (storeId: string) => ["shelfScans", storeId] as const,
+  photo: (scanId: string) => ["shelfScans", "photo", scanId] as const,
+};
+
+export const promotionKeys = {
+  all: ["promotions"] as const,
+  store: (storeId: string) => ["promotions", storeId] as const,
+};
+
+export const vendorKeys = {
+  all: ["vendors"] as const,
+  store: (storeId: string) => ["vendors", storeId] as const,
+};
+
+// Image content is addressed by digest, so it's cached across stores.
+export const productImageKeys = {
+  all: ["productImages"] as const,
+  digest: (digest: string) => ["productImages", digest] as const,
+};
+
+export const cycleCountKeys = {
+  all: ["cycleCounts"] as const,
+  store: (storeId: string) => ["cycleCounts", storeId] as const,
+};
@@ -0,0 +1,35 @@
+import type { Order, OrderStatus } from "./types";
+import { canTransition, transitionOrder } from "./orderLifecycle";
+
+export class ReceivingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceivingError";
+  }
+}
+
+export const receivingStatuses: OrderStatus[] = ['partially_received', 'received'];
+
+export const outstandingQuantity = (order: Order) => Math.max(0, order.count - order.receivedCount);
+
+export const canReceive = (order: Order) => receivingStatuses.some(status => canTransition(order.status, status));
+
+// A delivery that doesn't match what is still outstanding needs an explanation.
+export const isDiscrepancy = (order: Order, quantity: number) => quantity !== outstandingQuantity(order);
+
+// Records a delivery against the order. Receiving everything outstanding (or
+// more) completes the order; anything less leaves it partially received.
+export function receiveOrder(order: Order, quantity: number, { by, note }: { by?: string; note?: string } = {}): Order {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new ReceivingError("Received quantity must be a whole number greater than zero");
+  }
+  if (isDiscrepancy(order, quantity) && !note?.trim()) {
+    throw new ReceivingError("Add a note explaining the difference from the outstanding quantity");
+  }
+
+  const receivedCount = order.receivedCount + quantity;
+  const status: OrderStatus = receivedCount >= order.count ? 'received' : 'partially_received';
+  const next = transitionOrder(order, status, { by, note: note?.trim() || undefined });
+  next.history[next.history.length - 1].quantity = quantity;
+  return { ...next, receivedCount };
+}
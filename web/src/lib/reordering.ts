@@ -0,0 +1,64 @@
+import type { InventoryItem, Order, OrderStatus, OrderUrgency } from "./types";
+import { isOpenOrder } from "./orderLifecycle";
+import { createPurchaseOrderId, Vendor } from "./vendors";
+
+export const orderUrgencies: OrderUrgency[] = ['routine', 'urgent', 'emergency'];
+
+export const orderUrgencyLabels: Record<OrderUrgency, string> = {
+  routine: "Routine",
+  urgent: "Urgent",
+  emergency: "Emergency",
+};
+
+export class DuplicateOrderError extends Error {
+  constructor(readonly existing: Order) {
+    super(`${existing.itemName} already has an open order (${existing.id})`);
+    this.name = "DuplicateOrderError";
+  }
+}
+
+export interface ReorderRequest {
+  quantity: number;
+  // A free-text supplier, for items bought outside the vendor list.
+  supplier?: string;
+  vendor?: Vendor;
+  urgency: OrderUrgency;
+  notes?: string;
+}
+
+// Only one order per item may be in flight; a second one would double the delivery.
+export const findOpenOrder = (orders: Order[], itemId: string) =>
+  orders.find(order => order.itemId === itemId && isOpenOrder(order));
+
+// Open orders keyed by item, for showing "on order" state on inventory cards.
+export const openOrdersByItem = (orders: Order[]) =>
+  new Map(orders.filter(isOpenOrder).map(order => [order.itemId, order]));
+
+// Order ids are minted on the device that places the order, possibly offline,
+// so they need to be unique without asking the server.
+export const createOrderId = () => `ORD-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+
+// An order placed straight away goes out as a PO of its own; drafts get one
+// when their vendor's PO is submitted.
+export function buildReorder(
+  item: InventoryItem,
+  { quantity, supplier, vendor, urgency, notes }: ReorderRequest,
+  { by, status = 'submitted' }: { by?: string; status?: Extract<OrderStatus, 'draft' | 'submitted'> } = {}
+): Order {
+  const at = new Date().toISOString();
+  return {
+    id: createOrderId(),
+    itemName: item.name,
+    itemId: item.id,
+    count: quantity,
+    receivedCount: 0,
+    status,
+    date: at.slice(0, 10),
+    history: [{ status, at, by, note: notes }],
+    supplier: vendor?.name ?? (supplier || undefined),
+    vendorId: vendor?.id,
+    purchaseOrderId: status === 'submitted' ? createPurchaseOrderId() : undefined,
+    urgency,
+    notes: notes || undefined,
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem, Order } from "./types";
+import type { Forecast } from "./forecasting";
+import { crossedReorderPoint, onOrderQuantity, proposeOrders, stockLevel, suggestOrderQuantity } from "./replenishment";
+
+const item = (id: string, count: number, changes: Partial<InventoryItem> = {}): InventoryItem => ({
+  id,
+  name: id,
+  category: "Produce",
+  image: "",
+  barcode: "",
+  price: 1,
+  count,
+  reorderPoint: 10,
+  parLevel: 30,
+  packSize: 1,
+  ...changes,
+});
+
+const order = (itemId: string, count: number, changes: Partial<Order> = {}): Order => ({
+  id: `ORD-${itemId}`,
+  itemName: itemId,
+  itemId,
+  count,
+  receivedCount: 0,
+  status: 'submitted',
+  date: "2024-01-15",
+  history: [],
+  ...changes,
+});
+
+describe("stockLevel", () => {
+  it("is low at or below the reorder point and below par until par is reached", () => {
+    expect(stockLevel(item("A", 10))).toBe('low');
+    expect(stockLevel(item("A", 11))).toBe('below_par');
+    expect(stockLevel(item("A", 30))).toBe('healthy');
+  });
+});
+
+describe("suggestOrderQuantity", () => {
+  it("orders back up to par once the reorder point is reached", () => {
+    expect(suggestOrderQuantity(item("A", 4))).toBe(26);
+    expect(suggestOrderQuantity(item("A", 11))).toBe(0);
+  });
+
+  it("rounds up to whole packs", () => {
+    expect(suggestOrderQuantity(item("A", 4, { packSize: 12 }))).toBe(36);
+  });
+
+  it("counts what is already on order", () => {
+    expect(suggestOrderQuantity(item("A", 4), 10)).toBe(0);
+    expect(suggestOrderQuantity(item("A", 4), 5)).toBe(21);
+  });
+});
+
+describe("onOrderQuantity", () => {
+  it("sums what is still outstanding on the item's open orders", () => {
+    const orders = [
+      order("A", 12, { receivedCount: 5, status: 'partially_received' }),
+      order("A", 6, { status: 'received', receivedCount: 6 }),
+      order("A", 8, { status: 'cancelled' }),
+      order("B", 20),
+    ];
+    expect(onOrderQuantity(orders, "A")).toBe(7);
+  });
+});
+
+describe("proposeOrders", () => {
+  it("suggests orders for items that need them, emptiest first", () => {
+    const suggestions = proposeOrders([item("A", 8), item("B", 2), item("C", 25)], []);
+    expect(suggestions.map(({ item, quantity }) => [item.id, quantity])).toEqual([
+      ["B", 28],
+      ["A", 22],
+    ]);
+  });
+
+  it("points at an open order that won't cover the shortfall", () => {
+    const open = order("A", 2);
+    const [suggestion] = proposeOrders([item("A", 3)], [open]);
+    expect(suggestion).toMatchObject({ onOrder: 2, quantity: 25, openOrder: open });
+  });
+
+  it("takes the quantity from the forecast when there is one", () => {
+    const forecasts = new Map([["A", { suggestedQuantity: 40 } as Forecast]]);
+    expect(proposeOrders([item("A", 8), item("B", 25)], [], forecasts)[0].quantity).toBe(40);
+  });
+});
+
+describe("crossedReorderPoint", () => {
+  it("only fires on the change that takes the count to the reorder point", () => {
+    expect(crossedReorderPoint(item("A", 10), 11)).toBe(true);
+    expect(crossedReorderPoint(item("A", 9), 10)).toBe(false);
+    expect(crossedReorderPoint(item("A", 12), 14)).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import type { InventoryItem, Order } from "./types";
+import type { Forecast } from "./forecasting";
+import { isOpenOrder } from "./orderLifecycle";
+import { outstandingQuantity } from "./receiving";
+
+// Used for items synced before replenishment settings existed.
+export const DEFAULT_REORDER_POINT = 10;
+export const DEFAULT_PAR_LEVEL = 24;
+export const DEFAULT_PACK_SIZE = 1;
+
+export type StockLevel = 'low' | 'below_par' | 'healthy';
+
+export const stockLevel = (item: InventoryItem): StockLevel => {
+  if (item.count <= item.reorderPoint) return 'low';
+  if (item.count < item.parLevel) return 'below_par';
+  return 'healthy';
+};
+
+export const isLowStock = (item: InventoryItem) => stockLevel(item) === 'low';
+
+export const stockLevelColors: Record<StockLevel, string> = {
+  low: "text-destructive font-bold",
+  below_par: "text-warning font-semibold",
+  healthy: "text-success font-semibold",
+};
+
+// Units already ordered for the item that haven't arrived yet.
+export const onOrderQuantity = (orders: Order[], itemId: string) =>
+  orders
+    .filter(order => order.itemId === itemId && isOpenOrder(order))
+    .reduce((total, order) => total + outstandingQuantity(order), 0);
+
+const roundUpToPack = (quantity: number, packSize: number) => {
+  const pack = Math.max(1, packSize);
+  return Math.ceil(quantity / pack) * pack;
+};
+
+// Order-up-to-par: once stock plus what's already on order is at or below the
+// reorder point, order enough whole packs to get back to par.
+export const suggestOrderQuantity = (item: InventoryItem, onOrder = 0) => {
+  const position = item.count + onOrder;
+  if (position > item.reorderPoint) return 0;
+  return roundUpToPack(Math.max(0, item.parLevel - position), item.packSize);
+};
+
+export interface SuggestedOrder {
+  item: InventoryItem;
+  onOrder: number;
+  quantity: number;
+  // Set when an order is already in flight but won't cover the shortfall;
+  // that order needs topping up rather than a second one being placed.
+  openOrder?: Order;
+}
+
+// Items that still need ordering once open orders are counted, lowest stock
+// first. The reorder point decides *whether* to order; a demand forecast, when
+// there is one, decides *how much*, falling back to topping up to par.
+export const proposeOrders = (
+  items: InventoryItem[],
+  orders: Order[],
+  forecasts: Map<string, Forecast> = new Map()
+): SuggestedOrder[] =>
+  items
+    .map(item => {
+      const onOrder = onOrderQuantity(orders, item.id);
+      const openOrder = orders.find(order => order.itemId === item.id && isOpenOrder(order));
+      const parQuantity = suggestOrderQuantity(item, onOrder);
+      const quantity = parQuantity > 0 ? forecasts.get(item.id)?.suggestedQuantity || parQuantity : 0;
+      return { item, onOrder, openOrder, quantity };
+    })
+    .filter(suggestion => suggestion.quantity > 0)
+    .sort((a, b) => a.item.count / Math.max(1, a.item.parLevel) - b.item.count / Math.max(1, b.item.parLevel));
+
+// A decrement that takes the item to its reorder point is what triggers an auto-draft.
+export const crossedReorderPoint = (item: InventoryItem, previousCount: number) =>
+  previousCount > item.reorderPoint && item.count <= item.reorderPoint;
+
+const autoDraftKey = (storeId: string) => `inventory-pro.auto-draft.${storeId}`;
+
+// Whether this device drafts an order by itself when a count crosses the reorder point.
+export const isAutoDraftEnabled = (storeId: string) => localStorage.getItem(autoDraftKey(storeId)) === "true";
+
+export const setAutoDraftEnabled = (storeId: string, enabled: boolean) =>
+  localStorage.setItem(autoDraftKey(storeId), String(enabled));
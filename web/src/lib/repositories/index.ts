@@ -0,0 +1,46 @@
+import { syncGatewayConfig } from "@/lib/config";
+import { SyncGatewayClient } from "@/lib/syncGateway";
+import { createLocalStore } from "@/lib/localStore";
+import type { Store } from "@/lib/types";
+import { createMemoryRepositories, MemoryStoreRepository } from "./memory";
+import { createSyncGatewayRepositories, SyncGatewayStoreRepository } from "./syncGateway";
+import { createOfflineRepositories } from "./offline";
+import type { Repositories, RepositoryRegistry, StoreRepository } from "./types";
+
+export * from "./types";
+export * from "./memory";
+export * from "./syncGateway";
+export * from "./offline";
+
+// Repositories are created once per store and reused, so switching stores
+// back and forth never starts a second outbox replaying the same queue.
+export function createRegistry(
+  stores: StoreRepository,
+  create: (store: Store) => Repositories
+): RepositoryRegistry {
+  const byStore = new Map<string, Repositories>();
+  return {
+    stores,
+    forStore(store) {
+      if (!byStore.has(store.id)) byStore.set(store.id, create(store));
+      return byStore.get(store.id);
+    },
+  };
+}
+
+// Falls back to the in-memory seed data when no Sync Gateway is configured so
+// the demo still runs with a plain `npm run dev`. Sync Gateway writes go
+// through the IndexedDB outbox so counts survive flaky store Wi-Fi.
+export function createRepositoryRegistry(): RepositoryRegistry {
+  if (!syncGatewayConfig) {
+    return createRegistry(new MemoryStoreRepository(), createMemoryRepositories);
+  }
+
+  const client = new SyncGatewayClient(syncGatewayConfig);
+  return createRegistry(new SyncGatewayStoreRepository(client), store =>
+    createOfflineRepositories(
+      createSyncGatewayRepositories(client, store),
+      createLocalStore(`inventory-pro-${store.id}`)
+    )
+  );
+}
@@ -0,0 +1,312 @@
+import type { CountSnapshot, InventoryItem, ItemDetails, ItemPhoto, Movement, Order, Store } from "@/lib/types";
+import {
+  inventoryData,
+  ordersData,
+  seedCountHistory,
+  seedInventory,
+  seedOrders,
+  storesData,
+  vendorsData,
+} from "@/lib/mockData";
+import { adjust, createCounter, PNCounter } from "@/lib/crdt";
+import { toSnapshots } from "@/lib/forecasting";
+import type { CycleCountSession } from "@/lib/cycleCount";
+import { blobDigest, ImageVariant, ProductImageFiles } from "@/lib/productImages";
+import { Planogram, PlanogramError } from "@/lib/planogram";
+import type { Promotion } from "@/lib/promotions";
+import type { ShelfScan } from "@/lib/compliance";
+import type { Vendor } from "@/lib/vendors";
+import type {
+  CountHistoryRepository,
+  CycleCountRepository,
+  InventoryRepository,
+  InventoryWatcher,
+  MovementRepository,
+  OrderRepository,
+  PlanogramRepository,
+  PromotionRepository,
+  ProductImageRepository,
+  Repositories,
+  ShelfScanRepository,
+  StoreRepository,
+  VendorRepository,
+} from "./types";
+
+const snapshotKey = ({ itemId, date }: CountSnapshot) => `${itemId}:${date}`;
+
+// In-memory repositories keep the app usable without a Sync Gateway and give
+// tests a deterministic backend. Every read returns a copy so callers can't
+// mutate the store behind the repository's back.
+export class MemoryInventoryRepository implements InventoryRepository {
+  private items: Map<string, InventoryItem>;
+  private counters: Map<string, PNCounter>;
+  private watchers = new Set<InventoryWatcher>();
+
+  constructor(seed: InventoryItem[] = inventoryData) {
+    this.items = new Map(seed.map(item => [item.id, { ...item }]));
+    this.counters = new Map(seed.map(item => [item.id, createCounter(item.count)]));
+  }
+
+  async list() {
+    return Array.from(this.items.values(), item => ({ ...item }));
+  }
+
+  async get(id: string) {
+    const item = this.items.get(id);
+    return item && { ...item };
+  }
+
+  async create(item: InventoryItem) {
+    if (this.items.has(item.id)) throw new Error(`Inventory item ${item.id} already exists`);
+
+    this.items.set(item.id, { ...item });
+    this.counters.set(item.id, createCounter(item.count));
+    this.notify(item);
+    return { ...item };
+  }
+
+  async update(id: string, changes: Partial<ItemDetails>) {
+    const item = this.items.get(id);
+    if (!item) throw new Error(`Inventory item ${id} not found`);
+
+    const updated = { ...item, ...changes };
+    this.items.set(id, updated);
+    this.notify(updated);
+    return { ...updated };
+  }
+
+  // Photos aren't catalog details; only the image repository sets them.
+  async setPhoto(id: string, photo: ItemPhoto | undefined) {
+    const item = this.items.get(id);
+    if (!item) throw new Error(`Inventory item ${id} not found`);
+
+    const updated = { ...item, photo };
+    this.items.set(id, updated);
+    this.notify(updated);
+    return { ...updated };
+  }
+
+  async adjustCount(id: string, delta: number, actor: string) {
+    const item = this.items.get(id);
+    if (!item) throw new Error(`Inventory item ${id} not found`);
+
+    const counter = adjust(this.counters.get(id), actor, delta);
+    this.counters.set(id, counter);
+    const updated = { ...item, count: counter.value };
+    this.items.set(id, updated);
+    this.notify(updated);
+    return { ...updated };
+  }
+
+  private notify(item: InventoryItem) {
+    this.watchers.forEach(watcher => watcher.onChanges([{ id: item.id, item: { ...item } }]));
+  }
+
+  watch(watcher: InventoryWatcher) {
+    this.watchers.add(watcher);
+    watcher.onStatus('live');
+    return () => {
+      this.watchers.delete(watcher);
+    };
+  }
+}
+
+// Keeps uploaded photos by digest for the life of the page.
+export class MemoryProductImageRepository implements ProductImageRepository {
+  private blobs = new Map<string, Blob>();
+
+  constructor(private readonly inventory: MemoryInventoryRepository) {}
+
+  async get(itemId: string, variant: ImageVariant, digest: string) {
+    const blob = this.blobs.get(digest);
+    if (!blob) throw new Error(`No ${variant} stored for ${itemId}`);
+    return blob;
+  }
+
+  async save(itemId: string, files: ProductImageFiles) {
+    const [image, thumbnail] = await Promise.all([blobDigest(files.image), blobDigest(files.thumbnail)]);
+    this.blobs.set(image, files.image);
+    this.blobs.set(thumbnail, files.thumbnail);
+    return this.inventory.setPhoto(itemId, { image, thumbnail });
+  }
+
+  remove(itemId: string) {
+    return this.inventory.setPhoto(itemId, undefined);
+  }
+}
+
+export class MemoryOrderRepository implements OrderRepository {
+  private orders: Map<string, Order>;
+
+  constructor(seed: Order[] = ordersData) {
+    this.orders = new Map(seed.map(order => [order.id, { ...order }]));
+  }
+
+  async list() {
+    return Array.from(this.orders.values(), order => ({ ...order }));
+  }
+
+  async create(order: Order) {
+    if (this.orders.has(order.id)) throw new Error(`Order ${order.id} already exists`);
+
+    this.orders.set(order.id, { ...order });
+    return { ...order };
+  }
+
+  async update(id: string, changes: Partial<Omit<Order, 'id'>>) {
+    const order = this.orders.get(id);
+    if (!order) throw new Error(`Order ${id} not found`);
+
+    const updated = { ...order, ...changes };
+    this.orders.set(id, updated);
+    return { ...updated };
+  }
+}
+
+export class MemoryStoreRepository implements StoreRepository {
+  constructor(private readonly stores: Store[] = storesData) {}
+
+  async list() {
+    return this.stores.map(store => ({ ...store }));
+  }
+}
+
+export class MemoryMovementRepository implements MovementRepository {
+  private movements: Movement[] = [];
+
+  async list(itemId?: string) {
+    return this.movements.filter(m => !itemId || m.itemId === itemId).map(m => ({ ...m }));
+  }
+
+  async record(movement: Movement) {
+    if (this.movements.some(m => m.id === movement.id)) throw new Error(`Movement ${movement.id} already recorded`);
+
+    this.movements.push({ ...movement });
+    return { ...movement };
+  }
+}
+
+export class MemoryCountHistoryRepository implements CountHistoryRepository {
+  private snapshots: Map<string, CountSnapshot>;
+
+  constructor(seed: CountSnapshot[] = []) {
+    this.snapshots = new Map(seed.map(snapshot => [snapshotKey(snapshot), snapshot]));
+  }
+
+  async list() {
+    return Array.from(this.snapshots.values(), snapshot => ({ ...snapshot }));
+  }
+
+  async record(items: InventoryItem[]) {
+    toSnapshots(items).forEach(snapshot => this.snapshots.set(snapshotKey(snapshot), snapshot));
+  }
+}
+
+export class MemoryCycleCountRepository implements CycleCountRepository {
+  private sessions = new Map<string, CycleCountSession>();
+
+  async list() {
+    return Array.from(this.sessions.values(), session => structuredClone(session));
+  }
+
+  async save(session: CycleCountSession) {
+    this.sessions.set(session.id, structuredClone(session));
+    return structuredClone(session);
+  }
+}
+
+export class MemoryPlanogramRepository implements PlanogramRepository {
+  private versions = new Map<string, Planogram>();
+
+  async list() {
+    return Array.from(this.versions.values(), planogram => structuredClone(planogram));
+  }
+
+  async save(planogram: Planogram) {
+    const key = `${planogram.id}::v${planogram.version}`;
+    if (this.versions.has(key)) throw new PlanogramError(`Version ${planogram.version} was already saved`);
+
+    this.versions.set(key, structuredClone(planogram));
+    return structuredClone(planogram);
+  }
+}
+
+// Scans only come from the mobile apps, so without a Sync Gateway there are none
+// unless a test seeds some.
+export class MemoryShelfScanRepository implements ShelfScanRepository {
+  constructor(private readonly scans: ShelfScan[] = [], private readonly photos = new Map<string, Blob>()) {}
+
+  async list() {
+    return this.scans.map(scan => structuredClone(scan));
+  }
+
+  async photo(scanId: string) {
+    const photo = this.photos.get(scanId);
+    if (!photo) throw new Error(`Scan ${scanId} has no photo`);
+    return photo;
+  }
+}
+
+export class MemoryPromotionRepository implements PromotionRepository {
+  private promotions = new Map<string, Promotion>();
+
+  async list() {
+    return Array.from(this.promotions.values(), promotion => structuredClone(promotion));
+  }
+
+  async create(promotion: Promotion) {
+    if (this.promotions.has(promotion.id)) throw new Error(`Promotion ${promotion.id} already exists`);
+    this.promotions.set(promotion.id, structuredClone(promotion));
+    return structuredClone(promotion);
+  }
+
+  async update(id: string, changes: Partial<Omit<Promotion, 'id'>>) {
+    const promotion = this.promotions.get(id);
+    if (!promotion) throw new Error(`Promotion ${id} not found`);
+    const updated = { ...promotion, ...changes };
+    this.promotions.set(id, updated);
+    return structuredClone(updated);
+  }
+}
+
+export class MemoryVendorRepository implements VendorRepository {
+  private vendors: Map<string, Vendor>;
+
+  constructor(seed: Vendor[] = []) {
+    this.vendors = new Map(seed.map(vendor => [vendor.id, structuredClone(vendor)]));
+  }
+
+  async list() {
+    return Array.from(this.vendors.values(), vendor => structuredClone(vendor));
+  }
+
+  async create(vendor: Vendor) {
+    if (this.vendors.has(vendor.id)) throw new Error(`Vendor ${vendor.id} already exists`);
+    this.vendors.set(vendor.id, structuredClone(vendor));
+    return structuredClone(vendor);
+  }
+
+  async update(id: string, changes: Partial<Omit<Vendor, 'id'>>) {
+    const vendor = this.vendors.get(id);
+    if (!vendor) throw new Error(`Vendor ${id} not found`);
+    const updated = { ...vendor, ...changes };
+    this.vendors.set(id, updated);
+    return structuredClone(updated);
+  }
+}
+
+export function createMemoryRepositories(store: Store): Repositories {
+  const inventory = new MemoryInventoryRepository(seedInventory(store.id));
+  return {
+    inventory,
+    orders: new MemoryOrderRepository(seedOrders(store.id)),
+    movements: new MemoryMovementRepository(),
+    history: new MemoryCountHistoryRepository(seedCountHistory(store.id)),
+    cycleCounts: new MemoryCycleCountRepository(),
+    images: new MemoryProductImageRepository(inventory),
+    planograms: new MemoryPlanogramRepository(),
+    shelfScans: new MemoryShelfScanRepository(),
+    promotions: new MemoryPromotionRepository(),
+    vendors: new MemoryVendorRepository(vendorsData),
+  };
+}
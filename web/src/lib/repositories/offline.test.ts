@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import type { InventoryItem, Order } from "@/lib/types";
+import type { LocalStore, StoreName } from "@/lib/localStore";
+import { Outbox, OutboxEntry, OutboxMutation } from "@/lib/outbox";
+import { SyncGatewayClient, SyncGatewayDocument, SyncGatewayError } from "@/lib/syncGateway";
+import { rebaseInventory, rebaseOrders } from "./offline";
+import { SyncGatewayOrderRepository } from "./syncGateway";
+import type { RemoteRepositories } from "./types";
+
+const item = (id: string, count: number, changes: Partial<InventoryItem> = {}): InventoryItem => ({
+  id,
+  name: id,
+  category: "Produce",
+  image: "",
+  barcode: "",
+  price: 1,
+  count,
+  reorderPoint: 5,
+  parLevel: 20,
+  packSize: 1,
+  ...changes,
+});
+
+const order = (id: string, changes: Partial<Order> = {}): Order => ({
+  id,
+  itemName: "Apples",
+  itemId: "PROD001",
+  count: 12,
+  receivedCount: 0,
+  status: 'draft',
+  date: "2024-01-15",
+  history: [],
+  ...changes,
+});
+
+const queued = (...mutations: OutboxMutation[]): OutboxEntry[] =>
+  mutations.map((mutation, index) => ({
+    seq: index + 1,
+    mutation,
+    status: 'pending',
+    createdAt: "2024-01-15T09:00:00.000Z",
+    attempts: 0,
+  }));
+
+describe("rebaseInventory", () => {
+  it("adds queued count changes to the mirrored count", () => {
+    const items = [item("A", 10), item("B", 4)];
+    const rebased = rebaseInventory(
+      items,
+      queued(
+        { kind: 'adjustCount', itemId: "A", delta: 3, actor: "phone" },
+        { kind: 'adjustCount', itemId: "A", delta: -5, actor: "phone" }
+      )
+    );
+    expect(rebased.map(({ id, count }) => ({ id, count }))).toEqual([
+      { id: "A", count: 8 },
+      { id: "B", count: 4 },
+    ]);
+  });
+
+  it("never shows a negative count", () => {
+    const [rebased] = rebaseInventory(
+      [item("A", 2)],
+      queued({ kind: 'adjustCount', itemId: "A", delta: -5, actor: "phone" })
+    );
+    expect(rebased.count).toBe(0);
+  });
+
+  it("shows queued new items and edits until the server has them", () => {
+    const rebased = rebaseInventory(
+      [item("A", 1)],
+      queued(
+        { kind: 'createItem', item: item("NEW", 0) },
+        { kind: 'updateItem', itemId: "A", changes: { name: "Green Apples" } },
+        { kind: 'adjustCount', itemId: "NEW", delta: 6, actor: "phone" }
+      )
+    );
+    expect(rebased.find(entry => entry.id === "A").name).toBe("Green Apples");
+    expect(rebased.find(entry => entry.id === "NEW").count).toBe(6);
+  });
+
+  it("keeps the server's copy of an item whose create already went through", () => {
+    const [rebased] = rebaseInventory([item("A", 9)], queued({ kind: 'createItem', item: item("A", 0) }));
+    expect(rebased.count).toBe(9);
+  });
+
+  it("ignores edits to items that no longer exist", () => {
+    const rebased = rebaseInventory([], queued({ kind: 'updateItem', itemId: "GONE", changes: { price: 2 } }));
+    expect(rebased).toEqual([]);
+  });
+
+  it("leaves the mirror untouched when nothing is queued", () => {
+    const items = [item("A", 1)];
+    expect(rebaseInventory(items, [])).toEqual(items);
+  });
+});
+
+describe("rebaseOrders", () => {
+  it("adds queued orders and applies queued updates in order", () => {
+    const rebased = rebaseOrders(
+      [order("ORD1")],
+      queued(
+        { kind: 'createOrder', order: order("ORD2") },
+        { kind: 'updateOrder', orderId: "ORD2", changes: { status: 'submitted' } },
+        { kind: 'updateOrder', orderId: "ORD1", changes: { status: 'cancelled' } }
+      )
+    );
+    expect(rebased.map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: "ORD1", status: 'cancelled' },
+      { id: "ORD2", status: 'submitted' },
+    ]);
+  });
+
+  it("ignores updates to orders that no longer exist", () => {
+    expect(rebaseOrders([], queued({ kind: 'updateOrder', orderId: "GONE", changes: { count: 3 } }))).toEqual([]);
+  });
+
+  it("ignores other kinds of mutation", () => {
+    const orders = [order("ORD1")];
+    expect(rebaseOrders(orders, queued({ kind: 'adjustCount', itemId: "A", delta: 1, actor: "phone" }))).toEqual(
+      orders
+    );
+  });
+});
+
+// In-memory stand-in for the IndexedDB mirror; outbox entries get increasing keys.
+const memoryStore = () => {
+  const stores = new Map<StoreName, Map<IDBValidKey, unknown>>();
+  const storeFor = (name: StoreName) => stores.get(name) ?? stores.set(name, new Map()).get(name);
+  let nextSeq = 1;
+  return {
+    async getAll<T>(name: StoreName) {
+      return Array.from(storeFor(name).values()) as T[];
+    },
+    async put<T>(name: StoreName, value: T) {
+      const record = value as { id?: string; seq?: number };
+      const key = name === "outbox" ? (record.seq ?? nextSeq++) : record.id;
+      storeFor(name).set(key, value);
+      return key;
+    },
+    async remove(name: StoreName, key: IDBValidKey) {
+      storeFor(name).delete(key);
+    },
+    async replaceAll<T>(name: StoreName, values: T[]) {
+      stores.delete(name);
+      for (const value of values) await this.put(name, value);
+    },
+  } as LocalStore;
+};
+
+// A Sync Gateway that rejects writes based on a stale revision, and can let
+// another device save first.
+class FakeGateway {
+  private docs = new Map<string, SyncGatewayDocument>();
+  private revision = 0;
+  // Runs once, just before the next write is checked.
+  beforeNextPut?: () => void;
+
+  seed<T extends SyncGatewayDocument>(doc: T) {
+    this.docs.set(doc._id, { ...doc, _rev: `${++this.revision}-seed` });
+  }
+
+  doc(id: string) {
+    return this.docs.get(id);
+  }
+
+  async getDoc<T extends SyncGatewayDocument>(collection: string, id: string) {
+    return { ...this.docs.get(id) } as T;
+  }
+
+  async putDoc<T extends SyncGatewayDocument>(collection: string, doc: T) {
+    const beforePut = this.beforeNextPut;
+    this.beforeNextPut = undefined;
+    beforePut?.();
+    const current = this.docs.get(doc._id);
+    if (current && current._rev !== doc._rev) throw new SyncGatewayError("Document update conflict", 409);
+    const saved = { ...doc, _rev: `${++this.revision}-web` };
+    this.docs.set(doc._id, saved);
+    return saved;
+  }
+}
+
+describe("replaying queued order updates", () => {
+  it("reapplies an update on the latest revision when another device saved the order first", async () => {
+    const gateway = new FakeGateway();
+    const { id, ...stored } = order("ORD1", { status: 'submitted', notes: "Ring the bell" });
+    gateway.seed({ ...stored, _id: id, type: "order", storeId: "2847", channels: ["store-2847"] });
+    gateway.beforeNextPut = () => gateway.seed({ ...gateway.doc(id), notes: "Back door" });
+
+    const orders = new SyncGatewayOrderRepository(gateway as unknown as SyncGatewayClient, {
+      id: "2847",
+      name: "Downtown",
+      district: "North District",
+      channel: "store-2847",
+    });
+    const outbox = new Outbox({ orders } as unknown as RemoteRepositories, memoryStore());
+    await outbox.enqueue({ kind: 'updateOrder', orderId: id, changes: { status: 'acknowledged' } });
+
+    await vi.waitFor(() => expect(outbox.getSnapshot()).toEqual([]));
+    expect(gateway.doc(id)).toMatchObject({ status: 'acknowledged', notes: "Back door" });
+  });
+});
@@ -0,0 +1,284 @@
+import type { CountSnapshot, InventoryItem, ItemDetails, Movement, Order } from "@/lib/types";
+import { toSnapshots } from "@/lib/forecasting";
+import type { CycleCountSession } from "@/lib/cycleCount";
+import type { LocalStore } from "@/lib/localStore";
+import { Outbox, OutboxEntry } from "@/lib/outbox";
+import type { ImageVariant, ProductImageFiles } from "@/lib/productImages";
+import type {
+  CountHistoryRepository,
+  CycleCountRepository,
+  InventoryRepository,
+  InventoryWatcher,
+  MovementRepository,
+  OrderRepository,
+  ProductImageRepository,
+  RemoteRepositories,
+  Repositories,
+} from "./types";
+
+// The IndexedDB mirror only ever holds the last state confirmed by the server.
+// Queued mutations are re-applied on top of it on every read, so a fresh
+// snapshot from the server never hides edits that are still in the outbox.
+export function rebaseInventory(items: InventoryItem[], entries: OutboxEntry[]) {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const deltas = new Map<string, number>();
+  entries.forEach(({ mutation }) => {
+    if (mutation.kind === 'adjustCount') {
+      deltas.set(mutation.itemId, (deltas.get(mutation.itemId) ?? 0) + mutation.delta);
+    } else if (mutation.kind === 'createItem' && !byId.has(mutation.item.id)) {
+      byId.set(mutation.item.id, mutation.item);
+    } else if (mutation.kind === 'updateItem' && byId.has(mutation.itemId)) {
+      byId.set(mutation.itemId, { ...byId.get(mutation.itemId), ...mutation.changes });
+    }
+  });
+  return Array.from(byId.values(), item =>
+    deltas.has(item.id) ? { ...item, count: Math.max(0, item.count + deltas.get(item.id)) } : item
+  );
+}
+
+export function rebaseOrders(orders: Order[], entries: OutboxEntry[]) {
+  const byId = new Map(orders.map(order => [order.id, order]));
+  entries.forEach(({ mutation }) => {
+    if (mutation.kind === 'createOrder') {
+      byId.set(mutation.order.id, mutation.order);
+    } else if (mutation.kind === 'updateOrder' && byId.has(mutation.orderId)) {
+      byId.set(mutation.orderId, { ...byId.get(mutation.orderId), ...mutation.changes });
+    }
+  });
+  return Array.from(byId.values());
+}
+
+// Loads a fresh snapshot from the server and mirrors it, or falls back to the
+// mirror when the server can't be reached.
+async function loadWithFallback<T>(
+  localStore: LocalStore,
+  store: 'inventory' | 'orders' | 'movements',
+  load: () => Promise<T[]>
+) {
+  try {
+    const values = await load();
+    await localStore.replaceAll(store, values);
+    return values;
+  } catch (error) {
+    const mirrored = await localStore.getAll<T>(store);
+    if (mirrored.length === 0) throw error;
+    return mirrored;
+  }
+}
+
+export class OfflineInventoryRepository implements InventoryRepository {
+  constructor(
+    private readonly remote: InventoryRepository,
+    private readonly outbox: Outbox,
+    private readonly localStore: LocalStore
+  ) {}
+
+  async list() {
+    const items = await loadWithFallback(this.localStore, "inventory", () => this.remote.list());
+    return rebaseInventory(items, await this.outbox.whenReady());
+  }
+
+  async get(id: string) {
+    return (await this.list()).find(item => item.id === id);
+  }
+
+  async create(item: InventoryItem) {
+    await this.outbox.enqueue({ kind: 'createItem', item });
+    return item;
+  }
+
+  // The item is looked up before anything is queued, so a write to an unknown
+  // item fails here instead of being replayed against the server later.
+  async update(id: string, changes: Partial<ItemDetails>) {
+    await this.rebased(id);
+    await this.outbox.enqueue({ kind: 'updateItem', itemId: id, changes });
+    return this.rebased(id);
+  }
+
+  async adjustCount(id: string, delta: number, actor: string) {
+    await this.rebased(id);
+    await this.outbox.enqueue({ kind: 'adjustCount', itemId: id, delta, actor });
+    return this.rebased(id);
+  }
+
+  private async rebased(id: string) {
+    const items = await this.localStore.getAll<InventoryItem>("inventory");
+    const item = rebaseInventory(items, await this.outbox.whenReady()).find(i => i.id === id);
+    if (!item) throw new Error(`Inventory item ${id} not found`);
+    return item;
+  }
+
+  watch(watcher: InventoryWatcher) {
+    return this.remote.watch({
+      onStatus: watcher.onStatus,
+      onChanges: changes => {
+        changes.forEach(({ id, item, deleted }) =>
+          (deleted ? this.localStore.remove("inventory", id) : this.localStore.put("inventory", item)).catch(error =>
+            console.error("[OfflineInventory] Failed to mirror change", error)
+          )
+        );
+        const entries = this.outbox.getSnapshot();
+        watcher.onChanges(
+          changes.map(change =>
+            change.item ? { ...change, item: rebaseInventory([change.item], entries).find(i => i.id === change.id) } : change
+          )
+        );
+      },
+    });
+  }
+}
+
+// Cache Storage outlives the page and, unlike the IndexedDB mirror, is shared by
+// every store: a photo is the same bytes wherever the item is stocked. Entries
+// are keyed by digest, so they never go stale and need no invalidation.
+const IMAGE_CACHE = "inventory-pro-images";
+
+const imageCacheKey = (digest: string) => `/product-images/${encodeURIComponent(digest)}`;
+
+async function openImageCache() {
+  // Only available in secure contexts; without it photos are simply refetched.
+  if (typeof caches === "undefined") return null;
+  return caches.open(IMAGE_CACHE).catch(() => null);
+}
+
+export class OfflineProductImageRepository implements ProductImageRepository {
+  constructor(
+    private readonly remote: ProductImageRepository,
+    private readonly outbox: Outbox,
+    private readonly localStore: LocalStore
+  ) {}
+
+  async get(itemId: string, variant: ImageVariant, digest: string) {
+    const cache = await openImageCache();
+    const cached = await cache?.match(imageCacheKey(digest));
+    if (cached) return cached.blob();
+
+    const blob = await this.remote.get(itemId, variant, digest);
+    await cache
+      ?.put(imageCacheKey(digest), new Response(blob))
+      .catch(error => console.error("[OfflineImages] Failed to cache image", error));
+    return blob;
+  }
+
+  async save(itemId: string, files: ProductImageFiles) {
+    const item = await this.remote.save(itemId, files);
+    // Seed the cache with what was just uploaded so it isn't downloaded straight back.
+    const cache = await openImageCache();
+    await Promise.all(
+      (['image', 'thumbnail'] as ImageVariant[]).map(variant =>
+        cache?.put(imageCacheKey(item.photo[variant]), new Response(files[variant]))
+      )
+    ).catch(error => console.error("[OfflineImages] Failed to cache image", error));
+    return this.mirror(item);
+  }
+
+  async remove(itemId: string) {
+    return this.mirror(await this.remote.remove(itemId));
+  }
+
+  private async mirror(item: InventoryItem) {
+    await this.localStore.put("inventory", item);
+    return rebaseInventory([item], this.outbox.getSnapshot())[0];
+  }
+}
+
+export class OfflineOrderRepository implements OrderRepository {
+  constructor(
+    private readonly remote: OrderRepository,
+    private readonly outbox: Outbox,
+    private readonly localStore: LocalStore
+  ) {}
+
+  async list() {
+    const orders = await loadWithFallback(this.localStore, "orders", () => this.remote.list());
+    return rebaseOrders(orders, await this.outbox.whenReady());
+  }
+
+  async create(order: Order) {
+    await this.outbox.enqueue({ kind: 'createOrder', order });
+    return order;
+  }
+
+  // Like inventory updates, only queued once the order is known to exist.
+  async update(id: string, changes: Partial<Omit<Order, 'id'>>) {
+    await this.rebased(id);
+    await this.outbox.enqueue({ kind: 'updateOrder', orderId: id, changes });
+    return this.rebased(id);
+  }
+
+  private async rebased(id: string) {
+    const orders = await this.localStore.getAll<Order>("orders");
+    const order = rebaseOrders(orders, await this.outbox.whenReady()).find(o => o.id === id);
+    if (!order) throw new Error(`Order ${id} not found`);
+    return order;
+  }
+}
+
+// Queued ledger entries are appended to the mirrored ones; they never change once written.
+export class OfflineMovementRepository implements MovementRepository {
+  constructor(
+    private readonly remote: MovementRepository,
+    private readonly outbox: Outbox,
+    private readonly localStore: LocalStore
+  ) {}
+
+  async list(itemId?: string) {
+    const confirmed = await loadWithFallback(this.localStore, "movements", () => this.remote.list());
+    const queued = (await this.outbox.whenReady()).flatMap(({ mutation }) =>
+      mutation.kind === 'recordMovement' ? [mutation.movement] : []
+    );
+    const byId = new Map([...confirmed, ...queued].map(movement => [movement.id, movement]));
+    return Array.from(byId.values()).filter(movement => !itemId || movement.itemId === itemId);
+  }
+
+  async record(movement: Movement) {
+    await this.outbox.enqueue({ kind: 'recordMovement', movement });
+    return movement;
+  }
+}
+
+// Count history is only ever observed by this device, so it lives in the mirror
+// database and is never sent to the server.
+export class LocalCountHistoryRepository implements CountHistoryRepository {
+  constructor(private readonly localStore: LocalStore) {}
+
+  list() {
+    return this.localStore.getAll<CountSnapshot>("snapshots");
+  }
+
+  async record(items: InventoryItem[]) {
+    await Promise.all(toSnapshots(items).map(snapshot => this.localStore.put("snapshots", snapshot)));
+  }
+}
+
+// Sessions are working state for the device doing the count; what they change
+// reaches the server through the movement ledger when the session is posted.
+export class LocalCycleCountRepository implements CycleCountRepository {
+  constructor(private readonly localStore: LocalStore) {}
+
+  list() {
+    return this.localStore.getAll<CycleCountSession>("cycleCounts");
+  }
+
+  async save(session: CycleCountSession) {
+    await this.localStore.put("cycleCounts", session);
+    return session;
+  }
+}
+
+export function createOfflineRepositories(remote: RemoteRepositories, localStore: LocalStore): Repositories {
+  const outbox = new Outbox(remote, localStore);
+  return {
+    inventory: new OfflineInventoryRepository(remote.inventory, outbox, localStore),
+    orders: new OfflineOrderRepository(remote.orders, outbox, localStore),
+    movements: new OfflineMovementRepository(remote.movements, outbox, localStore),
+    history: new LocalCountHistoryRepository(localStore),
+    cycleCounts: new LocalCycleCountRepository(localStore),
+    images: new OfflineProductImageRepository(remote.images, outbox, localStore),
+    planograms: remote.planograms,
+    shelfScans: remote.shelfScans,
+    promotions: remote.promotions,
+    vendors: remote.vendors,
+    outbox,
+  };
+}
@@ -0,0 +1,601 @@
+import type { InventoryItem, ItemDetails, ItemPhoto, Movement, Order, SizeUnit, Store } from "@/lib/types";
+import { collections } from "@/lib/config";
+import { SyncGatewayClient, SyncGatewayDocument, SyncGatewayError } from "@/lib/syncGateway";
+import {
+  ActorTotals,
+  actorTotals,
+  adjust,
+  createCounter,
+  merge,
+  PNCounter,
+  raiseTotals,
+  toCounter,
+} from "@/lib/crdt";
+import { ChangesFeed } from "@/lib/changesFeed";
+import { normalizeOrder } from "@/lib/orderLifecycle";
+import { toStoredBarcode } from "@/lib/gtin";
+import { DEFAULT_PACK_SIZE, DEFAULT_PAR_LEVEL, DEFAULT_REORDER_POINT } from "@/lib/replenishment";
+import type { ImageVariant, ProductImageFiles } from "@/lib/productImages";
+import { Planogram, PlanogramError } from "@/lib/planogram";
+import type { ShelfScan } from "@/lib/compliance";
+import type { Promotion } from "@/lib/promotions";
+import type { Vendor } from "@/lib/vendors";
+import type {
+  InventoryWatcher,
+  MovementRepository,
+  OrderRepository,
+  PlanogramRepository,
+  PromotionRepository,
+  ProductImageRepository,
+  RemoteInventoryRepository,
+  RemoteRepositories,
+  ShelfScanRepository,
+  StoreRepository,
+  VendorRepository,
+} from "./types";
+
+// Shape of the documents the iOS app writes to `liquor_items`. Older builds used
+// `type` for the category and stored `quantity` as a plain integer; newer ones
+// tag the document as `liquor_item` and store a pn-counter dictionary. Scalar
+// quantities are upgraded to a counter on the first web edit.
+export interface LiquorItemDocument extends SyncGatewayDocument {
+  type: string;
+  name: string;
+  category?: string;
+  imageURL?: string;
+  barcode?: string;
+  price: number;
+  quantity?: number | PNCounter;
+  reorderPoint?: number;
+  parLevel?: number;
+  packSize?: number;
+  size?: number;
+  sizeUnit?: SizeUnit;
+  aisle?: string;
+  archived?: boolean;
+  updated_at?: string;
+  sync_source?: string;
+  last_modified_by?: string;
+  storeId?: string;
+  channels?: string[];
+}
+
+interface OrderDocument extends SyncGatewayDocument, Omit<Order, 'id' | 'history' | 'receivedCount'> {
+  history?: Order['history'];
+  receivedCount?: number;
+  type: "order";
+  storeId: string;
+  channels: string[];
+}
+
+const LIQUOR_ITEM_TYPE = "liquor_item";
+
+// Photos are attachments named after their variant, so the mobile apps can read
+// them from `_attachments` without knowing about the web's resizing.
+const imageVariants: ImageVariant[] = ['image', 'thumbnail'];
+
+const toPhoto = (doc: LiquorItemDocument): ItemPhoto | undefined => {
+  const { image, thumbnail } = doc._attachments ?? {};
+  return image && thumbnail ? { image: image.digest, thumbnail: thumbnail.digest } : undefined;
+};
+
+export const toInventoryItem = (doc: LiquorItemDocument): InventoryItem => ({
+  id: doc._id,
+  name: doc.name,
+  category: doc.category ?? (doc.type !== LIQUOR_ITEM_TYPE ? doc.type : "Uncategorized"),
+  image: doc.imageURL ?? "",
+  photo: toPhoto(doc),
+  barcode: toStoredBarcode(doc.barcode ?? ""),
+  price: doc.price ?? 0,
+  count: toCounter(doc.quantity).value,
+  reorderPoint: doc.reorderPoint ?? DEFAULT_REORDER_POINT,
+  parLevel: doc.parLevel ?? DEFAULT_PAR_LEVEL,
+  packSize: doc.packSize ?? DEFAULT_PACK_SIZE,
+  size: doc.size,
+  sizeUnit: doc.sizeUnit,
+  aisle: doc.aisle,
+  archived: doc.archived,
+});
+
+// Catalog fields as document properties; the image URL is named as the iOS app names it.
+const toDocumentFields = ({ image, ...details }: Partial<ItemDetails>): Partial<LiquorItemDocument> =>
+  image === undefined ? details : { ...details, imageURL: image };
+
+const toOrder = ({ _id, _rev, type, storeId, channels, ...order }: OrderDocument): Order =>
+  normalizeOrder({ ...order, id: _id });
+
+// Each store's documents live in the store's channel, so lists and feeds are
+// filtered by channel rather than reading the whole collection.
+export class SyncGatewayInventoryRepository implements RemoteInventoryRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list() {
+    const docs = await this.client.channelDocs<LiquorItemDocument>(collections.inventory, this.store.channel);
+    return docs.map(toInventoryItem);
+  }
+
+  async get(id: string) {
+    const doc = await this.client.getDoc<LiquorItemDocument>(collections.inventory, id);
+    return toInventoryItem(doc);
+  }
+
+  async create({ id, count, photo, ...details }: InventoryItem) {
+    try {
+      const saved = await this.client.putDoc<LiquorItemDocument>(collections.inventory, {
+        ...toDocumentFields(details),
+        _id: id,
+        type: LIQUOR_ITEM_TYPE,
+        name: details.name,
+        price: details.price,
+        quantity: createCounter(count),
+        storeId: this.store.id,
+        channels: [this.store.channel],
+        updated_at: new Date().toISOString(),
+        sync_source: "web",
+        last_modified_by: "web",
+      });
+      return toInventoryItem(saved);
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      // An earlier attempt from the outbox may have landed with its response
+      // lost. Document ids are shared by every store in the collection, so
+      // anything else is a real clash.
+      const existing = await this.client.getDoc<LiquorItemDocument>(collections.inventory, id);
+      if (existing.storeId === this.store.id && existing.name === details.name) return toInventoryItem(existing);
+      throw new Error(`An item with ID ${id} already exists`);
+    }
+  }
+
+  async update(id: string, changes: Partial<ItemDetails>) {
+    const save = (doc: LiquorItemDocument) =>
+      this.client.putDoc(collections.inventory, {
+        ...doc,
+        ...toDocumentFields(changes),
+        updated_at: new Date().toISOString(),
+        last_modified_by: "web",
+      });
+
+    try {
+      return toInventoryItem(await save(await this.client.getDoc<LiquorItemDocument>(collections.inventory, id)));
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      // A count changed underneath us; catalog fields don't touch the counter, so reapply on the latest revision.
+      return toInventoryItem(await save(await this.client.getDoc<LiquorItemDocument>(collections.inventory, id)));
+    }
+  }
+
+  async adjustCount(id: string, delta: number, actor: string) {
+    const doc = await this.client.getDoc<LiquorItemDocument>(collections.inventory, id);
+    const quantity = adjust(toCounter(doc.quantity), actor, delta);
+
+    try {
+      return toInventoryItem(await this.saveQuantity(doc, quantity));
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+
+      // Someone else saved a new revision in the meantime: merge our counter
+      // into theirs, exactly as the mobile conflict resolver would.
+      const latest = await this.client.getDoc<LiquorItemDocument>(collections.inventory, id);
+      return toInventoryItem(await this.saveQuantity(latest, merge(toCounter(latest.quantity), quantity)));
+    }
+  }
+
+  async countTotals(id: string, actor: string) {
+    const doc = await this.client.getDoc<LiquorItemDocument>(collections.inventory, id);
+    return actorTotals(toCounter(doc.quantity), actor);
+  }
+
+  async mergeCount(id: string, actor: string, totals: ActorTotals) {
+    const save = async () => {
+      const doc = await this.client.getDoc<LiquorItemDocument>(collections.inventory, id);
+      return toInventoryItem(await this.saveQuantity(doc, raiseTotals(toCounter(doc.quantity), actor, totals)));
+    };
+    try {
+      return await save();
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      return save();
+    }
+  }
+
+  private saveQuantity(doc: LiquorItemDocument, quantity: PNCounter) {
+    return this.client.putDoc(collections.inventory, {
+      ...doc,
+      quantity,
+      updated_at: new Date().toISOString(),
+      last_modified_by: "web",
+    });
+  }
+
+  watch(watcher: InventoryWatcher) {
+    const feed = new ChangesFeed<LiquorItemDocument>(this.client, collections.inventory, {
+      channel: this.store.channel,
+      onStatus: watcher.onStatus,
+      onChanges: results =>
+        watcher.onChanges(
+          results.map(({ id, deleted, doc }) =>
+            deleted || !doc ? { id, deleted: true } : { id, item: toInventoryItem(doc) }
+          )
+        ),
+    });
+    feed.start();
+    return () => feed.stop();
+  }
+}
+
+export class SyncGatewayProductImageRepository implements ProductImageRepository {
+  constructor(private readonly client: SyncGatewayClient) {}
+
+  // The digest only picks the cache entry; Sync Gateway serves the current attachment.
+  get(itemId: string, variant: ImageVariant) {
+    return this.client.getAttachment(collections.inventory, itemId, variant);
+  }
+
+  save(itemId: string, files: ProductImageFiles) {
+    return this.withLatest(itemId, async doc => {
+      let rev = doc._rev;
+      for (const variant of imageVariants) {
+        rev = await this.client.putAttachment(collections.inventory, itemId, rev, variant, files[variant]);
+      }
+      return this.client.getDoc<LiquorItemDocument>(collections.inventory, itemId);
+    });
+  }
+
+  // Saving a revision without an attachment's stub drops the attachment.
+  remove(itemId: string) {
+    return this.withLatest(itemId, doc => {
+      const attachments = { ...doc._attachments };
+      imageVariants.forEach(variant => delete attachments[variant]);
+      return this.client.putDoc(collections.inventory, {
+        ...doc,
+        _attachments: attachments,
+        updated_at: new Date().toISOString(),
+        last_modified_by: "web",
+      });
+    });
+  }
+
+  // Retries once on a conflict, as a count may change while a photo uploads.
+  private async withLatest(itemId: string, write: (doc: LiquorItemDocument) => Promise<LiquorItemDocument>) {
+    const attempt = async () =>
+      toInventoryItem(await write(await this.client.getDoc<LiquorItemDocument>(collections.inventory, itemId)));
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      return attempt();
+    }
+  }
+}
+
+export class SyncGatewayOrderRepository implements OrderRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list() {
+    const docs = await this.client.channelDocs<OrderDocument>(collections.orders, this.store.channel);
+    return docs.map(toOrder);
+  }
+
+  // Order ids are minted on the device, so a 409 means an earlier attempt
+  // already landed (the response was lost) and the order counts as created.
+  async create({ id, ...order }: Order) {
+    try {
+      const saved = await this.client.putDoc<OrderDocument>(collections.orders, {
+        ...order,
+        _id: id,
+        type: "order",
+        storeId: this.store.id,
+        channels: [this.store.channel],
+      });
+      return toOrder(saved);
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      return toOrder(await this.client.getDoc<OrderDocument>(collections.orders, id));
+    }
+  }
+
+  async update(id: string, changes: Partial<Omit<Order, 'id'>>) {
+    const save = async () => {
+      const doc = await this.client.getDoc<OrderDocument>(collections.orders, id);
+      return toOrder(await this.client.putDoc(collections.orders, { ...doc, ...changes }));
+    };
+    try {
+      return await save();
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      // Another device saved the order in between; reapply the changes on its revision.
+      return save();
+    }
+  }
+}
+
+interface MovementDocument extends SyncGatewayDocument, Omit<Movement, 'id'> {
+  type: "movement";
+  storeId: string;
+  channels: string[];
+}
+
+const toMovement = ({ _id, _rev, type, storeId, channels, ...movement }: MovementDocument): Movement => ({
+  ...movement,
+  id: _id,
+});
+
+export class SyncGatewayMovementRepository implements MovementRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list(itemId?: string) {
+    const docs = await this.client.channelDocs<MovementDocument>(collections.movements, this.store.channel);
+    return docs.map(toMovement).filter(movement => !itemId || movement.itemId === itemId);
+  }
+
+  // Documents are created without a revision and never updated. A 409 means an
+  // earlier attempt already landed (the response was lost), so it counts as done.
+  async record({ id, ...movement }: Movement) {
+    try {
+      const saved = await this.client.putDoc<MovementDocument>(collections.movements, {
+        ...movement,
+        _id: id,
+        type: "movement",
+        storeId: this.store.id,
+        channels: [this.store.channel],
+      });
+      return toMovement(saved);
+    } catch (error) {
+      if (error instanceof SyncGatewayError && error.status === 409) return { id, ...movement };
+      throw error;
+    }
+  }
+}
+
+// One document per version, so the mobile apps can keep showing the version
+// they downloaded while a newer one syncs.
+interface PlanogramDocument extends SyncGatewayDocument, Omit<Planogram, 'id'> {
+  type: "planogram";
+  planogramId: string;
+  storeId: string;
+  channels: string[];
+}
+
+const planogramDocId = (id: string, version: number) => `${id}::v${version}`;
+
+const toPlanogram = ({
+  _id,
+  _rev,
+  _attachments,
+  type,
+  planogramId,
+  storeId,
+  channels,
+  ...planogram
+}: PlanogramDocument): Planogram => ({ ...planogram, id: planogramId });
+
+export class SyncGatewayPlanogramRepository implements PlanogramRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list() {
+    const docs = await this.client.channelDocs<PlanogramDocument>(collections.planograms, this.store.channel);
+    return docs.filter(doc => doc.type === "planogram").map(toPlanogram);
+  }
+
+  // Created without a revision, so a version someone else already saved is a 409.
+  async save({ id, ...planogram }: Planogram) {
+    try {
+      const saved = await this.client.putDoc<PlanogramDocument>(collections.planograms, {
+        ...planogram,
+        _id: planogramDocId(id, planogram.version),
+        type: "planogram",
+        planogramId: id,
+        storeId: this.store.id,
+        channels: [this.store.channel],
+      });
+      return toPlanogram(saved);
+    } catch (error) {
+      if (error instanceof SyncGatewayError && error.status === 409) {
+        throw new PlanogramError(`Version ${planogram.version} was already saved by someone else; reload to see it`);
+      }
+      throw error;
+    }
+  }
+}
+
+// Written by the mobile apps from BeerCountingManager's PlanogramAnalysis, one
+// document per shelf photographed, with the photo attached as `photo`.
+// Bounding boxes are in pixels of that photo, top-left origin.
+interface ShelfScanDocument extends SyncGatewayDocument {
+  type: "shelf_scan";
+  planogramId: string;
+  planogramVersion: number;
+  fixtureId: string;
+  shelfIndex: number;
+  scannedAt: string;
+  scannedBy: string;
+  imageWidth: number;
+  imageHeight: number;
+  beerCounts: {
+    itemId?: string;
+    beerType: string;
+    brand?: string;
+    confidence: number;
+    count: number;
+    boundingBoxes: { x: number; y: number; width: number; height: number }[];
+  }[];
+  storeId: string;
+  channels: string[];
+}
+
+const SHELF_SCAN_PHOTO = "photo";
+
+const toShelfScan = (doc: ShelfScanDocument): ShelfScan => ({
+  id: doc._id,
+  planogramId: doc.planogramId,
+  planogramVersion: doc.planogramVersion,
+  fixtureId: doc.fixtureId,
+  shelfIndex: doc.shelfIndex,
+  scannedAt: doc.scannedAt,
+  scannedBy: doc.scannedBy,
+  detections: (doc.beerCounts ?? []).map(detection => ({
+    itemId: detection.itemId,
+    label: detection.beerType,
+    brand: detection.brand,
+    confidence: detection.confidence,
+    count: detection.count,
+    boxes: (detection.boundingBoxes ?? []).map(box => ({
+      x: box.x / doc.imageWidth,
+      y: box.y / doc.imageHeight,
+      width: box.width / doc.imageWidth,
+      height: box.height / doc.imageHeight,
+    })),
+  })),
+  hasPhoto: !!doc._attachments?.[SHELF_SCAN_PHOTO],
+});
+
+export class SyncGatewayShelfScanRepository implements ShelfScanRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list() {
+    const docs = await this.client.channelDocs<ShelfScanDocument>(collections.shelfScans, this.store.channel);
+    return docs.filter(doc => doc.type === "shelf_scan").map(toShelfScan);
+  }
+
+  photo(scanId: string) {
+    return this.client.getAttachment(collections.shelfScans, scanId, SHELF_SCAN_PHOTO);
+  }
+}
+
+interface PromotionDocument extends SyncGatewayDocument, Omit<Promotion, 'id'> {
+  type: "promotion";
+  storeId: string;
+  channels: string[];
+}
+
+const toPromotion = ({
+  _id,
+  _rev,
+  _attachments,
+  type,
+  storeId,
+  channels,
+  ...promotion
+}: PromotionDocument): Promotion => ({ ...promotion, id: _id });
+
+export class SyncGatewayPromotionRepository implements PromotionRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list() {
+    const docs = await this.client.channelDocs<PromotionDocument>(collections.promotions, this.store.channel);
+    return docs.filter(doc => doc.type === "promotion").map(toPromotion);
+  }
+
+  // Promotion ids are minted on the device, so a 409 means an earlier attempt
+  // already landed and its response was lost.
+  async create({ id, ...promotion }: Promotion) {
+    try {
+      const saved = await this.client.putDoc<PromotionDocument>(collections.promotions, {
+        ...promotion,
+        _id: id,
+        type: "promotion",
+        storeId: this.store.id,
+        channels: [this.store.channel],
+      });
+      return toPromotion(saved);
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      return toPromotion(await this.client.getDoc<PromotionDocument>(collections.promotions, id));
+    }
+  }
+
+  async update(id: string, changes: Partial<Omit<Promotion, 'id'>>) {
+    const save = async () => {
+      const doc = await this.client.getDoc<PromotionDocument>(collections.promotions, id);
+      return toPromotion(await this.client.putDoc(collections.promotions, { ...doc, ...changes }));
+    };
+    try {
+      return await save();
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      // Another device saved the promotion in between; reapply the changes on its revision.
+      return save();
+    }
+  }
+}
+
+interface VendorDocument extends SyncGatewayDocument, Omit<Vendor, 'id'> {
+  type: "vendor";
+  storeId: string;
+  channels: string[];
+}
+
+const toVendor = ({
+  _id,
+  _rev,
+  _attachments,
+  type,
+  storeId,
+  channels,
+  ...vendor
+}: VendorDocument): Vendor => ({ ...vendor, id: _id });
+
+export class SyncGatewayVendorRepository implements VendorRepository {
+  constructor(private readonly client: SyncGatewayClient, private readonly store: Store) {}
+
+  async list() {
+    const docs = await this.client.channelDocs<VendorDocument>(collections.vendors, this.store.channel);
+    return docs.filter(doc => doc.type === "vendor").map(toVendor);
+  }
+
+  // Vendor ids are minted on the device, so a 409 means an earlier attempt
+  // already landed and its response was lost.
+  async create({ id, ...vendor }: Vendor) {
+    try {
+      const saved = await this.client.putDoc<VendorDocument>(collections.vendors, {
+        ...vendor,
+        _id: id,
+        type: "vendor",
+        storeId: this.store.id,
+        channels: [this.store.channel],
+      });
+      return toVendor(saved);
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      return toVendor(await this.client.getDoc<VendorDocument>(collections.vendors, id));
+    }
+  }
+
+  async update(id: string, changes: Partial<Omit<Vendor, 'id'>>) {
+    const save = async () => {
+      const doc = await this.client.getDoc<VendorDocument>(collections.vendors, id);
+      return toVendor(await this.client.putDoc(collections.vendors, { ...doc, ...changes }));
+    };
+    try {
+      return await save();
+    } catch (error) {
+      if (!(error instanceof SyncGatewayError) || error.status !== 409) throw error;
+      // Another device saved the vendor in between; reapply the changes on its revision.
+      return save();
+    }
+  }
+}
+
+interface StoreDocument extends SyncGatewayDocument, Omit<Store, 'id'> {
+  type: "store";
+}
+
+export class SyncGatewayStoreRepository implements StoreRepository {
+  constructor(private readonly client: SyncGatewayClient) {}
+
+  async list() {
+    const docs = await this.client.allDocs<StoreDocument>(collections.stores);
+    return docs.map(({ _id, name, district, channel }) => ({ id: _id, name, district, channel }));
+  }
+}
+
+export const createSyncGatewayRepositories = (client: SyncGatewayClient, store: Store): RemoteRepositories => ({
+  inventory: new SyncGatewayInventoryRepository(client, store),
+  orders: new SyncGatewayOrderRepository(client, store),
+  movements: new SyncGatewayMovementRepository(client, store),
+  images: new SyncGatewayProductImageRepository(client),
+  planograms: new SyncGatewayPlanogramRepository(client, store),
+  shelfScans: new SyncGatewayShelfScanRepository(client, store),
+  promotions: new SyncGatewayPromotionRepository(client, store),
+  vendors: new SyncGatewayVendorRepository(client, store),
+});
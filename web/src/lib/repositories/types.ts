@@ -0,0 +1,138 @@
+import type { CountSnapshot, InventoryItem, ItemDetails, Movement, Order, Store } from "@/lib/types";
+import type { CycleCountSession } from "@/lib/cycleCount";
+import type { FeedStatus } from "@/lib/changesFeed";
+import type { Outbox } from "@/lib/outbox";
+import type { ImageVariant, ProductImageFiles } from "@/lib/productImages";
+import type { Planogram } from "@/lib/planogram";
+import type { ShelfScan } from "@/lib/compliance";
+import type { Promotion } from "@/lib/promotions";
+import type { Vendor } from "@/lib/vendors";
+import type { ActorTotals } from "@/lib/crdt";
+
+export interface InventoryChange {
+  id: string;
+  item?: InventoryItem;
+  deleted?: boolean;
+}
+
+export interface InventoryWatcher {
+  onChanges: (changes: InventoryChange[]) => void;
+  onStatus: (status: FeedStatus) => void;
+}
+
+export interface InventoryRepository {
+  list(): Promise<InventoryItem[]>;
+  get(id: string): Promise<InventoryItem | undefined>;
+  // Adds a new item to the catalog. Fails if the id is already taken.
+  create(item: InventoryItem): Promise<InventoryItem>;
+  update(id: string, changes: Partial<ItemDetails>): Promise<InventoryItem>;
+  // Applies a signed delta to the item's pn-counter on behalf of `actor`.
+  adjustCount(id: string, delta: number, actor: string): Promise<InventoryItem>;
+  // Streams changes made elsewhere (mobile apps, other browsers). Returns an unsubscribe function.
+  watch(watcher: InventoryWatcher): () => void;
+}
+
+// The server side of the inventory, as the outbox replays it. A queued count
+// change is sent as the actor's absolute totals rather than a delta, so sending
+// it again after a lost response can't apply it twice.
+export interface RemoteInventoryRepository extends InventoryRepository {
+  countTotals(id: string, actor: string): Promise<ActorTotals>;
+  // Raises the actor's totals on the item's counter to at least `totals`.
+  mergeCount(id: string, actor: string, totals: ActorTotals): Promise<InventoryItem>;
+}
+
+// Product photos, stored as attachments on the item's document. Uploads need a
+// connection; they are too large to queue in the outbox.
+export interface ProductImageRepository {
+  get(itemId: string, variant: ImageVariant, digest: string): Promise<Blob>;
+  // Replaces the item's photo and returns the item with its new digests.
+  save(itemId: string, files: ProductImageFiles): Promise<InventoryItem>;
+  remove(itemId: string): Promise<InventoryItem>;
+}
+
+export interface OrderRepository {
+  list(): Promise<Order[]>;
+  create(order: Order): Promise<Order>;
+  update(id: string, changes: Partial<Omit<Order, 'id'>>): Promise<Order>;
+}
+
+// Append-only stock ledger. There is deliberately no update or delete.
+export interface MovementRepository {
+  list(itemId?: string): Promise<Movement[]>;
+  record(movement: Movement): Promise<Movement>;
+}
+
+// Daily closing counts per item, the input to demand forecasting.
+export interface CountHistoryRepository {
+  list(): Promise<CountSnapshot[]>;
+  // Records the items' current counts as today's snapshot, replacing any earlier one.
+  record(items: InventoryItem[]): Promise<void>;
+}
+
+// Cycle-count sessions in progress on this device and the reports of posted ones.
+export interface CycleCountRepository {
+  list(): Promise<CycleCountSession[]>;
+  save(session: CycleCountSession): Promise<CycleCountSession>;
+}
+
+// Every saved version of the store's planograms. Saves go straight to the
+// server: layouts are planned at a desk, and a version number can only be
+// claimed once, which needs the server to decide.
+export interface PlanogramRepository {
+  list(): Promise<Planogram[]>;
+  // Stores a new version. Fails with a PlanogramError if that version already exists.
+  save(planogram: Planogram): Promise<Planogram>;
+}
+
+// Shelf scans are written by the mobile apps; the web only reads them.
+export interface ShelfScanRepository {
+  list(): Promise<ShelfScan[]>;
+  photo(scanId: string): Promise<Blob>;
+}
+
+// Promotions and scheduled price changes. Like planograms they are set up at a
+// desk and saved straight to the server, so tills and handhelds see one list.
+export interface PromotionRepository {
+  list(): Promise<Promotion[]>;
+  create(promotion: Promotion): Promise<Promotion>;
+  update(id: string, changes: Partial<Omit<Promotion, 'id'>>): Promise<Promotion>;
+}
+
+// The vendors a store buys from and their catalogs. Set up at a desk and saved
+// straight to the server, like promotions.
+export interface VendorRepository {
+  list(): Promise<Vendor[]>;
+  create(vendor: Vendor): Promise<Vendor>;
+  update(id: string, changes: Partial<Omit<Vendor, 'id'>>): Promise<Vendor>;
+}
+
+export interface StoreRepository {
+  list(): Promise<Store[]>;
+}
+
+// Repositories scoped to a single retail store.
+export interface Repositories {
+  inventory: InventoryRepository;
+  orders: OrderRepository;
+  movements: MovementRepository;
+  history: CountHistoryRepository;
+  cycleCounts: CycleCountRepository;
+  images: ProductImageRepository;
+  planograms: PlanogramRepository;
+  shelfScans: ShelfScanRepository;
+  promotions: PromotionRepository;
+  vendors: VendorRepository;
+  // Present when writes are queued locally and replayed to the server.
+  outbox?: Outbox;
+}
+
+// What the server side provides; history is kept on the device.
+export type RemoteRepositories = Pick<
+  Repositories,
+  'orders' | 'movements' | 'images' | 'planograms' | 'shelfScans' | 'promotions' | 'vendors'
+> & { inventory: RemoteInventoryRepository };
+
+export interface RepositoryRegistry {
+  stores: StoreRepository;
+  forStore(store: Store): Repositories;
+}
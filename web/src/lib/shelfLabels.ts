@@ -0,0 +1,166 @@
+import type { InventoryItem, SizeUnit } from "./types";
+import { describePromotion, EffectivePrice } from "./promotions";
+
+export type LabelLayoutId = 'avery_5160' | 'avery_5163' | 'thermal_2x1';
+
+// Dimensions in inches. Sheets are filled left to right, then top to bottom.
+export interface LabelLayout {
+  id: LabelLayoutId;
+  name: string;
+  description: string;
+  pageWidth: number;
+  pageHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  labelWidth: number;
+  labelHeight: number;
+  columnGap: number;
+  rowGap: number;
+  columns: number;
+  rows: number;
+  // Small labels drop the item id and shrink the barcode.
+  compact: boolean;
+}
+
+export const labelLayouts: Record<LabelLayoutId, LabelLayout> = {
+  avery_5160: {
+    id: 'avery_5160',
+    name: "Avery 5160",
+    description: '1" × 2⅝", 30 per letter sheet',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    marginTop: 0.5,
+    marginLeft: 0.1875,
+    labelWidth: 2.625,
+    labelHeight: 1,
+    columnGap: 0.125,
+    rowGap: 0,
+    columns: 3,
+    rows: 10,
+    compact: true,
+  },
+  avery_5163: {
+    id: 'avery_5163',
+    name: "Avery 5163",
+    description: '2" × 4", 10 per letter sheet',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    marginTop: 0.5,
+    marginLeft: 0.15625,
+    labelWidth: 4,
+    labelHeight: 2,
+    columnGap: 0.1875,
+    rowGap: 0,
+    columns: 2,
+    rows: 5,
+    compact: false,
+  },
+  thermal_2x1: {
+    id: 'thermal_2x1',
+    name: '2" thermal',
+    description: '2" × 1" direct thermal roll, one label per page',
+    pageWidth: 2,
+    pageHeight: 1,
+    marginTop: 0,
+    marginLeft: 0,
+    labelWidth: 2,
+    labelHeight: 1,
+    columnGap: 0,
+    rowGap: 0,
+    columns: 1,
+    rows: 1,
+    compact: true,
+  },
+};
+
+export const labelsPerPage = (layout: LabelLayout) => layout.columns * layout.rows;
+
+// Splits labels into pages, leaving `skip` blank positions at the start of the
+// first one so a partly used sheet can go back through the printer.
+export function paginateLabels<T>(labels: T[], layout: LabelLayout, skip = 0): (T | null)[][] {
+  const perPage = labelsPerPage(layout);
+  const slots: (T | null)[] = [...Array<null>(skip % perPage).fill(null), ...labels];
+  const pages: (T | null)[][] = [];
+  for (let i = 0; i < slots.length; i += perPage) pages.push(slots.slice(i, i + perPage));
+  return pages;
+}
+
+// What the unit price is quoted per, e.g. $0.12 per fl oz or $1.40 per 100 mL.
+const unitPriceBasis: Record<SizeUnit, { per: number; label: string }> = {
+  fl_oz: { per: 1, label: "fl oz" },
+  oz: { per: 1, label: "oz" },
+  lb: { per: 1, label: "lb" },
+  ml: { per: 100, label: "100 mL" },
+  l: { per: 1, label: "L" },
+  g: { per: 100, label: "100 g" },
+  kg: { per: 1, label: "kg" },
+  ct: { per: 1, label: "each" },
+};
+
+export function unitPrice(price: number, item: Pick<InventoryItem, 'size' | 'sizeUnit'>) {
+  if (!item.size || !item.sizeUnit) return undefined;
+  const { per, label } = unitPriceBasis[item.sizeUnit];
+  return { amount: (price / item.size) * per, per: label };
+}
+
+// Everything printed on one label.
+export interface LabelContent {
+  itemId: string;
+  name: string;
+  barcode: string;
+  aisle?: string;
+  price: number;
+  // Set when a discount is running, to print the regular price struck through.
+  regularPrice?: number;
+  unitPrice?: { amount: number; per: string };
+  // e.g. "15% off · until Oct 31" or "2 for $30.00"
+  promotion?: string;
+}
+
+const formatEnd = (endsOn: string) =>
+  new Date(`${endsOn}T00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export function labelContent(item: InventoryItem, pricing?: EffectivePrice): LabelContent {
+  const price = pricing?.price ?? item.price;
+  const offers = pricing ? [pricing.discount, ...pricing.deals].filter(Boolean) : [];
+  const ends = offers.map(offer => offer.endsOn).filter(Boolean).sort()[0];
+  return {
+    itemId: item.id,
+    name: item.name,
+    barcode: item.barcode,
+    aisle: item.aisle,
+    price,
+    regularPrice: pricing?.discount ? pricing.regular : undefined,
+    unitPrice: unitPrice(price, item),
+    promotion: offers.length
+      ? `${offers.map(describePromotion).join(" · ")}${ends ? ` · until ${formatEnd(ends)}` : ""}`
+      : undefined,
+  };
+}
+
+// The parts of a label that go stale: a change to any of them means the label
+// on the shelf is wrong and needs reprinting.
+export const labelFingerprint = ({ name, barcode, price, regularPrice, unitPrice, promotion }: LabelContent) =>
+  JSON.stringify([name, barcode, price, regularPrice ?? null, unitPrice?.amount.toFixed(3) ?? null, promotion ?? null]);
+
+// Fingerprints of the labels currently on the shelf, by item id. Kept per
+// device: the reprint queue belongs to whoever prints labels at this store.
+export type PrintedLabels = Record<string, string>;
+
+const printedLabelsKey = (storeId: string) => `inventory-pro.printed-labels.${storeId}`;
+
+// Null until labels are first looked at on this device.
+export const loadPrintedLabels = (storeId: string): PrintedLabels | null =>
+  JSON.parse(localStorage.getItem(printedLabelsKey(storeId)) ?? "null");
+
+export const savePrintedLabels = (storeId: string, printed: PrintedLabels) =>
+  localStorage.setItem(printedLabelsKey(storeId), JSON.stringify(printed));
+
+// The starting point on a device that has never printed: whatever is on the
+// shelf is taken to be current, so only later changes are queued.
+export const assumeLabelsCurrent = (contents: LabelContent[]): PrintedLabels =>
+  Object.fromEntries(contents.map(content => [content.itemId, labelFingerprint(content)]));
+
+// Labels that changed since they were last printed, and items added since.
+export const labelsNeedingReprint = (contents: LabelContent[], printed: PrintedLabels) =>
+  contents.filter(content => printed[content.itemId] !== labelFingerprint(content));
@@ -0,0 +1,37 @@
+import { Cell, parseCsv, toCsv } from "./csv";
+import { readXlsx, writeXlsx } from "./xlsx";
+
+export type TableFormat = 'csv' | 'xlsx';
+
+export const tableFormatLabels: Record<TableFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+};
+
+const mimeTypes: Record<TableFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export async function readTable(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return readXlsx(await file.arrayBuffer());
+  if (name.endsWith(".csv") || name.endsWith(".txt")) return parseCsv(await file.text());
+  throw new Error("Choose a .csv or .xlsx file");
+}
+
+// Saves `rows` (header first) as `<basename>.<format>`.
+export function downloadTable(rows: Cell[][], { basename, format, sheetName = basename }: {
+  basename: string;
+  format: TableFormat;
+  sheetName?: string;
+}) {
+  // The byte-order mark makes Excel read the CSV as UTF-8 rather than the system code page.
+  const content = format === 'csv' ? ["\ufeff", toCsv(rows)] : [writeXlsx([{ name: sheetName, rows }])];
+  const url = URL.createObjectURL(new Blob(content, { type: mimeTypes[format] }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${basename}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
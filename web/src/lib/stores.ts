@@ -0,0 +1,20 @@
+import type { Store } from "./types";
+import type { User } from "./auth";
+import { canAccessStore } from "./permissions";
+
+const LAST_STORE_KEY = "inventory-pro.store";
+
+export const getLastStoreId = () => localStorage.getItem(LAST_STORE_KEY);
+
+export const setLastStoreId = (storeId: string) => localStorage.setItem(LAST_STORE_KEY, storeId);
+
+// The store to open when a URL doesn't name one: the last store used if the
+// employee can still access it, otherwise their first assigned store.
+export function pickDefaultStore(stores: Store[], user: User | null): Store | undefined {
+  const accessible = stores.filter(store => canAccessStore(user, store.id));
+  return (
+    accessible.find(store => store.id === getLastStoreId()) ??
+    accessible.find(store => user?.storeIds.includes(store.id)) ??
+    accessible[0]
+  );
+}
@@ -0,0 +1,117 @@
+import type { SyncGatewayConfig } from "./config";
+
+// Attachment metadata as it appears in a document; the content itself is
+// fetched separately.
+export interface SyncGatewayAttachment {
+  content_type: string;
+  digest: string;
+  length: number;
+  revpos?: number;
+  stub?: boolean;
+}
+
+export interface SyncGatewayDocument {
+  _id: string;
+  _rev?: string;
+  _deleted?: boolean;
+  _attachments?: Record<string, SyncGatewayAttachment>;
+}
+
+interface AllDocsResponse<T> {
+  rows: { id: string; value: { rev: string }; doc?: T }[];
+}
+
+interface ChannelChangesResponse<T> {
+  results: { id: string; deleted?: boolean; doc?: T }[];
+}
+
+export class SyncGatewayError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "SyncGatewayError";
+  }
+}
+
+export class SyncGatewayClient {
+  constructor(private readonly config: SyncGatewayConfig) {}
+
+  // Sync Gateway addresses named collections as `db.scope.collection`.
+  keyspace(collection: string) {
+    const { database, scope } = this.config;
+    return `${this.config.url}/${database}.${scope}.${collection}`;
+  }
+
+  request<T>(collection: string, path: string, init: RequestInit = {}): Promise<T> {
+    return this.fetchJson<T>(`${this.keyspace(collection)}/${path}`, init);
+  }
+
+  // Database-level endpoints such as `_session` sit outside any collection.
+  databaseRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+    return this.fetchJson<T>(`${this.config.url}/${this.config.database}/${path}`, init);
+  }
+
+  private async fetchJson<T>(url: string, init: RequestInit): Promise<T> {
+    const headers = new Headers(init.headers);
+    headers.set("Accept", "application/json");
+    if (init.body && !headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+    const response = await this.send(url, { ...init, headers });
+    return response.json();
+  }
+
+  private async send(url: string, init: RequestInit) {
+    // `include` sends the SyncGatewaySession cookie set by POST /_session.
+    const response = await fetch(url, { ...init, credentials: "include" });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new SyncGatewayError(body.reason ?? response.statusText, response.status);
+    }
+    return response;
+  }
+
+  async allDocs<T extends SyncGatewayDocument>(collection: string): Promise<T[]> {
+    const response = await this.request<AllDocsResponse<T>>(collection, "_all_docs?include_docs=true");
+    return response.rows.map(row => row.doc).filter((doc): doc is T => !!doc && !doc._deleted);
+  }
+
+  // Current documents in one channel, which is how data is partitioned per store.
+  async channelDocs<T extends SyncGatewayDocument>(collection: string, channel: string): Promise<T[]> {
+    const response = await this.request<ChannelChangesResponse<T>>(
+      collection,
+      `_changes?filter=sync_gateway/bychannel&channels=${encodeURIComponent(channel)}&include_docs=true&active_only=true`
+    );
+    return response.results.map(result => result.doc).filter((doc): doc is T => !!doc && !doc._deleted);
+  }
+
+  getDoc<T extends SyncGatewayDocument>(collection: string, id: string): Promise<T> {
+    return this.request<T>(collection, encodeURIComponent(id));
+  }
+
+  async putDoc<T extends SyncGatewayDocument>(collection: string, doc: T): Promise<T> {
+    const { _id, _rev, ...body } = doc;
+    const query = _rev ? `?rev=${encodeURIComponent(_rev)}` : "";
+    const result = await this.request<{ id: string; rev: string }>(collection, `${encodeURIComponent(_id)}${query}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+    });
+    return { ...doc, _rev: result.rev };
+  }
+
+  async getAttachment(collection: string, id: string, name: string): Promise<Blob> {
+    const response = await this.send(
+      `${this.keyspace(collection)}/${encodeURIComponent(id)}/${encodeURIComponent(name)}`,
+      {}
+    );
+    return response.blob();
+  }
+
+  // Adds or replaces one attachment on revision `rev`, returning the new revision.
+  async putAttachment(collection: string, id: string, rev: string, name: string, content: Blob): Promise<string> {
+    const result = await this.request<{ id: string; rev: string }>(
+      collection,
+      `${encodeURIComponent(id)}/${encodeURIComponent(name)}?rev=${encodeURIComponent(rev)}`,
+      { method: "PUT", body: content, headers: { "Content-Type": content.type } }
+    );
+    return result.rev;
+  }
+}
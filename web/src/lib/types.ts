@@ -0,0 +1,114 @@
+export interface Store {
+  id: string;
+  name: string;
+  district: string;
+  // Sync Gateway channel that holds this store's inventory and orders.
+  channel: string;
+}
+
+// Digests of an item's uploaded photo and its thumbnail. They change whenever
+// the photo does, so they double as cache keys.
+export interface ItemPhoto {
+  image: string;
+  thumbnail: string;
+}
+
+// Units an item's contents are measured in; fl_oz and oz are US customary.
+export type SizeUnit = 'fl_oz' | 'oz' | 'lb' | 'ml' | 'l' | 'g' | 'kg' | 'ct';
+
+export interface InventoryItem {
+  id: string;
+  name: string;
+  category: string;
+  // External image URL, shown when no photo has been uploaded.
+  image: string;
+  photo?: ItemPhoto;
+  barcode: string;
+  price: number;
+  count: number;
+  // Replenishment settings: re-order once the count falls to the reorder
+  // point, topping back up to the par level in whole packs.
+  reorderPoint: number;
+  parLevel: number;
+  packSize: number;
+  // Contents of one unit, e.g. 64 fl_oz or 12 ct, for unit pricing on shelf labels.
+  size?: number;
+  sizeUnit?: SizeUnit;
+  // Shelf location used to plan walk-through counts, e.g. "A3".
+  aisle?: string;
+  // Retired from the catalog. Archived items keep their history but are hidden
+  // from counting, ordering and scanning.
+  archived?: boolean;
+}
+
+// Catalog fields an editor may change. The count only ever moves through the
+// ledger, and the photo through the image repository.
+export type ItemDetails = Omit<InventoryItem, 'id' | 'count' | 'photo'>;
+
+export type OrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'acknowledged'
+  | 'shipped'
+  | 'partially_received'
+  | 'received'
+  | 'closed'
+  | 'cancelled';
+
+// One entry per status change, appended and never rewritten.
+export interface OrderEvent {
+  status: OrderStatus;
+  at: string;
+  by?: string;
+  note?: string;
+  // Units received in this delivery, for receiving events.
+  quantity?: number;
+}
+
+export type MovementReason = 'count' | 'receipt' | 'adjustment' | 'cycle_count';
+
+// One entry in an item's stock ledger. Entries are only ever appended, never
+// edited, so the ledger answers who changed a count, from where and why.
+export interface Movement {
+  id: string;
+  itemId: string;
+  delta: number;
+  reason: MovementReason;
+  // Employee username, and the device whose counter the delta was applied to.
+  actor: string;
+  device: string;
+  at: string;
+  // The item's count right after the change, as seen by the device.
+  countAfter?: number;
+  note?: string;
+  orderId?: string;
+}
+
+// An item's count as observed at the end of a day.
+export interface CountSnapshot {
+  itemId: string;
+  // YYYY-MM-DD in the store's local time.
+  date: string;
+  count: number;
+}
+
+export type OrderUrgency = 'routine' | 'urgent' | 'emergency';
+
+export interface Order {
+  id: string;
+  itemName: string;
+  itemId: string;
+  count: number;
+  // Units received so far across all deliveries.
+  receivedCount: number;
+  status: OrderStatus;
+  date: string;
+  history: OrderEvent[];
+  // The vendor's name as ordered; kept when the vendor is renamed or archived.
+  supplier?: string;
+  vendorId?: string;
+  // Set on submission; the item orders a vendor receives together share one.
+  purchaseOrderId?: string;
+  urgency?: OrderUrgency;
+  notes?: string;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "./types";
+import type { Repositories } from "./repositories/types";
+import { checkMinimumOrder, PurchaseOrderError, submitPurchaseOrder, Vendor } from "./vendors";
+
+const vendor = (changes: Partial<Vendor> = {}): Vendor => ({
+  id: "VEN-1",
+  name: "Fresh Farms",
+  leadTimeDays: 2,
+  deliveryDays: [],
+  items: [
+    { itemId: "A", vendorCode: "FF-A", unitCost: 2 },
+    { itemId: "B", vendorCode: "FF-B", unitCost: 5 },
+  ],
+  ...changes,
+});
+
+const draft = (id: string, itemId: string, count: number): Order => ({
+  id,
+  itemName: itemId,
+  itemId,
+  count,
+  receivedCount: 0,
+  status: 'draft',
+  date: "2024-01-15",
+  history: [{ status: 'draft', at: "2024-01-15T09:00:00.000Z" }],
+});
+
+// An orders repository holding `drafts`, whose update fails for the ids in `failing`.
+function ordersRepository(drafts: Order[], failing: string[] = []) {
+  const saved = new Map(drafts.map(order => [order.id, order]));
+  const orders = {
+    update: async (id: string, changes: Partial<Order>) => {
+      if (failing.includes(id)) throw new Error("Network down");
+      saved.set(id, { ...saved.get(id), ...changes });
+      return saved.get(id);
+    },
+  } as Repositories['orders'];
+  return { orders, saved };
+}
+
+describe("checkMinimumOrder", () => {
+  it("checks units, then value at the vendor's cost", () => {
+    expect(checkMinimumOrder(vendor({ minimumOrderUnits: 10 }), [{ itemId: "A", quantity: 4 }])).toBe(
+      "4 of the 10-unit minimum"
+    );
+    expect(checkMinimumOrder(vendor({ minimumOrderValue: 50 }), [{ itemId: "B", quantity: 4 }])).toBe(
+      "$20.00 of the $50.00 minimum"
+    );
+    expect(checkMinimumOrder(vendor({ minimumOrderValue: 50 }), [{ itemId: "B", quantity: 10 }])).toBe(null);
+  });
+});
+
+describe("submitPurchaseOrder", () => {
+  it("sends a vendor's drafts on one PO", async () => {
+    const drafts = [draft("1", "A", 5), draft("2", "B", 5)];
+    const { orders } = ordersRepository(drafts);
+    const result = await submitPurchaseOrder({ orders }, { vendor: vendor(), drafts }, { by: "manager" });
+    expect(result.purchaseOrderId).toMatch(/^PO-/);
+    expect(result.submitted.map(order => order.purchaseOrderId)).toEqual(Array(2).fill(result.purchaseOrderId));
+    expect(result.submitted[0].status).toBe('submitted');
+    expect(result.submitted[0].history[1]).toMatchObject({ by: "manager", note: `Sent on ${result.purchaseOrderId}` });
+  });
+
+  it("gives each draft without a vendor its own PO", async () => {
+    const drafts = [draft("1", "A", 5), draft("2", "B", 5)];
+    const { orders } = ordersRepository(drafts);
+    const result = await submitPurchaseOrder({ orders }, { drafts });
+    const ids = result.submitted.map(order => order.purchaseOrderId);
+    expect(result.purchaseOrderId).toBe(undefined);
+    expect(ids.every(id => id?.startsWith("PO-"))).toBe(true);
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it("finishes a PO that failed part way on the same id", async () => {
+    const drafts = [draft("1", "A", 5), draft("2", "B", 5), draft("3", "A", 1)];
+    const { orders, saved } = ordersRepository(drafts, ["2"]);
+    const failure = await submitPurchaseOrder({ orders }, { vendor: vendor(), drafts }).catch(error => error);
+    expect(failure).toBeInstanceOf(PurchaseOrderError);
+    expect(failure.submitted.map((order: Order) => order.id)).toEqual(["1"]);
+    expect(failure.remaining.map((order: Order) => order.id)).toEqual(["2", "3"]);
+
+    const retry = ordersRepository(failure.remaining);
+    const result = await submitPurchaseOrder(
+      { orders: retry.orders },
+      { vendor: vendor(), drafts: failure.remaining, purchaseOrderId: failure.purchaseOrderId }
+    );
+    expect(result.purchaseOrderId).toBe(failure.purchaseOrderId);
+    expect([saved.get("1"), ...result.submitted].map(order => order.purchaseOrderId)).toEqual(
+      Array(3).fill(failure.purchaseOrderId)
+    );
+  });
+
+  it("doesn't recheck the minimum when finishing a PO", async () => {
+    const drafts = [draft("2", "B", 1)];
+    const { orders } = ordersRepository(drafts);
+    const result = await submitPurchaseOrder(
+      { orders },
+      { vendor: vendor({ minimumOrderUnits: 10 }), drafts, purchaseOrderId: "PO-PART" }
+    );
+    expect(result.submitted[0].purchaseOrderId).toBe("PO-PART");
+  });
+
+  it("refuses a PO below the minimum unless it's confirmed", async () => {
+    const drafts = [draft("1", "A", 4)];
+    const { orders, saved } = ordersRepository(drafts);
+    const request = { vendor: vendor({ minimumOrderUnits: 10 }), drafts };
+    await expect(submitPurchaseOrder({ orders }, request)).rejects.toThrow(
+      "Below Fresh Farms's minimum order: 4 of the 10-unit minimum"
+    );
+    expect(saved.get("1").status).toBe('draft');
+
+    const result = await submitPurchaseOrder({ orders }, { ...request, belowMinimum: true });
+    expect(result.submitted[0].status).toBe('submitted');
+  });
+});
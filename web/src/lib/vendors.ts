@@ -0,0 +1,250 @@
+import { z } from "zod";
+import type { InventoryItem, Order } from "./types";
+import type { Repositories } from "./repositories/types";
+import { addDays, toDateKey, weekday } from "./forecasting";
+import { transitionOrder } from "./orderLifecycle";
+
+// A line in a vendor's catalog: the code to quote on their PO for one of our items.
+export interface VendorItem {
+  itemId: string;
+  vendorCode: string;
+  // What the vendor charges per unit, for checking minimum order values.
+  unitCost?: number;
+}
+
+export interface Vendor {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  // Days from placing an order to the earliest delivery.
+  leadTimeDays: number;
+  // Days of the week the vendor delivers, 0 for Sunday as in Date.getDay().
+  deliveryDays: number[];
+  // A PO below either minimum is refused or charged a small-order fee.
+  minimumOrderValue?: number;
+  minimumOrderUnits?: number;
+  items: VendorItem[];
+  archived?: boolean;
+}
+
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const formatDeliveryDays = (days: number[]) =>
+  days.length === 0 || days.length === 7
+    ? "Any day"
+    : [...days].sort().map(day => weekdayLabels[day]).join(", ");
+
+export const createVendorId = () => `VEN-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+
+// Minted on the device that submits it, like order ids.
+export const createPurchaseOrderId = () => `PO-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+
+// Who to order an item from: of the active vendors that carry it, the one that
+// can deliver soonest.
+export const vendorForItem = (vendors: Vendor[], itemId: string) =>
+  vendors
+    .filter(vendor => !vendor.archived && vendor.items.some(line => line.itemId === itemId))
+    .sort((a, b) => a.leadTimeDays - b.leadTimeDays || a.name.localeCompare(b.name))[0];
+
+export const vendorItem = (vendor: Vendor | undefined, itemId: string) =>
+  vendor?.items.find(line => line.itemId === itemId);
+
+// The first delivery day at least the lead time away, as YYYY-MM-DD.
+export function nextDeliveryDate(vendor: Vendor, from = toDateKey(new Date())) {
+  const earliest = addDays(from, vendor.leadTimeDays);
+  if (vendor.deliveryDays.length === 0) return earliest;
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(earliest, offset);
+    if (vendor.deliveryDays.includes(weekday(date))) return date;
+  }
+  return earliest;
+}
+
+export interface PurchaseOrderLine {
+  itemId: string;
+  quantity: number;
+}
+
+// Why a PO for these lines falls short of the vendor's minimum, or null when it doesn't.
+// Lines without a known cost are left out of the value.
+export function checkMinimumOrder(vendor: Vendor, lines: PurchaseOrderLine[]): string | null {
+  const units = lines.reduce((total, line) => total + line.quantity, 0);
+  if (vendor.minimumOrderUnits && units < vendor.minimumOrderUnits) {
+    return `${units} of the ${vendor.minimumOrderUnits}-unit minimum`;
+  }
+  const value = lines.reduce(
+    (total, line) => total + line.quantity * (vendorItem(vendor, line.itemId)?.unitCost ?? 0),
+    0
+  );
+  if (vendor.minimumOrderValue && value < vendor.minimumOrderValue) {
+    return `$${value.toFixed(2)} of the $${vendor.minimumOrderValue.toFixed(2)} minimum`;
+  }
+  return null;
+}
+
+// A PO that failed part way: the drafts before the failure went out, the rest
+// are still drafts. Submitting them again with the same id finishes the PO.
+export class PurchaseOrderError extends Error {
+  constructor(
+    message: string,
+    // Absent for drafts without a vendor, which each go out on their own PO.
+    readonly purchaseOrderId: string | undefined,
+    readonly submitted: Order[],
+    readonly remaining: Order[]
+  ) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+// Submits a vendor's draft orders together as one purchase order.
+export interface SubmitPurchaseOrderRequest {
+  vendor?: Vendor;
+  drafts: Order[];
+  // The PO to add the drafts to, when finishing one that failed part way.
+  purchaseOrderId?: string;
+  // Sends the PO even though it's below the vendor's minimum order.
+  belowMinimum?: boolean;
+}
+
+export async function submitPurchaseOrder(
+  { orders }: Pick<Repositories, 'orders'>,
+  { vendor, drafts, purchaseOrderId, belowMinimum }: SubmitPurchaseOrderRequest,
+  { by }: { by?: string } = {}
+) {
+  // A PO being finished after a failure was already checked when it was started.
+  const shortfall =
+    vendor && !purchaseOrderId && !belowMinimum
+      ? checkMinimumOrder(vendor, drafts.map(order => ({ itemId: order.itemId, quantity: order.count })))
+      : null;
+  if (shortfall) throw new Error(`Below ${vendor.name}'s minimum order: ${shortfall}`);
+
+  // Drafts without a vendor aren't one shipment, so each gets its own PO.
+  const sharedId = vendor ? purchaseOrderId ?? createPurchaseOrderId() : undefined;
+  const submitted: Order[] = [];
+  for (const [index, draft] of drafts.entries()) {
+    const id = sharedId ?? createPurchaseOrderId();
+    try {
+      const next = transitionOrder(draft, 'submitted', { by, note: `Sent on ${id}` });
+      submitted.push(
+        await orders.update(draft.id, { status: next.status, history: next.history, purchaseOrderId: id })
+      );
+    } catch (error) {
+      throw new PurchaseOrderError(error.message, sharedId, submitted, drafts.slice(index));
+    }
+  }
+  return { purchaseOrderId: sharedId, vendor, submitted };
+}
+
+export interface VendorGroup<T> {
+  // Absent for entries no vendor carries.
+  vendor?: Vendor;
+  entries: T[];
+}
+
+// Splits entries into one group per vendor, sorted by vendor name, with the
+// entries no vendor carries last. Orders keep the vendor they were placed with.
+export function groupByVendor<T>(
+  entries: T[],
+  vendors: Vendor[],
+  vendorIdOf: (entry: T) => string | undefined
+): VendorGroup<T>[] {
+  const byId = new Map(vendors.map(vendor => [vendor.id, vendor]));
+  const groups = new Map<string, VendorGroup<T>>();
+  entries.forEach(entry => {
+    const vendor = byId.get(vendorIdOf(entry) ?? "");
+    const key = vendor?.id ?? "";
+    if (!groups.has(key)) groups.set(key, { vendor, entries: [] });
+    groups.get(key).entries.push(entry);
+  });
+  return Array.from(groups.values()).sort((a, b) =>
+    !a.vendor ? 1 : !b.vendor ? -1 : a.vendor.name.localeCompare(b.vendor.name)
+  );
+}
+
+// Draft orders waiting to go out together as one PO per vendor.
+export const vendorDrafts = (orders: Order[], vendors: Vendor[]) =>
+  groupByVendor(
+    orders.filter(order => order.status === 'draft'),
+    vendors,
+    order => order.vendorId
+  );
+
+const optionalAmount = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} can't be negative`);
+
+export const vendorFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(80, "Name must be 80 characters or fewer"),
+    contactName: z.string().trim().max(80, "Contact must be 80 characters or fewer"),
+    email: z.union([z.literal(""), z.string().trim().email("Enter a valid email address")]),
+    phone: z.string().trim().max(30, "Phone must be 30 characters or fewer"),
+    leadTimeDays: z.coerce
+      .number({ invalid_type_error: "Lead time must be a number" })
+      .int("Lead time must be whole days")
+      .min(0, "Lead time can't be negative")
+      .max(90, "Lead time must be 90 days or fewer"),
+    deliveryDays: z.array(z.number().int().min(0).max(6)),
+    // Zero for no minimum.
+    minimumOrderValue: optionalAmount("Minimum order value"),
+    minimumOrderUnits: optionalAmount("Minimum order units").int("Minimum order units must be a whole number"),
+    items: z.array(
+      z.object({
+        itemId: z.string().min(1, "Pick an item"),
+        vendorCode: z.string().trim().min(1, "Vendor code is required").max(40, "Code must be 40 characters or fewer"),
+        // Zero when the cost isn't known.
+        unitCost: optionalAmount("Unit cost"),
+      })
+    ),
+  })
+  .superRefine((values, ctx) => {
+    const seen = new Set<string>();
+    values.items.forEach((line, index) => {
+      if (seen.has(line.itemId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["items", index, "itemId"],
+          message: "This item is already in the catalog",
+        });
+      }
+      seen.add(line.itemId);
+    });
+  });
+
+export type VendorFormValues = z.infer<typeof vendorFormSchema>;
+
+export const toVendorFormValues = (vendor?: Vendor): VendorFormValues => ({
+  name: vendor?.name ?? "",
+  contactName: vendor?.contactName ?? "",
+  email: vendor?.email ?? "",
+  phone: vendor?.phone ?? "",
+  leadTimeDays: vendor?.leadTimeDays ?? 3,
+  deliveryDays: vendor?.deliveryDays ?? [1, 2, 3, 4, 5],
+  minimumOrderValue: vendor?.minimumOrderValue ?? 0,
+  minimumOrderUnits: vendor?.minimumOrderUnits ?? 0,
+  items: (vendor?.items ?? []).map(line => ({ ...line, unitCost: line.unitCost ?? 0 })),
+});
+
+export const toVendorDetails = (values: VendorFormValues): Omit<Vendor, 'id'> => ({
+  name: values.name,
+  contactName: values.contactName || undefined,
+  email: values.email || undefined,
+  phone: values.phone || undefined,
+  leadTimeDays: values.leadTimeDays,
+  deliveryDays: [...values.deliveryDays].sort(),
+  minimumOrderValue: values.minimumOrderValue || undefined,
+  minimumOrderUnits: values.minimumOrderUnits || undefined,
+  items: values.items.map(line => ({
+    itemId: line.itemId,
+    vendorCode: line.vendorCode,
+    unitCost: line.unitCost || undefined,
+  })),
+});
+
+// Items a vendor's catalog could still add, for the catalog editor.
+export const uncataloguedItems = (items: InventoryItem[], itemIds: string[]) =>
+  items.filter(item => !item.archived && !itemIds.includes(item.id));
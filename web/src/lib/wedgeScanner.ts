@@ -0,0 +1,31 @@
+// Keyboard-wedge scanners (USB or Bluetooth) "type" the barcode followed by
+// Enter. They do it far faster than a person can, so a burst is told apart
+// from typing by the gap between keystrokes.
+
+// Longest gap between two scanner keystrokes. People rarely type under ~80ms.
+export const MAX_KEY_GAP_MS = 50;
+// Shorter bursts are treated as typing; EAN-8 is the shortest retail code.
+export const MIN_CODE_LENGTH = 8;
+
+export class WedgeScanDetector {
+  private buffer = "";
+  private lastKeyAt = -Infinity;
+
+  // Feeds one keydown. Returns the scanned code when `key` is the Enter that
+  // ends a burst, otherwise null.
+  push(key: string, at: number): string | null {
+    // Modifiers (Shift for upper-case letters) arrive inside a burst; skip them.
+    if (key.length > 1 && key !== "Enter") return null;
+
+    if (at - this.lastKeyAt > MAX_KEY_GAP_MS) this.buffer = "";
+    this.lastKeyAt = at;
+
+    if (key !== "Enter") {
+      this.buffer += key;
+      return null;
+    }
+    const code = this.buffer;
+    this.buffer = "";
+    return code.length >= MIN_CODE_LENGTH ? code : null;
+  }
+}
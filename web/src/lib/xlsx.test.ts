@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { readXlsx, writeXlsx } from "./xlsx";
+
+const roundTrip = (bytes: Uint8Array) => readXlsx(bytes.slice().buffer);
+
+describe("writeXlsx and readXlsx", () => {
+  it("round-trips text and numbers", async () => {
+    const rows = await roundTrip(
+      writeXlsx([
+        {
+          name: "Catalog",
+          rows: [
+            ["id", "name", "price"],
+            ["A1", "Apples & <Pears>", 1.99],
+            ["B2", 'Say "cheese"\non two lines', 0],
+          ],
+        },
+      ])
+    );
+    expect(rows).toEqual([
+      ["id", "name", "price"],
+      ["A1", "Apples & <Pears>", "1.99"],
+      ["B2", 'Say "cheese"\non two lines', "0"],
+    ]);
+  });
+
+  it("keeps blank cells and rows in their spreadsheet positions", async () => {
+    const rows = await roundTrip(
+      writeXlsx([
+        {
+          name: "Sheet",
+          rows: [["id", null, "aisle"], [], ["A1", "", "A3"]],
+        },
+      ])
+    );
+    expect(rows).toEqual([["id", "", "aisle"], [], ["A1", "", "A3"]]);
+  });
+
+  it("reads the first sheet of several", async () => {
+    const rows = await roundTrip(
+      writeXlsx([
+        { name: "Items/2024: [draft]", rows: [["first"]] },
+        { name: "Other", rows: [["second"]] },
+      ])
+    );
+    expect(rows).toEqual([["first"]]);
+  });
+
+  it("reads columns past Z", async () => {
+    const row = Array.from({ length: 30 }, (_, index) => `c${index}`);
+    const [read] = await roundTrip(writeXlsx([{ name: "Wide", rows: [row] }]));
+    expect(read).toEqual(row);
+  });
+
+  it("rejects files that aren't workbooks", async () => {
+    await expect(readXlsx(new TextEncoder().encode("id,name\n").buffer)).rejects.toThrow("Not a valid XLSX file");
+  });
+});
@@ -0,0 +1,263 @@
+// Just enough of the XLSX format (Office Open XML spreadsheets) to exchange
+// plain tables: a workbook is a ZIP of XML parts. Writing stores the parts
+// uncompressed; reading inflates them with the browser's DecompressionStream.
+// Formatting, formulas and dates-as-dates are deliberately out of scope.
+
+import type { Cell } from "./csv";
+
+export interface Sheet {
+  name: string;
+  rows: Cell[][];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// 1980-01-01, the earliest date a ZIP header can hold.
+const DOS_DATE = (1 << 5) | 1;
+// General-purpose flag: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+
+function zip(entries: ZipEntry[]) {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(12, DOS_DATE, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, nameBytes.length, true);
+    local.push(new Uint8Array(header.buffer), nameBytes, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, UTF8_FLAG, true);
+    entry.setUint16(14, DOS_DATE, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((position, part) => {
+    output.set(part, position);
+    return position + part.length;
+  }, 0);
+  return output;
+}
+
+async function inflateRaw(data: Uint8Array) {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function unzip(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a valid XLSX file");
+
+  const files = new Map<string, Uint8Array>();
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, position + 46, nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, await inflateRaw(data));
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+// Control characters other than tab and line breaks aren't allowed in XML 1.0 at all.
+const isXmlChar = (char: string) => char >= " " || char === "\t" || char === "\n" || char === "\r";
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+const columnIndex = (ref: string) =>
+  ref
+    .replace(/\d+$/, "")
+    .split("")
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const cellXml = (cell: Cell, ref: string) => {
+  if (cell === null || cell === undefined || cell === "") return "";
+  if (typeof cell === "number") return `<c r="${ref}"><v>${cell}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+};
+
+const sheetXml = (rows: Cell[][]) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>` +
+  rows
+    .map(
+      (row, r) => `<row r="${r + 1}">${row.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join("")}</row>`
+    )
+    .join("") +
+  `</sheetData></worksheet>`;
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet";
+
+export function writeXlsx(sheets: Sheet[]) {
+  const overrides = sheets
+    .map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("");
+  const relationships = sheets
+    .map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    )
+    .join("");
+  const sheetList = sheets
+    .map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+    .join("");
+
+  const parts: Record<string, string> = {
+    "[Content_Types].xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `${overrides}</Types>`,
+    "_rels/.rels":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`,
+    "xl/workbook.xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+      `<sheets>${sheetList}</sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships}</Relationships>`,
+  };
+  sheets.forEach((sheet, i) => (parts[`xl/worksheets/sheet${i + 1}.xml`] = sheetXml(sheet.rows)));
+
+  return zip(Object.entries(parts).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
+
+const parseXml = (data: Uint8Array) => new DOMParser().parseFromString(decoder.decode(data), "application/xml");
+
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS("*", name));
+
+const textOf = (element: Element) =>
+  elements(element, "t")
+    .map(t => t.textContent ?? "")
+    .join("");
+
+// Reads the first worksheet as text. Row indexes match the spreadsheet's own
+// row numbers minus one, so blank rows are kept as empty arrays.
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await unzip(buffer);
+  const workbook = files.get("xl/workbook.xml");
+  if (!workbook) throw new Error("Not a valid XLSX file");
+
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const firstSheet = elements(parseXml(workbook), "sheet")[0];
+  const relationships = files.get("xl/_rels/workbook.xml.rels");
+  if (firstSheet && relationships) {
+    const id = firstSheet.getAttribute("r:id");
+    const target = elements(parseXml(relationships), "Relationship")
+      .find(rel => rel.getAttribute("Id") === id)
+      ?.getAttribute("Target");
+    if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  const sheet = files.get(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  const sharedStringsPart = files.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsPart ? elements(parseXml(sharedStringsPart), "si").map(textOf) : [];
+
+  const rows: string[][] = [];
+  elements(parseXml(sheet), "row").forEach(rowElement => {
+    const rowIndex = Number(rowElement.getAttribute("r") ?? rows.length + 1) - 1;
+    const row: string[] = [];
+    elements(rowElement, "c").forEach(cellElement => {
+      const ref = cellElement.getAttribute("r");
+      const column = ref ? columnIndex(ref) : row.length;
+      const type = cellElement.getAttribute("t");
+      const value = elements(cellElement, "v")[0]?.textContent ?? "";
+      let text = value;
+      if (type === "s") text = sharedStrings[Number(value)] ?? "";
+      else if (type === "inlineStr") text = textOf(cellElement);
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+      while (row.length < column) row.push("");
+      row[column] = text;
+    });
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+  });
+  return rows;
+}
@@ -0,0 +1,306 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useImportCatalog, useInventory } from "@/hooks/use-inventory";
+import {
+  ColumnMapping,
+  guessMapping,
+  ImportField,
+  importFieldLabels,
+  importFields,
+  planImport,
+} from "@/lib/catalogImport";
+import { readTable } from "@/lib/spreadsheet";
+import type { ItemDetails } from "@/lib/types";
+import { ArrowLeft, ArrowRight, FileUp } from "lucide-react";
+import { toast } from "sonner";
+
+// Select items can't have an empty value, so unmapped fields use this one.
+const NOT_IMPORTED = "none";
+const PREVIEW_ROWS = 5;
+
+const formatValue = (field: keyof ItemDetails, value: unknown) => {
+  if (value === undefined || value === "") return "—";
+  return field === 'price' ? `$${Number(value).toFixed(2)}` : String(value);
+};
+
+const CatalogImport = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { data: items = [] } = useInventory({ includeArchived: true });
+  const importCatalog = useImportCatalog();
+  const [file, setFile] = useState<{ name: string; rows: string[][] } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const headers = file?.rows[0] ?? [];
+  const plan = useMemo(
+    () => (file && mapping ? planImport(file.rows, mapping, items) : null),
+    [file, mapping, items]
+  );
+  const applicable = plan ? plan.adds.length + plan.updates.length : 0;
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      const rows = await readTable(selected);
+      if (rows.length < 2) throw new Error("The file has no rows below the header");
+      setFile({ name: selected.name, rows });
+      setMapping(guessMapping(rows[0]));
+    } catch (error) {
+      toast.error("Couldn't read file", { description: (error as Error).message });
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) =>
+    setMapping(current => ({ ...current, [field]: value === NOT_IMPORTED ? null : Number(value) }));
+
+  const handleApply = () =>
+    importCatalog.mutate(plan, {
+      onSuccess: () => navigate(storePath("/inventory/items")),
+    });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/inventory/items"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Item Master
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <FileUp className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">Import Catalog</h1>
+                <p className="text-sm text-muted-foreground">Add and update items from a CSV or Excel sheet</p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader>
+            <CardTitle>1. Choose a file</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="import-file">Spreadsheet (.csv or .xlsx) with a header row</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={e => handleFile(e.target.files?.[0])}
+              className="max-w-md"
+            />
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                {file.name}: {file.rows.length - 1} rows, {headers.length} columns
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {file && mapping && (
+          <Card className="shadow-medium border border-border/50">
+            <CardHeader>
+              <CardTitle>2. Match columns</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {importFields.map(field => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`column-${field}`}>{importFieldLabels[field]}</Label>
+                    <Select
+                      value={mapping[field] === null ? NOT_IMPORTED : String(mapping[field])}
+                      onValueChange={value => setColumn(field, value)}
+                    >
+                      <SelectTrigger id={`column-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {headers.map((header, index) => (
+                        <TableHead key={index}>{header}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {file.rows.slice(1, PREVIEW_ROWS + 1).map((row, r) => (
+                      <TableRow key={r}>
+                        {headers.map((_, c) => (
+                          <TableCell key={c} className="text-xs">
+                            {row[c]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {plan && (
+          <Card className="shadow-medium border border-border/50">
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="space-y-2">
+                <CardTitle>3. Review changes</CardTitle>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="default">{plan.adds.length} new</Badge>
+                  <Badge variant="secondary">{plan.updates.length} updated</Badge>
+                  <Badge variant="outline">{plan.unchanged} unchanged</Badge>
+                  <Badge variant={plan.conflicts.length ? "destructive" : "outline"}>
+                    {plan.conflicts.length} conflicts
+                  </Badge>
+                  <Badge variant={plan.errors.length ? "destructive" : "outline"}>{plan.errors.length} errors</Badge>
+                </div>
+              </div>
+              <Button onClick={handleApply} disabled={applicable === 0 || importCatalog.isPending} className="gap-2">
+                {importCatalog.isPending ? "Importing..." : `Apply ${applicable} changes`}
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {(plan.conflicts.length > 0 || plan.errors.length > 0) && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Skipped rows</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Problem</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[
+                        ...plan.errors.map(error => ({ ...error, field: error.field && importFieldLabels[error.field] })),
+                        ...plan.conflicts.map(conflict => ({ ...conflict, field: conflict.itemId })),
+                      ]
+                        .sort((a, b) => a.row - b.row)
+                        .map((problem, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{problem.row}</TableCell>
+                            <TableCell>{problem.field ?? "—"}</TableCell>
+                            <TableCell className="text-destructive">{problem.message}</TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {plan.adds.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">New items</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Barcode</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Reorder / Par</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.adds.map(({ row, item }) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{row}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{item.name}</div>
+                            <span className="text-xs text-muted-foreground font-mono">{item.id}</span>
+                          </TableCell>
+                          <TableCell>{item.category}</TableCell>
+                          <TableCell className="font-mono text-xs">{item.barcode || "—"}</TableCell>
+                          <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            {item.reorderPoint} / {item.parLevel}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {plan.updates.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Updated items</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Changes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.updates.map(({ row, item, changes }) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{row}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{item.name}</div>
+                            <span className="text-xs text-muted-foreground font-mono">{item.id}</span>
+                          </TableCell>
+                          <TableCell className="space-y-1">
+                            {(Object.keys(changes) as (keyof ItemDetails)[]).map(field => (
+                              <div key={field} className="flex items-center gap-2 text-sm">
+                                <span className="text-muted-foreground w-28">
+                                  {importFieldLabels[field as ImportField]}
+                                </span>
+                                <span className="line-through text-muted-foreground">
+                                  {formatValue(field, item[field])}
+                                </span>
+                                <ArrowRight className="h-3 w-3" />
+                                <span className="font-medium">{formatValue(field, changes[field])}</span>
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {applicable === 0 && plan.conflicts.length === 0 && plan.errors.length === 0 && (
+                <p className="text-center py-4 text-muted-foreground">The catalog already matches this file.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CatalogImport;
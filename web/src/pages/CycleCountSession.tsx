@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import CycleCountReport from "@/components/CycleCountReport";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useInventory } from "@/hooks/use-inventory";
+import { useCycleCounts, usePostCycleCount, useSaveCycleCount } from "@/hooks/use-cycle-counts";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  adjustmentsFor,
+  canPost,
+  cycleCountStatusLabels,
+  lineStatus,
+  lineStatusLabels,
+  recordCount,
+  scopeLabel,
+  summarize,
+  variance,
+} from "@/lib/cycleCount";
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight, ClipboardCheck } from "lucide-react";
+import { toast } from "sonner";
+
+const CycleCountSession = () => {
+  const navigate = useNavigate();
+  const { sessionId } = useParams();
+  const { storePath } = useStore();
+  const { can } = usePermissions();
+  const { data: items = [] } = useInventory();
+  const { data: sessions = [], isLoading } = useCycleCounts();
+  const saveSession = useSaveCycleCount();
+  const postSession = usePostCycleCount();
+  const session = sessions.find(s => s.id === sessionId);
+
+  // Start on the first line that still needs attention.
+  const [index, setIndex] = useState<number | null>(null);
+  const [quantity, setQuantity] = useState("");
+
+  if (isLoading) {
+    return <div className="min-h-screen flex items-center justify-center text-muted-foreground">Loading count...</div>;
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Cycle count {sessionId} isn't on this device.</p>
+        <Button variant="outline" onClick={() => navigate(storePath("/inventory/cycle-counts"))}>
+          Back to Cycle Counts
+        </Button>
+      </div>
+    );
+  }
+
+  const firstOpen = session.lines.findIndex(line => {
+    const status = lineStatus(line, session.tolerance);
+    return status === 'pending' || status === 'needs_recount';
+  });
+  const current = index ?? Math.max(0, firstOpen);
+  const line = session.lines[current];
+  const status = lineStatus(line, session.tolerance);
+  const summary = summarize(session);
+  const inProgress = session.status === 'in_progress';
+
+  const goTo = (next: number) => {
+    setIndex(Math.min(Math.max(0, next), session.lines.length - 1));
+    setQuantity("");
+  };
+
+  const handleCount = (event: React.FormEvent) => {
+    event.preventDefault();
+    const item = items.find(i => i.id === line.itemId);
+    if (!item) {
+      toast.error(`${line.itemName} is no longer in inventory`);
+      return;
+    }
+    try {
+      const next = recordCount(session, line.itemId, Number(quantity), item.count);
+      saveSession.mutate(next);
+      setQuantity("");
+      // Stay put when a recount is now required; otherwise move to the next open line.
+      if (lineStatus(next.lines[current], next.tolerance) !== 'needs_recount') {
+        const following = next.lines.findIndex((l, i) => i > current && lineStatus(l, next.tolerance) === 'pending');
+        setIndex(following === -1 ? current : following);
+      }
+    } catch (error) {
+      toast.error("Couldn't record count", { description: (error as Error).message });
+    }
+  };
+
+  const handleAbandon = () => {
+    saveSession.mutate({ ...session, status: 'abandoned' });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/inventory/cycle-counts"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Cycle Counts
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <ClipboardCheck className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold flex items-center gap-2">
+                  {scopeLabel(session.scope)}
+                  <Badge variant={session.status === 'posted' ? 'default' : 'secondary'}>
+                    {cycleCountStatusLabels[session.status]}
+                  </Badge>
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.id} · tolerance {Math.round(session.tolerance * 100)}%
+                  {session.postedBy && ` · posted by ${session.postedBy}`}
+                </p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {inProgress && (
+          <Card className="shadow-medium border border-border/50">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>
+                  Item {current + 1} of {session.lines.length}
+                </CardTitle>
+                <span className="text-sm text-muted-foreground">
+                  {summary.counted} of {summary.lines} counted
+                </span>
+              </div>
+              <Progress value={(summary.counted / summary.lines) * 100} />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <h3 className="text-2xl font-bold">{line.itemName}</h3>
+                <p className="text-sm text-muted-foreground">{line.itemId}</p>
+              </div>
+
+              {status === 'needs_recount' && (
+                <div className="flex items-start gap-3 rounded-lg bg-destructive/10 p-4 text-sm">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive" />
+                  <p>
+                    Counted {line.counted} against {line.expected} expected. That's too far off to post — count the
+                    shelf again and enter the recount.
+                  </p>
+                </div>
+              )}
+              {(status === 'matched' || status === 'variance') && (
+                <p className={`text-sm ${status === 'variance' ? "text-warning" : "text-muted-foreground"}`}>
+                  {lineStatusLabels[status]}: counted {line.recount ?? line.counted}, expected {line.expected} (
+                  {variance(line) > 0 ? "+" : ""}
+                  {variance(line)}). Enter a new count to replace it.
+                </p>
+              )}
+
+              <form onSubmit={handleCount} className="flex gap-3 items-end">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="counted-quantity">{status === 'needs_recount' ? "Recount" : "Counted quantity"}</Label>
+                  <Input
+                    id="counted-quantity"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={quantity}
+                    onChange={e => setQuantity(e.target.value)}
+                    autoFocus
+                  />
+                </div>
+                <Button type="submit" disabled={quantity === "" || saveSession.isPending}>
+                  Save
+                </Button>
+              </form>
+
+              <div className="flex justify-between">
+                <Button variant="ghost" onClick={() => goTo(current - 1)} disabled={current === 0} className="gap-1">
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => goTo(current + 1)}
+                  disabled={current === session.lines.length - 1}
+                  className="gap-1"
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{inProgress ? "Review" : "Summary Report"}</CardTitle>
+            {inProgress && (
+              <div className="flex gap-2">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" className="text-destructive">
+                      Abandon
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Abandon this count?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Nothing will be posted and the session can't be resumed.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep Counting</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleAbandon}>Abandon</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                {can('inventory.adjust') && (
+                  <Button onClick={() => postSession.mutate(session)} disabled={!canPost(session) || postSession.isPending}>
+                    Post {adjustmentsFor(session).length} Adjustments
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {inProgress && !can('inventory.adjust') && (
+              <p className="text-sm text-muted-foreground mb-4">A shift lead or manager posts the adjustments once counting is done.</p>
+            )}
+            <CycleCountReport session={session} onSelectLine={inProgress ? goTo : undefined} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default CycleCountSession;
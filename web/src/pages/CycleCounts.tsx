@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useInventory } from "@/hooks/use-inventory";
+import { useCycleCounts, useSaveCycleCount } from "@/hooks/use-cycle-counts";
+import {
+  createSession,
+  cycleCountStatusLabels,
+  CycleCountScope,
+  DEFAULT_TOLERANCE,
+  scopeLabel,
+  scopeOptions,
+  summarize,
+} from "@/lib/cycleCount";
+import { ArrowLeft, ClipboardCheck } from "lucide-react";
+import { toast } from "sonner";
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const CycleCounts = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { user } = useAuth();
+  const { data: items = [] } = useInventory();
+  const { data: sessions = [], isLoading } = useCycleCounts();
+  const saveSession = useSaveCycleCount();
+  const [scopeType, setScopeType] = useState<CycleCountScope['type']>('category');
+  const [scopeValue, setScopeValue] = useState("");
+  const [tolerance, setTolerance] = useState(String(DEFAULT_TOLERANCE * 100));
+
+  const options = scopeOptions(items, scopeType);
+  const parsedTolerance = Number(tolerance);
+  const canStart = !!scopeValue && Number.isFinite(parsedTolerance) && parsedTolerance >= 0;
+
+  const handleStart = (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const session = createSession(items, { type: scopeType, value: scopeValue }, {
+        by: user?.username ?? "unknown",
+        tolerance: parsedTolerance / 100,
+      });
+      saveSession.mutate(session, {
+        onSuccess: () => navigate(storePath(`/inventory/cycle-counts/${session.id}`)),
+      });
+    } catch (error) {
+      toast.error("Couldn't start count", { description: (error as Error).message });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/inventory"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Inventory
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <ClipboardCheck className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">Cycle Counts</h1>
+                <p className="text-sm text-muted-foreground">Count a category or aisle and post the differences</p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader>
+            <CardTitle>New Count</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleStart} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="scope-type">Count by</Label>
+                <Select
+                  value={scopeType}
+                  onValueChange={value => {
+                    setScopeType(value as CycleCountScope['type']);
+                    setScopeValue("");
+                  }}
+                >
+                  <SelectTrigger id="scope-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="category">Category</SelectItem>
+                    <SelectItem value="aisle">Aisle</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scope-value">{scopeType === 'aisle' ? "Aisle" : "Category"}</Label>
+                <Select value={scopeValue} onValueChange={setScopeValue}>
+                  <SelectTrigger id="scope-value">
+                    <SelectValue placeholder="Choose..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {options.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tolerance">Variance tolerance (%)</Label>
+                <Input
+                  id="tolerance"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={tolerance}
+                  onChange={e => setTolerance(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={!canStart || saveSession.isPending}>
+                Start Count
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader>
+            <CardTitle>Sessions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading sessions...</p>
+            ) : sessions.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No cycle counts on this device yet.</p>
+            ) : (
+              sessions.map(session => {
+                const summary = summarize(session);
+                return (
+                  <Link
+                    key={session.id}
+                    to={storePath(`/inventory/cycle-counts/${session.id}`)}
+                    className="flex items-center justify-between rounded-lg border p-4 hover:bg-muted/50 transition-colors"
+                  >
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="outline" className="font-mono text-xs">{session.id}</Badge>
+                        <Badge variant={session.status === 'posted' ? 'default' : 'secondary'}>
+                          {cycleCountStatusLabels[session.status]}
+                        </Badge>
+                      </div>
+                      <p className="font-semibold">{scopeLabel(session.scope)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Started {formatTimestamp(session.createdAt)} by {session.createdBy}
+                      </p>
+                    </div>
+                    <div className="text-right text-sm">
+                      <p>
+                        {summary.counted} / {summary.lines} counted
+                      </p>
+                      {summary.flagged > 0 && <p className="text-warning">{summary.flagged} flagged</p>}
+                    </div>
+                  </Link>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default CycleCounts;
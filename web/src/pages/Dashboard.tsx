@@ -1,27 +1,47 @@
 import { useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Permission, roleLabels } from "@/lib/permissions";
 import { Package2, ShoppingCart, ClipboardList, LogOut } from "lucide-react";
 
+interface DashboardTile {
+  id: string;
+  title: string;
+  icon: typeof Package2;
+  description: string;
+  color: string;
+  path: string;
+  permission: Permission;
+}
+
 const Dashboard = () => {
   const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { user, logout } = useAuth();
+  const { can } = usePermissions();
 
-  const tiles = [
+  const tiles: DashboardTile[] = [
     {
       id: "inventory",
       title: "Inventory",
       icon: Package2,
       description: "Manage stock levels and count inventory",
       color: "bg-primary text-primary-foreground",
-      path: "/inventory"
+      path: "/inventory",
+      permission: "inventory.view"
     },
     {
       id: "merchandising", 
       title: "Merchandising",
       icon: ShoppingCart,
-      description: "Product displays and promotions",
+      description: "Planograms and shelf layouts",
       color: "bg-accent text-accent-foreground",
-      path: "/merchandising"
+      path: "/merchandising",
+      permission: "merchandising.view"
     },
     {
       id: "orders",
@@ -29,12 +49,16 @@ const Dashboard = () => {
       icon: ClipboardList,
       description: "Track orders and replenishment",
       color: "bg-info text-info-foreground",
-      path: "/orders"
+      path: "/orders",
+      permission: "orders.view"
     }
   ];
 
-  const handleLogout = () => {
-    navigate("/");
+  const visibleTiles = tiles.filter(tile => can(tile.permission));
+
+  const handleLogout = async () => {
+    await logout();
+    navigate("/", { replace: true });
   };
 
   return (
@@ -48,8 +72,11 @@ const Dashboard = () => {
             </div>
             <div>
               <h1 className="text-xl font-bold">Inventory Pro</h1>
-              <p className="text-sm text-muted-foreground">Welcome back, Employee</p>
-              <p className="text-xs text-muted-foreground">Store Number: #2847</p>
+              <p className="text-sm text-muted-foreground">
+                Welcome back, {user?.displayName}
+                {user && <span className="ml-1">({roleLabels[user.role]})</span>}
+              </p>
+              <StoreSwitcher />
             </div>
           </div>
           <Button variant="ghost" onClick={handleLogout} className="gap-2">
@@ -69,13 +96,13 @@ const Dashboard = () => {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 max-w-4xl mx-auto">
-          {tiles.map((tile) => {
+          {visibleTiles.map((tile) => {
             const Icon = tile.icon;
             return (
               <Card 
                 key={tile.id}
                 className="group cursor-pointer transition-all duration-300 hover:shadow-strong hover:scale-105 border-0 shadow-medium"
-                onClick={() => navigate(tile.path)}
+                onClick={() => navigate(storePath(tile.path))}
               >
                 <CardContent className="p-8 text-center space-y-4">
                   <div className={`mx-auto w-16 h-16 rounded-2xl ${tile.color} flex items-center justify-center group-hover:scale-110 transition-transform duration-300`}>
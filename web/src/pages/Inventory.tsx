@@ -1,26 +1,68 @@
 import { useState, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import { useScanHandler } from "@/contexts/ScannerContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { inventoryData, categories, InventoryItem as InventoryItemType } from "@/lib/mockData";
+import { InventoryItem as InventoryItemType } from "@/lib/types";
+import { openOrdersByItem, ReorderRequest } from "@/lib/reordering";
+import { findItemByBarcode } from "@/lib/barcodeLookup";
+import { gtinKey } from "@/lib/gtin";
+import { crossedReorderPoint, isLowStock, onOrderQuantity, suggestOrderQuantity } from "@/lib/replenishment";
+import { useInventory, useInventoryLiveUpdates, useUpdateInventoryCount } from "@/hooks/use-inventory";
+import { useCreateOrder, useDraftOrders, useOrders } from "@/hooks/use-orders";
+import { useAutoDraftSetting } from "@/hooks/use-replenishment";
+import { useForecasts } from "@/hooks/use-forecasts";
+import { useEffectivePrices, usePromotions } from "@/hooks/use-promotions";
+import { useShelfLabels } from "@/hooks/use-shelf-labels";
+import { usePermissions } from "@/hooks/use-permissions";
 import InventoryItem from "@/components/InventoryItem";
-import { ArrowLeft, Search, Package2 } from "lucide-react";
+import ReorderDialog from "@/components/ReorderDialog";
+import BarcodeScannerDialog from "@/components/BarcodeScannerDialog";
+import ExportMenu from "@/components/ExportMenu";
+import { exportBasename, inventoryTable } from "@/lib/exports";
+import SyncStatusIndicator from "@/components/SyncStatusIndicator";
+import OutboxIndicator from "@/components/OutboxIndicator";
+import { ArrowLeft, Search, Package2, ClipboardCheck, ScanLine, Tag, Tags } from "lucide-react";
 
 const Inventory = () => {
   const navigate = useNavigate();
-  const [items, setItems] = useState<InventoryItemType[]>(inventoryData);
+  const { store, storePath } = useStore();
+  const { data: items = [], isLoading, error } = useInventory();
+  const updateCount = useUpdateInventoryCount();
+  const feedStatus = useInventoryLiveUpdates();
   const [searchQuery, setSearchQuery] = useState("");
+  const { data: orders = [] } = useOrders();
+  const createOrder = useCreateOrder();
+  const draftOrders = useDraftOrders();
+  const forecasts = useForecasts();
+  const { data: promotions = [] } = usePromotions();
+  const prices = useEffectivePrices(items);
+  const { queue: labelQueue } = useShelfLabels();
+  const [autoDraft] = useAutoDraftSetting();
+  const { can, canReorderItem } = usePermissions();
+  const [reordering, setReordering] = useState<InventoryItemType | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [countPerScan, setCountPerScan] = useState(false);
+  const [lastScan, setLastScan] = useState<{ code: string; itemId?: string } | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const openOrders = useMemo(() => openOrdersByItem(orders), [orders]);
 
   const filteredItems = useMemo(() => {
     if (!searchQuery) return items;
     
+    // A full code matches however it was written (UPC-A, EAN-13 or GTIN-14);
+    // partial digits still match anywhere in the stored code.
+    const barcodeQuery = searchQuery.replace(/[\s-]/g, "");
     return items.filter(item =>
       item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       item.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
       item.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.barcode.includes(searchQuery)
+      (!!barcodeQuery && (item.barcode.includes(barcodeQuery) || gtinKey(item.barcode) === gtinKey(barcodeQuery)))
     );
   }, [items, searchQuery]);
 
@@ -45,16 +87,57 @@ const Inventory = () => {
     return sortedGrouped;
   }, [filteredItems]);
 
-  const handleCountChange = (id: string, newCount: number) => {
-    setItems(prevItems =>
-      prevItems.map(item =>
-        item.id === id ? { ...item, count: newCount } : item
-      )
+  const handleCountChange = (id: string, delta: number) => {
+    const previousCount = items.find(item => item.id === id)?.count ?? 0;
+    updateCount.mutate(
+      { id, delta },
+      {
+        onSuccess: item => {
+          if (!autoDraft || !crossedReorderPoint(item, previousCount) || openOrders.has(item.id)) return;
+          if (!canReorderItem(item)) return;
+          draftOrders.mutate([
+            {
+              item,
+              quantity: forecasts.get(item.id)?.suggestedQuantity || suggestOrderQuantity(item),
+              notes: "Auto-drafted when stock reached the reorder point",
+            },
+          ]);
+        },
+      }
     );
   };
 
+  const showItem = (item: InventoryItemType) => {
+    // Clear a search that would hide the scanned card.
+    if (!filteredItems.includes(item)) setSearchQuery("");
+    setHighlightedId(item.id);
+  };
+
+  const handleScan = (code: string) => {
+    const item = findItemByBarcode(items, code);
+    setLastScan({ code, itemId: item?.id });
+    if (!item) return;
+
+    showItem(item);
+    if (countPerScan && can('inventory.count')) {
+      handleCountChange(item.id, 1);
+    } else {
+      setScanning(false);
+    }
+  };
+
+  // A handheld scanner always counts: each scan is one unit on the shelf.
+  useScanHandler(item => {
+    showItem(item);
+    if (can('inventory.count')) handleCountChange(item.id, 1);
+  });
+
+  const handleReorder = (item: InventoryItemType, request: ReorderRequest) => {
+    createOrder.mutate({ item, request }, { onSuccess: () => setReordering(null) });
+  };
+
   const totalItems = filteredItems.length;
-  const lowStockItems = filteredItems.filter(item => item.count <= 10).length;
+  const lowStockItems = filteredItems.filter(isLowStock).length;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
@@ -63,7 +146,7 @@ const Inventory = () => {
         <div className="container mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <Button variant="ghost" onClick={() => navigate("/dashboard")} className="gap-2">
+              <Button variant="ghost" onClick={() => navigate(storePath("/dashboard"))} className="gap-2">
                 <ArrowLeft className="h-4 w-4" />
                 Back to Dashboard
               </Button>
@@ -76,10 +159,42 @@ const Inventory = () => {
                   <p className="text-sm text-muted-foreground">
                     {totalItems} items • {lowStockItems} low stock
                   </p>
-                  <p className="text-xs text-muted-foreground">Store Number: #2847</p>
+                  <div className="flex items-center gap-2">
+                    <StoreSwitcher />
+                    <SyncStatusIndicator status={feedStatus} />
+                  </div>
                 </div>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => setScanning(true)} className="gap-2">
+                <ScanLine className="h-4 w-4" />
+                Scan
+              </Button>
+              <Button variant="outline" onClick={() => navigate(storePath("/inventory/labels"))} className="gap-2">
+                <Tag className="h-4 w-4" />
+                Labels
+                {labelQueue.length > 0 && <Badge variant="secondary">{labelQueue.length}</Badge>}
+              </Button>
+              {can('inventory.manage') && (
+                <Button variant="outline" onClick={() => navigate(storePath("/inventory/items"))} className="gap-2">
+                  <Tags className="h-4 w-4" />
+                  Item Master
+                </Button>
+              )}
+              {can('inventory.count') && (
+                <Button variant="outline" onClick={() => navigate(storePath("/inventory/cycle-counts"))} className="gap-2">
+                  <ClipboardCheck className="h-4 w-4" />
+                  Cycle Count
+                </Button>
+              )}
+              <ExportMenu
+                basename={exportBasename("inventory", store.id)}
+                rows={() => inventoryTable(filteredItems, promotions)}
+                disabled={filteredItems.length === 0}
+              />
+              <OutboxIndicator />
+            </div>
           </div>
         </div>
       </header>
@@ -116,7 +231,18 @@ const Inventory = () => {
 
         {/* Inventory Categories */}
         <div className="space-y-8">
-          {Object.keys(groupedItems).length === 0 ? (
+          {isLoading ? (
+            <div className="text-center py-12">
+              <Package2 className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+              <p className="text-muted-foreground">Loading inventory...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <Package2 className="h-12 w-12 text-destructive mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Unable to load inventory</h3>
+              <p className="text-muted-foreground">{error.message}</p>
+            </div>
+          ) : Object.keys(groupedItems).length === 0 ? (
             <div className="text-center py-12">
               <Package2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">No items found</h3>
@@ -141,7 +267,12 @@ const Inventory = () => {
                       <InventoryItem
                         key={item.id}
                         item={item}
+                        openOrder={openOrders.get(item.id)}
+                        forecast={forecasts.get(item.id)}
+                        pricing={prices.get(item.id)}
+                        highlighted={item.id === highlightedId}
                         onCountChange={handleCountChange}
+                        onReorder={setReordering}
                       />
                     ))}
                   </div>
@@ -151,6 +282,34 @@ const Inventory = () => {
           )}
         </div>
       </main>
+
+      <BarcodeScannerDialog
+        open={scanning}
+        countPerScan={countPerScan}
+        canCount={can('inventory.count')}
+        lastScan={lastScan && { code: lastScan.code, item: items.find(item => item.id === lastScan.itemId) }}
+        onOpenChange={open => {
+          setScanning(open);
+          if (!open) setLastScan(null);
+        }}
+        onCountPerScanChange={setCountPerScan}
+        onDetected={handleScan}
+      />
+
+      <ReorderDialog
+        key={reordering?.id}
+        item={reordering}
+        openOrder={reordering ? openOrders.get(reordering.id) : undefined}
+        suggestedQuantity={
+          reordering
+            ? forecasts.get(reordering.id)?.suggestedQuantity ||
+              suggestOrderQuantity(reordering, onOrderQuantity(orders, reordering.id))
+            : undefined
+        }
+        isSubmitting={createOrder.isPending}
+        onOpenChange={open => !open && setReordering(null)}
+        onConfirm={handleReorder}
+      />
     </div>
   );
 };
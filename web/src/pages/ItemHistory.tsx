@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useInventory } from "@/hooks/use-inventory";
+import { useCountHistory } from "@/hooks/use-forecasts";
+import { useMovements, useRecordAdjustment } from "@/hooks/use-movements";
+import { useOrderPath } from "@/hooks/use-orders";
+import { usePermissions } from "@/hooks/use-permissions";
+import { movementReasonLabels, stockTimeline } from "@/lib/movements";
+import { ArrowLeft, History, Package2 } from "lucide-react";
+
+const chartConfig = {
+  count: { label: "On hand", color: "hsl(var(--primary))" },
+  net: { label: "Net change", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const ItemHistory = () => {
+  const navigate = useNavigate();
+  const { itemId } = useParams();
+  const { storePath } = useStore();
+  const orderPath = useOrderPath();
+  const { can } = usePermissions();
+  const { data: items = [], isLoading } = useInventory({ includeArchived: true });
+  const { data: snapshots = [] } = useCountHistory();
+  const { data: movements = [], error: movementsError } = useMovements(itemId);
+  const recordAdjustment = useRecordAdjustment();
+  const [delta, setDelta] = useState("");
+  const [note, setNote] = useState("");
+
+  const item = items.find(i => i.id === itemId);
+  const timeline = useMemo(() => (item ? stockTimeline(item, snapshots, movements) : []), [item, snapshots, movements]);
+
+  const parsedDelta = Number(delta);
+  const canSubmit = Number.isInteger(parsedDelta) && parsedDelta !== 0 && note.trim().length > 0;
+
+  const handleAdjust = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!item || !canSubmit) return;
+    recordAdjustment.mutate(
+      { itemId: item.id, delta: parsedDelta, note: note.trim() },
+      {
+        onSuccess: () => {
+          setDelta("");
+          setNote("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/inventory"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Inventory
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <History className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">{item?.name ?? itemId}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {item ? `${item.id} · ${item.category} · ${item.count} on hand` : "Stock history"}
+                </p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Package2 className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-pulse" />
+            <p className="text-muted-foreground">Loading item...</p>
+          </div>
+        ) : !item ? (
+          <div className="text-center py-12">
+            <Package2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Item not found</h3>
+            <p className="text-muted-foreground">{itemId} isn't stocked in this store.</p>
+          </div>
+        ) : (
+          <>
+            <Card className="shadow-medium border border-border/50">
+              <CardHeader>
+                <CardTitle>Last 28 Days</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                  <ComposedChart data={timeline} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Bar dataKey="net" fill="var(--color-net)" opacity={0.4} radius={2} />
+                    <Line
+                      dataKey="count"
+                      type="stepAfter"
+                      stroke="var(--color-count)"
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {can('inventory.adjust') && (
+              <Card className="shadow-medium border border-border/50">
+                <CardHeader>
+                  <CardTitle>Record Adjustment</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleAdjust} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+                    <div className="space-y-2 sm:w-32">
+                      <Label htmlFor="adjust-delta">Change</Label>
+                      <Input
+                        id="adjust-delta"
+                        type="number"
+                        step={1}
+                        placeholder="-2"
+                        value={delta}
+                        onChange={e => setDelta(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2 flex-1">
+                      <Label htmlFor="adjust-note">Reason</Label>
+                      <Input
+                        id="adjust-note"
+                        placeholder="e.g. two bottles broken in the back room"
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                      />
+                    </div>
+                    <Button type="submit" disabled={!canSubmit || recordAdjustment.isPending}>
+                      Record
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="shadow-medium border border-border/50">
+              <CardHeader>
+                <CardTitle>Movements ({movements.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {movementsError ? (
+                  <p className="text-center py-8 text-destructive">{movementsError.message}</p>
+                ) : movements.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No changes recorded for this item yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Count After</TableHead>
+                        <TableHead>Who</TableHead>
+                        <TableHead>Device</TableHead>
+                        <TableHead>Note</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {movements.map(movement => (
+                        <TableRow key={movement.id}>
+                          <TableCell className="whitespace-nowrap">{formatTimestamp(movement.at)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{movementReasonLabels[movement.reason]}</Badge>
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-semibold ${movement.delta > 0 ? "text-success" : "text-destructive"}`}
+                          >
+                            {movement.delta > 0 ? "+" : ""}
+                            {movement.delta}
+                          </TableCell>
+                          <TableCell className="text-right">{movement.countAfter ?? "—"}</TableCell>
+                          <TableCell>{movement.actor}</TableCell>
+                          <TableCell className="font-mono text-xs text-muted-foreground">
+                            {movement.device.slice(0, 12)}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {movement.orderId && (
+                              <Link to={orderPath(movement.orderId)} className="text-primary underline mr-1">
+                                {movement.orderId}
+                              </Link>
+                            )}
+                            {movement.note}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ItemHistory;
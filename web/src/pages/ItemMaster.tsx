@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import ItemEditorDialog from "@/components/ItemEditorDialog";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
+import ProductImage from "@/components/ProductImage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCreateItem, useInventory, useUpdateItem } from "@/hooks/use-inventory";
+import { usePendingStatuses } from "@/hooks/use-outbox";
+import { ItemFormValues, toItemDetails } from "@/lib/itemMaster";
+import type { InventoryItem } from "@/lib/types";
+import { Archive, ArchiveRestore, ArrowLeft, FileUp, Pencil, Plus, Search, Tags } from "lucide-react";
+
+const ItemMaster = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { data: items = [], isLoading, error } = useInventory({ includeArchived: true });
+  const createItem = useCreateItem();
+  const updateItem = useUpdateItem();
+  const pendingStatuses = usePendingStatuses();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  // The open editor: `item` is absent when adding a new one.
+  const [editor, setEditor] = useState<{ item?: InventoryItem } | null>(null);
+
+  const archivedCount = items.filter(item => item.archived).length;
+  const visibleItems = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return items
+      .filter(item => showArchived || !item.archived)
+      .filter(
+        item =>
+          !query ||
+          item.name.toLowerCase().includes(query) ||
+          item.id.toLowerCase().includes(query) ||
+          item.category.toLowerCase().includes(query) ||
+          item.barcode.includes(query)
+      )
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }, [items, searchQuery, showArchived]);
+
+  const handleSave = (values: ItemFormValues) => {
+    const details = toItemDetails(values);
+    const onSuccess = () => setEditor(null);
+    if (editor?.item) {
+      updateItem.mutate({ id: editor.item.id, changes: details }, { onSuccess });
+    } else {
+      createItem.mutate({ item: { ...details, id: values.id, count: 0 }, openingCount: values.openingCount }, { onSuccess });
+    }
+  };
+
+  const setArchived = (item: InventoryItem, archived: boolean) => {
+    updateItem.mutate({ id: item.id, changes: { archived } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => navigate(storePath("/inventory"))} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Inventory
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <Tags className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Item Master</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {items.length - archivedCount} active • {archivedCount} archived
+                  </p>
+                  <StoreSwitcher />
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => navigate(storePath("/inventory/import"))} className="gap-2">
+                <FileUp className="h-4 w-4" />
+                Import
+              </Button>
+              <Button onClick={() => setEditor({})} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Item
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8">
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <CardTitle>Catalog</CardTitle>
+            <div className="flex items-center gap-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search name, ID, category or barcode..."
+                  value={searchQuery}
+                  onChange={e => setSearchQuery(e.target.value)}
+                  className="pl-10 w-72"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+                <Label htmlFor="show-archived">Show archived</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading catalog...</p>
+            ) : error ? (
+              <p className="text-center py-8 text-destructive">{error.message}</p>
+            ) : visibleItems.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No items match.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Barcode</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Reorder / Par</TableHead>
+                    <TableHead>Aisle</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleItems.map(item => (
+                    <TableRow key={item.id} className={item.archived ? "opacity-60" : ""}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <ProductImage item={item} className="h-10 w-10 rounded shrink-0" />
+                          <div>
+                            <Link
+                              to={storePath(`/inventory/${encodeURIComponent(item.id)}`)}
+                              className="font-medium hover:underline"
+                            >
+                              {item.name}
+                            </Link>
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs text-muted-foreground font-mono">{item.id}</span>
+                              {item.archived && <Badge variant="secondary">Archived</Badge>}
+                              <PendingSyncBadge status={pendingStatuses.get(item.id)} />
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>{item.category}</TableCell>
+                      <TableCell className="font-mono text-xs">{item.barcode || "—"}</TableCell>
+                      <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {item.reorderPoint} / {item.parLevel}
+                      </TableCell>
+                      <TableCell>{item.aisle ?? "—"}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setEditor({ item })} className="gap-1">
+                            <Pencil className="h-3 w-3" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setArchived(item, !item.archived)}
+                            disabled={updateItem.isPending && updateItem.variables?.id === item.id}
+                            className="gap-1"
+                          >
+                            {item.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                            {item.archived ? "Restore" : "Archive"}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {editor && (
+        <ItemEditorDialog
+          key={editor.item?.id ?? "new"}
+          open
+          item={editor.item}
+          items={items}
+          isSubmitting={createItem.isPending || updateItem.isPending}
+          onOpenChange={open => !open && setEditor(null)}
+          onSubmit={handleSave}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ItemMaster;
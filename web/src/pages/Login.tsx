@@ -1,20 +1,41 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { AuthError, stubAccounts } from "@/lib/auth";
+import { syncGatewayConfig } from "@/lib/config";
 import { Package } from "lucide-react";
 
 const Login = () => {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const { session, login } = useAuth();
+  const from = location.state?.from?.pathname ?? "/dashboard";
 
-  const handleLogin = (e: React.FormEvent) => {
+  if (session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (username && password) {
-      navigate("/dashboard");
+    if (!username || !password) return;
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await login(username, password);
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof AuthError ? err.message : "Unable to reach the server. Please try again.");
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -65,14 +86,26 @@ const Login = () => {
               />
             </div>
             
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+
             <Button 
               type="submit" 
               className="w-full h-11 text-base"
-              disabled={!username || !password}
+              disabled={!username || !password || isSubmitting}
             >
-              Sign In
+              {isSubmitting ? "Signing In..." : "Sign In"}
             </Button>
           </form>
+
+          {!syncGatewayConfig && (
+            <p className="mt-4 text-center text-xs text-muted-foreground">
+              Demo mode: sign in as {Object.keys(stubAccounts).join(", ")} with password "password"
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,59 +1,164 @@
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, ShoppingCart, Construction } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePlanogramVersions, useSavePlanogram } from "@/hooks/use-planograms";
+import { createPlanogram, currentPlanograms, facingCount } from "@/lib/planogram";
+import { ArrowLeft, BadgePercent, LayoutGrid, ScanSearch, ShoppingCart } from "lucide-react";
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
 
 const Merchandising = () => {
   const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { data: versions = [], isLoading, error } = usePlanogramVersions();
+  const savePlanogram = useSavePlanogram();
+  const [name, setName] = useState("");
+
+  const planograms = currentPlanograms(versions);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    const planogram = createPlanogram(name.trim(), user?.username ?? "unknown");
+    savePlanogram.mutate(planogram, {
+      onSuccess: () => navigate(storePath(`/merchandising/planograms/${planogram.id}`)),
+    });
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
       {/* Header */}
       <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
         <div className="container mx-auto px-6 py-4">
-          <div className="flex items-center gap-4">
-            <Button variant="ghost" onClick={() => navigate("/dashboard")} className="gap-2">
-              <ArrowLeft className="h-4 w-4" />
-              Back to Dashboard
-            </Button>
-            <div className="flex items-center gap-3">
-              <div className="p-2 rounded-lg bg-accent/10">
-                <ShoppingCart className="h-5 w-5 text-accent" />
-              </div>
-              <div>
-                <h1 className="text-xl font-bold">Merchandising</h1>
-                <p className="text-sm text-muted-foreground">
-                  Product displays and promotional management
-                </p>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => navigate(storePath("/dashboard"))} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Dashboard
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-accent/10">
+                  <ShoppingCart className="h-5 w-5 text-accent" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Merchandising</h1>
+                  <p className="text-sm text-muted-foreground">
+                    Planograms for this store's fixtures
+                  </p>
+                  <StoreSwitcher />
+                </div>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => navigate(storePath("/merchandising/promotions"))}
+                className="gap-2"
+              >
+                <BadgePercent className="h-4 w-4" />
+                Promotions
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate(storePath("/merchandising/compliance"))}
+                className="gap-2"
+              >
+                <ScanSearch className="h-4 w-4" />
+                Compliance
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
-      <main className="container mx-auto px-6 py-8">
-        <Card className="shadow-medium border border-border/50 max-w-2xl mx-auto">
-          <CardHeader className="text-center">
-            <div className="flex justify-center mb-4">
-              <div className="p-4 rounded-full bg-accent/10">
-                <Construction className="h-12 w-12 text-accent" />
-              </div>
-            </div>
-            <CardTitle className="text-2xl">Coming Soon</CardTitle>
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {can('merchandising.manage') && (
+          <Card className="shadow-medium border border-border/50">
+            <CardHeader>
+              <CardTitle>New Planogram</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-end gap-4">
+                <div className="space-y-2 flex-1 max-w-md">
+                  <Label htmlFor="planogram-name">Name</Label>
+                  <Input
+                    id="planogram-name"
+                    value={name}
+                    placeholder="e.g. Aisle 3 – Spirits"
+                    onChange={e => setName(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" disabled={!name.trim() || savePlanogram.isPending}>
+                  Create
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <LayoutGrid className="h-5 w-5" />
+              Planograms
+            </CardTitle>
           </CardHeader>
-          <CardContent className="text-center space-y-4">
-            <p className="text-lg text-muted-foreground">
-              The Merchandising module is currently under development.
-            </p>
-            <p className="text-muted-foreground">
-              This section will include features for managing product displays, 
-              promotional campaigns, and visual merchandising tools.
-            </p>
-            <div className="pt-6">
-              <Button onClick={() => navigate("/dashboard")}>
-                Return to Dashboard
-              </Button>
-            </div>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading planograms...</p>
+            ) : error ? (
+              <p className="text-center py-8 text-destructive">{error.message}</p>
+            ) : planograms.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No planograms yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Planogram</TableHead>
+                    <TableHead className="text-right">Fixtures</TableHead>
+                    <TableHead className="text-right">Facings</TableHead>
+                    <TableHead className="text-right">Version</TableHead>
+                    <TableHead>Last saved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {planograms.map(planogram => (
+                    <TableRow key={planogram.id}>
+                      <TableCell>
+                        <Link
+                          to={storePath(`/merchandising/planograms/${planogram.id}`)}
+                          className="font-medium hover:underline"
+                        >
+                          {planogram.name}
+                        </Link>
+                        <div className="text-xs text-muted-foreground font-mono">{planogram.id}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{planogram.fixtures.length}</TableCell>
+                      <TableCell className="text-right">{facingCount(planogram)}</TableCell>
+                      <TableCell className="text-right">{planogram.version}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatTimestamp(planogram.savedAt)} · {planogram.savedBy}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -61,4 +166,4 @@ const Merchandising = () => {
   );
 };
 
-export default Merchandising;
\ No newline at end of file
+export default Merchandising;
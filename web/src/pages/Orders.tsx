@@ -1,113 +1,103 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import { useScanHandler } from "@/contexts/ScannerContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ordersData, Order } from "@/lib/mockData";
-import { ArrowLeft, ClipboardList, Package, CheckCircle } from "lucide-react";
+import { Order, OrderStatus } from "@/lib/types";
+import { isOpenOrder } from "@/lib/orderLifecycle";
+import { canReceive as isReceivable } from "@/lib/receiving";
+import { useOrders, useReceiveOrder, useTransitionOrder } from "@/hooks/use-orders";
+import { usePendingStatuses } from "@/hooks/use-outbox";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useSuggestedOrders } from "@/hooks/use-replenishment";
+import { useVendors } from "@/hooks/use-vendors";
+import { vendorDrafts } from "@/lib/vendors";
+import OutboxIndicator from "@/components/OutboxIndicator";
+import OrderCard from "@/components/OrderCard";
+import ReceiveOrderDialog from "@/components/ReceiveOrderDialog";
+import DraftPurchaseOrders from "@/components/DraftPurchaseOrders";
+import ExportMenu from "@/components/ExportMenu";
+import { exportBasename, ordersTable } from "@/lib/exports";
 import { toast } from "sonner";
+import { ArrowLeft, ClipboardList, Package, CheckCircle, XCircle, Lightbulb, Truck } from "lucide-react";
 
 const Orders = () => {
   const navigate = useNavigate();
-  const [orders, setOrders] = useState<Order[]>(ordersData);
+  const { store, storePath } = useStore();
+  const { data: orders = [] } = useOrders();
+  const transition = useTransitionOrder();
+  const receive = useReceiveOrder();
+  const [receiving, setReceiving] = useState<Order | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const highlightedId = searchParams.get("order");
+  const [tab, setTab] = useState("open");
+  const pendingStatuses = usePendingStatuses();
+  const { can } = usePermissions();
+  const canReceive = can('orders.receive');
+  const { suggestions } = useSuggestedOrders();
+  const { data: vendors = [] } = useVendors();
+  const drafts = useMemo(() => vendorDrafts(orders, vendors), [orders, vendors]);
 
-  const submittedOrders = orders.filter(order => order.status === 'submitted');
-  const receivedOrders = orders.filter(order => order.status === 'received');
+  const openOrders = orders.filter(isOpenOrder);
+  const receivedOrders = orders.filter(order => order.status === 'received' || order.status === 'closed');
+  const cancelledOrders = orders.filter(order => order.status === 'cancelled');
+  const ordersByTab: Record<string, Order[]> = { open: openOrders, received: receivedOrders, cancelled: cancelledOrders };
 
-  const handleOrderReceived = (orderId: string) => {
-    setOrders(prevOrders =>
-      prevOrders.map(order =>
-        order.id === orderId 
-          ? { ...order, status: 'received' as const, date: new Date().toISOString().split('T')[0] }
-          : order
-      )
-    );
-    
-    toast.success("Order marked as received", {
-      description: "The order has been moved to the received tab",
-    });
+  // Links from inventory cards open the tab that holds the linked order.
+  const highlighted = orders.find(order => order.id === highlightedId);
+  const highlightedTab = highlighted
+    ? isOpenOrder(highlighted) ? "open" : highlighted.status === 'cancelled' ? "cancelled" : "received"
+    : null;
+  useEffect(() => {
+    if (highlightedTab) setTab(highlightedTab);
+  }, [highlightedId, highlightedTab]);
+
+  // A scanned item opens its order for receiving, oldest first when it has several.
+  useScanHandler(item => {
+    const order = orders
+      .filter(o => o.itemId === item.id && isReceivable(o))
+      .sort((a, b) => a.date.localeCompare(b.date))[0];
+    if (!order) {
+      toast.error(`No order to receive for ${item.name}`);
+      return;
+    }
+    setSearchParams({ order: order.id }, { replace: true });
+    if (canReceive) setReceiving(order);
+  });
+
+  const handleTransition = (order: Order, to: OrderStatus) => {
+    transition.mutate({ order, to });
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric'
-    });
+  const handleReceive = (order: Order, quantity: number, note?: string) => {
+    receive.mutate({ order, quantity, note }, { onSuccess: () => setReceiving(null) });
   };
 
-  const OrderList = ({ orders, showReceiveButton = false }: { orders: Order[], showReceiveButton?: boolean }) => (
+  const OrderList = ({ orders, emptyMessage }: { orders: Order[], emptyMessage: string }) => (
     <div className="space-y-4">
       {orders.length === 0 ? (
         <div className="text-center py-12">
           <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
           <h3 className="text-lg font-semibold mb-2">No orders found</h3>
-          <p className="text-muted-foreground">
-            {showReceiveButton ? "No submitted orders at this time." : "No received orders yet."}
-          </p>
+          <p className="text-muted-foreground">{emptyMessage}</p>
         </div>
       ) : (
         orders.map((order) => (
-          <Card key={order.id} className="shadow-soft border border-border/50 hover:shadow-medium transition-shadow">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-2">
-                    <Badge variant="outline" className="font-mono text-xs">
-                      {order.id}
-                    </Badge>
-                    <Badge 
-                      variant={order.status === 'received' ? 'default' : 'secondary'}
-                      className="capitalize"
-                    >
-                      {order.status}
-                    </Badge>
-                  </div>
-                  
-                  <h4 className="text-lg font-semibold mb-1">{order.itemName}</h4>
-                  
-                  <div className="grid grid-cols-2 gap-4 text-sm text-muted-foreground">
-                    <div>
-                      <span className="font-medium">Item ID:</span> {order.itemId}
-                    </div>
-                    <div>
-                      <span className="font-medium">Quantity:</span> {order.count} units
-                    </div>
-                    <div>
-                      <span className="font-medium">Date:</span> {formatDate(order.date)}
-                    </div>
-                    <div>
-                      <span className="font-medium">Status:</span> 
-                      <span className={`ml-1 capitalize ${order.status === 'received' ? 'text-success' : 'text-warning'}`}>
-                        {order.status}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-
-                {showReceiveButton && order.status === 'submitted' && (
-                  <div className="ml-6">
-                    <Button 
-                      onClick={() => handleOrderReceived(order.id)}
-                      variant="default"
-                      className="gap-2"
-                    >
-                      <CheckCircle className="h-4 w-4" />
-                      Order Received
-                    </Button>
-                  </div>
-                )}
-
-                {order.status === 'received' && (
-                  <div className="ml-6 flex items-center gap-2 text-success">
-                    <CheckCircle className="h-5 w-5" />
-                    <span className="text-sm font-medium">Received</span>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          <OrderCard
+            key={order.id}
+            order={order}
+            syncStatus={pendingStatuses.get(order.id)}
+            highlighted={order.id === highlightedId}
+            isUpdating={
+              (transition.isPending && transition.variables?.order.id === order.id) ||
+              (receive.isPending && receive.variables?.order.id === order.id)
+            }
+            onTransition={handleTransition}
+            onReceive={setReceiving}
+          />
         ))
       )}
     </div>
@@ -118,23 +108,38 @@ const Orders = () => {
       {/* Header */}
       <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
         <div className="container mx-auto px-6 py-4">
-          <div className="flex items-center gap-4">
-            <Button variant="ghost" onClick={() => navigate("/dashboard")} className="gap-2">
-              <ArrowLeft className="h-4 w-4" />
-              Back to Dashboard
-            </Button>
-            <div className="flex items-center gap-3">
-              <div className="p-2 rounded-lg bg-info/10">
-                <ClipboardList className="h-5 w-5 text-info" />
-              </div>
-              <div>
-                <h1 className="text-xl font-bold">Orders Management</h1>
-                <p className="text-sm text-muted-foreground">
-                  Track and manage inventory replenishment orders
-                </p>
-                <p className="text-xs text-muted-foreground">Store Number: #2847</p>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => navigate(storePath("/dashboard"))} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Dashboard
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-info/10">
+                  <ClipboardList className="h-5 w-5 text-info" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Orders Management</h1>
+                  <p className="text-sm text-muted-foreground">
+                    Track and manage inventory replenishment orders
+                  </p>
+                  <StoreSwitcher />
+                </div>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => navigate(storePath("/orders/vendors"))} className="gap-2">
+                <Truck className="h-4 w-4" />
+                Vendors
+              </Button>
+              {can('orders.manage') && (
+                <Button variant="outline" onClick={() => navigate(storePath("/orders/suggested"))} className="gap-2">
+                  <Lightbulb className="h-4 w-4" />
+                  Suggested Orders ({suggestions.length})
+                </Button>
+              )}
+              <OutboxIndicator />
+            </div>
           </div>
         </div>
       </header>
@@ -144,8 +149,8 @@ const Orders = () => {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <Card className="shadow-medium border border-border/50">
             <CardContent className="p-6 text-center">
-              <div className="text-2xl font-bold text-warning mb-2">{submittedOrders.length}</div>
-              <p className="text-sm text-muted-foreground">Submitted Orders</p>
+              <div className="text-2xl font-bold text-warning mb-2">{openOrders.length}</div>
+              <p className="text-sm text-muted-foreground">Open Orders</p>
             </CardContent>
           </Card>
           
@@ -164,36 +169,49 @@ const Orders = () => {
           </Card>
         </div>
 
+        {can('orders.manage') && drafts.length > 0 && <DraftPurchaseOrders groups={drafts} />}
+
         {/* Orders Tabs */}
         <Card className="shadow-medium border border-border/50">
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               <ClipboardList className="h-5 w-5" />
               Order Tracking
             </CardTitle>
+            <ExportMenu
+              basename={exportBasename(`orders-${tab}`, store.id)}
+              rows={() => ordersTable(ordersByTab[tab])}
+              disabled={ordersByTab[tab].length === 0}
+            />
           </CardHeader>
           <CardContent className="p-6">
-            <Tabs defaultValue="submitted" className="w-full">
-              <TabsList className="grid w-full grid-cols-2 mb-6">
-                <TabsTrigger value="submitted" className="gap-2">
+            <Tabs value={tab} onValueChange={setTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-3 mb-6">
+                <TabsTrigger value="open" className="gap-2">
                   <Package className="h-4 w-4" />
-                  Submitted ({submittedOrders.length})
+                  Open ({openOrders.length})
                 </TabsTrigger>
                 <TabsTrigger value="received" className="gap-2">
                   <CheckCircle className="h-4 w-4" />
                   Received ({receivedOrders.length})
                 </TabsTrigger>
+                <TabsTrigger value="cancelled" className="gap-2">
+                  <XCircle className="h-4 w-4" />
+                  Cancelled ({cancelledOrders.length})
+                </TabsTrigger>
               </TabsList>
               
-              <TabsContent value="submitted" className="space-y-4">
+              <TabsContent value="open" className="space-y-4">
                 <div className="mb-4">
                   <h3 className="text-lg font-semibold mb-2">Orders in Progress</h3>
                   <p className="text-sm text-muted-foreground">
-                    These orders have been submitted and are awaiting delivery. 
-                    Click "Order Received" when items arrive.
+                    These orders are being prepared, are with the supplier, or are on their way.{" "}
+                    {canReceive
+                      ? 'Click "Receive Items" when a delivery arrives to add it to stock.'
+                      : "A shift lead or manager will mark them received when items arrive."}
                   </p>
                 </div>
-                <OrderList orders={submittedOrders} showReceiveButton={true} />
+                <OrderList orders={openOrders} emptyMessage="No open orders at this time." />
               </TabsContent>
               
               <TabsContent value="received" className="space-y-4">
@@ -203,12 +221,29 @@ const Orders = () => {
                     These orders have been received and added to your inventory.
                   </p>
                 </div>
-                <OrderList orders={receivedOrders} />
+                <OrderList orders={receivedOrders} emptyMessage="No received orders yet." />
+              </TabsContent>
+
+              <TabsContent value="cancelled" className="space-y-4">
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold mb-2">Cancelled Orders</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Orders that were cancelled before they shipped.
+                  </p>
+                </div>
+                <OrderList orders={cancelledOrders} emptyMessage="No cancelled orders." />
               </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
       </main>
+
+      <ReceiveOrderDialog
+        order={receiving}
+        isSubmitting={receive.isPending}
+        onOpenChange={open => !open && setReceiving(null)}
+        onConfirm={handleReceive}
+      />
     </div>
   );
 };
@@ -0,0 +1,264 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import ShelfScanPhotoDialog from "@/components/ShelfScanPhotoDialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useInventory } from "@/hooks/use-inventory";
+import { usePlanogramVersions } from "@/hooks/use-planograms";
+import { useShelfScans } from "@/hooks/use-shelf-scans";
+import {
+  ComplianceIssueKind,
+  complianceIssueLabels,
+  fixtureCompliance,
+  FixtureCompliance,
+  ShelfScan,
+} from "@/lib/compliance";
+import { currentPlanograms, Planogram } from "@/lib/planogram";
+import { ArrowLeft, Camera, ScanSearch } from "lucide-react";
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const scoreColor = (score: number) => {
+  if (score >= 90) return "text-success";
+  return score >= 70 ? "text-warning" : "text-destructive";
+};
+
+const issueVariants: Record<ComplianceIssueKind, "destructive" | "secondary" | "outline"> = {
+  out_of_stock: "destructive",
+  missing: "secondary",
+  misplaced: "outline",
+};
+
+interface PhotoView {
+  scan: ShelfScan;
+  title: string;
+  plannedItemIds: Set<string>;
+}
+
+const PlanogramCompliance = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { data: versions = [], isLoading: planogramsLoading } = usePlanogramVersions();
+  const { data: scans = [], isLoading: scansLoading, error } = useShelfScans();
+  const { data: items = [] } = useInventory({ includeArchived: true });
+  const [photo, setPhoto] = useState<PhotoView | null>(null);
+
+  const results = useMemo(
+    () =>
+      currentPlanograms(versions).map(planogram => ({
+        planogram,
+        fixtures: fixtureCompliance(planogram, versions, scans, items),
+      })),
+    [versions, scans, items]
+  );
+  const scored = results.flatMap(({ fixtures }) => fixtures).filter(fixture => fixture.score !== null);
+  const averageScore = scored.length
+    ? Math.round(scored.reduce((sum, fixture) => sum + fixture.score, 0) / scored.length)
+    : null;
+  const issueCounts = results
+    .flatMap(({ fixtures }) => fixtures.flatMap(fixture => fixture.issues))
+    .reduce<Partial<Record<ComplianceIssueKind, number>>>(
+      (counts, issue) => ({ ...counts, [issue.kind]: (counts[issue.kind] ?? 0) + 1 }),
+      {}
+    );
+
+  const showPhoto = (planogram: Planogram, { fixture }: FixtureCompliance, scan: ShelfScan) => {
+    const scannedFixture = planogram.fixtures.find(f => f.id === fixture.id) ?? fixture;
+    setPhoto({
+      scan,
+      title: `${fixture.name}, shelf ${scan.shelfIndex + 1}`,
+      plannedItemIds: new Set(scannedFixture.shelves[scan.shelfIndex]?.positions.map(p => p.itemId) ?? []),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/merchandising"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Merchandising
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-accent/10">
+                <ScanSearch className="h-5 w-5 text-accent" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">Planogram Compliance</h1>
+                <p className="text-sm text-muted-foreground">From shelf scans taken in the mobile app</p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {planogramsLoading || scansLoading ? (
+          <p className="text-center py-12 text-muted-foreground">Loading scans...</p>
+        ) : error ? (
+          <p className="text-center py-12 text-destructive">{error.message}</p>
+        ) : results.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">
+            No planograms yet. Create one before scanning shelves.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="py-4">
+                  <p className="text-sm text-muted-foreground">Average score</p>
+                  <p className={`text-3xl font-bold ${averageScore === null ? "" : scoreColor(averageScore)}`}>
+                    {averageScore === null ? "—" : `${averageScore}%`}
+                  </p>
+                </CardContent>
+              </Card>
+              {(Object.keys(complianceIssueLabels) as ComplianceIssueKind[]).map(kind => (
+                <Card key={kind}>
+                  <CardContent className="py-4">
+                    <p className="text-sm text-muted-foreground">{complianceIssueLabels[kind]}</p>
+                    <p className="text-3xl font-bold">{issueCounts[kind] ?? 0}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {results.map(({ planogram, fixtures }) => (
+              <section key={planogram.id} className="space-y-4">
+                <h2 className="text-lg font-semibold">
+                  <Link
+                    to={storePath(`/merchandising/planograms/${planogram.id}`)}
+                    className="hover:underline"
+                  >
+                    {planogram.name}
+                  </Link>
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">version {planogram.version}</span>
+                </h2>
+                {fixtures.map(result => (
+                  <Card key={result.fixture.id} className="shadow-medium border border-border/50">
+                    <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                      <div>
+                        <CardTitle>{result.fixture.name}</CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          {result.fixture.aisle ? `Aisle ${result.fixture.aisle} · ` : ""}
+                          {result.lastScannedAt
+                            ? `Last scanned ${formatTimestamp(result.lastScannedAt)}`
+                            : "Not scanned yet"}
+                        </p>
+                      </div>
+                      {result.score !== null && (
+                        <div className={`text-3xl font-bold ${scoreColor(result.score)}`}>{result.score}%</div>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex flex-wrap gap-2">
+                        {result.shelves.map(shelf => (
+                          <Button
+                            key={shelf.shelfIndex}
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            disabled={!shelf.scan}
+                            onClick={() =>
+                              showPhoto(
+                                versions.find(
+                                  v => v.id === planogram.id && v.version === shelf.scan.planogramVersion
+                                ) ?? planogram,
+                                result,
+                                shelf.scan
+                              )
+                            }
+                          >
+                            <Camera className="h-3 w-3" />
+                            Shelf {shelf.shelfIndex + 1}:{" "}
+                            {shelf.scan ? `${shelf.matched}/${shelf.planned}` : "not scanned"}
+                            {shelf.unrecognised > 0 && ` · ${shelf.unrecognised} unrecognised`}
+                            {shelf.scan && shelf.scan.planogramVersion < planogram.version && (
+                              <Badge variant="secondary" className="ml-1">
+                                v{shelf.scan.planogramVersion}
+                              </Badge>
+                            )}
+                          </Button>
+                        ))}
+                      </div>
+                      {result.issues.length > 0 ? (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-20">Shelf</TableHead>
+                              <TableHead>Product</TableHead>
+                              <TableHead>Issue</TableHead>
+                              <TableHead className="text-right">Planned</TableHead>
+                              <TableHead className="text-right">Found</TableHead>
+                              <TableHead>Note</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {result.issues.map((issue, index) => (
+                              <TableRow key={index}>
+                                <TableCell>{issue.shelfIndex + 1}</TableCell>
+                                <TableCell>
+                                  {issue.itemId ? (
+                                    <Link
+                                      to={storePath(`/inventory/${encodeURIComponent(issue.itemId)}`)}
+                                      className="hover:underline"
+                                    >
+                                      {issue.itemName}
+                                    </Link>
+                                  ) : (
+                                    issue.itemName
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  <Badge variant={issueVariants[issue.kind]}>
+                                    {complianceIssueLabels[issue.kind]}
+                                  </Badge>
+                                </TableCell>
+                                <TableCell className="text-right">{issue.expected}</TableCell>
+                                <TableCell className="text-right">{issue.found}</TableCell>
+                                <TableCell className="text-sm text-muted-foreground">{issue.note ?? ""}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      ) : (
+                        result.score !== null && (
+                          <p className="text-sm text-muted-foreground">Every scanned shelf matches the planogram.</p>
+                        )
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </section>
+            ))}
+          </>
+        )}
+      </main>
+
+      {photo && (
+        <ShelfScanPhotoDialog
+          key={photo.scan.id}
+          scan={photo.scan}
+          title={photo.title}
+          plannedItemIds={photo.plannedItemIds}
+          items={items}
+          onOpenChange={open => !open && setPhoto(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlanogramCompliance;
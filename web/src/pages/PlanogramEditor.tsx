@@ -0,0 +1,289 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import PlanogramFixtureEditor from "@/components/PlanogramFixtureEditor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useInventory } from "@/hooks/use-inventory";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePlanogramVersions, useSavePlanogram } from "@/hooks/use-planograms";
+import {
+  createFixture,
+  facingCount,
+  nextVersion,
+  Planogram,
+  PlanogramFixture,
+  validatePlanogram,
+  versionsOf,
+} from "@/lib/planogram";
+import type { InventoryItem } from "@/lib/types";
+import { AlertTriangle, ArrowLeft, LayoutGrid, Plus } from "lucide-react";
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const sameLayout = (a: Planogram, b: Planogram) =>
+  a.name === b.name && JSON.stringify(a.fixtures) === JSON.stringify(b.fixtures);
+
+interface PlanogramWorkspaceProps {
+  // The version edits start from; older versions are shown read-only.
+  planogram: Planogram;
+  latest: Planogram;
+  items: InventoryItem[];
+  readOnly: boolean;
+  // Whether an older version may be saved again as the newest one.
+  canRestore: boolean;
+}
+
+// Edits are kept locally until saved as the next version. Mounted once per
+// version viewed, so saving doesn't reset what's on screen.
+const PlanogramWorkspace = ({ planogram, latest, items, readOnly, canRestore }: PlanogramWorkspaceProps) => {
+  const { user } = useAuth();
+  const savePlanogram = useSavePlanogram();
+  const [, setSearchParams] = useSearchParams();
+  const [base, setBase] = useState(planogram);
+  const [draft, setDraft] = useState(planogram);
+  const [note, setNote] = useState("");
+
+  const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+  const placeable = useMemo(
+    () => items.filter(item => !item.archived).sort((a, b) => a.name.localeCompare(b.name)),
+    [items]
+  );
+  const problems = validatePlanogram(draft, items);
+  const dirty = !sameLayout(draft, base);
+  const isHistorical = readOnly && base.version < latest.version;
+  const overtaken = !readOnly && latest.version > base.version;
+
+  const updateFixture = (fixture: PlanogramFixture) =>
+    setDraft(current => ({ ...current, fixtures: current.fixtures.map(f => (f.id === fixture.id ? fixture : f)) }));
+
+  const removeFixture = (id: string) =>
+    setDraft(current => ({ ...current, fixtures: current.fixtures.filter(f => f.id !== id) }));
+
+  const addFixture = () =>
+    setDraft(current => ({
+      ...current,
+      fixtures: [...current.fixtures, createFixture(`Fixture ${current.fixtures.length + 1}`)],
+    }));
+
+  const loadLatest = () => {
+    setBase(latest);
+    setDraft(latest);
+  };
+
+  const handleSave = () =>
+    savePlanogram.mutate(nextVersion(draft, { by: user?.username ?? "unknown", note }), {
+      onSuccess: saved => {
+        setBase(saved);
+        setDraft(saved);
+        setNote("");
+      },
+    });
+
+  const handleRestore = () =>
+    savePlanogram.mutate(
+      nextVersion({ ...base, version: latest.version }, {
+        by: user?.username ?? "unknown",
+        note: `Restored version ${base.version}`,
+      }),
+      { onSuccess: () => setSearchParams({}) }
+    );
+
+  return (
+    <div className="space-y-6">
+      {overtaken && (
+        <Card className="border-warning">
+          <CardContent className="py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="flex items-center gap-2 text-sm">
+              <AlertTriangle className="h-4 w-4 text-warning" />
+              {latest.savedBy} saved version {latest.version} after you opened version {base.version}.
+            </p>
+            <Button variant="outline" size="sm" onClick={loadLatest}>
+              Load version {latest.version}{dirty ? " and discard my changes" : ""}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-medium border border-border/50">
+        <CardContent className="py-4 flex flex-col lg:flex-row lg:items-end gap-4">
+          <div className="space-y-1 flex-1">
+            <Label htmlFor="planogram-name">Planogram</Label>
+            <Input
+              id="planogram-name"
+              value={draft.name}
+              disabled={readOnly}
+              onChange={e => setDraft(current => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+          {!readOnly && (
+            <>
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="planogram-note">Change note</Label>
+                <Input
+                  id="planogram-note"
+                  value={note}
+                  placeholder="e.g. Summer reset"
+                  onChange={e => setNote(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setDraft(base)} disabled={!dirty || savePlanogram.isPending}>
+                  Discard
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={!dirty || problems.length > 0 || overtaken || savePlanogram.isPending}
+                >
+                  {savePlanogram.isPending ? "Saving..." : `Save as version ${base.version + 1}`}
+                </Button>
+              </div>
+            </>
+          )}
+          {isHistorical && (
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">Version {base.version} (read-only)</Badge>
+              {canRestore && (
+                <Button variant="outline" onClick={handleRestore} disabled={savePlanogram.isPending}>
+                  Restore as version {latest.version + 1}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+        {!readOnly && problems.length > 0 && (
+          <CardContent className="pt-0">
+            <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+              {problems.map(problem => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          </CardContent>
+        )}
+      </Card>
+
+      {draft.fixtures.map(fixture => (
+        <PlanogramFixtureEditor
+          key={fixture.id}
+          fixture={fixture}
+          items={placeable}
+          itemsById={itemsById}
+          readOnly={readOnly}
+          onChange={updateFixture}
+          onRemove={() => removeFixture(fixture.id)}
+        />
+      ))}
+      {!readOnly && (
+        <Button variant="outline" onClick={addFixture} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add fixture
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const PlanogramEditor = () => {
+  const navigate = useNavigate();
+  const { planogramId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { storePath } = useStore();
+  const { can } = usePermissions();
+  const { data: allVersions = [], isLoading, error } = usePlanogramVersions();
+  const { data: items = [] } = useInventory({ includeArchived: true });
+
+  const versions = versionsOf(allVersions, planogramId);
+  const latest = versions[0];
+  const requested = Number(searchParams.get("version"));
+  const viewing = (requested && versions.find(v => v.version === requested)) || latest;
+  const readOnly = !can('merchandising.manage') || viewing?.version !== latest?.version;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/merchandising"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Merchandising
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-accent/10">
+                <LayoutGrid className="h-5 w-5 text-accent" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">{latest?.name ?? "Planogram"}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {latest
+                    ? `Version ${latest.version} · ${latest.fixtures.length} fixtures · ${facingCount(latest)} facings`
+                    : "Shelf layout"}
+                </p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8">
+        {isLoading ? (
+          <p className="text-center py-12 text-muted-foreground">Loading planogram...</p>
+        ) : error ? (
+          <p className="text-center py-12 text-destructive">{error.message}</p>
+        ) : !latest ? (
+          <p className="text-center py-12 text-muted-foreground">Planogram {planogramId} was not found.</p>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+            <div className="xl:col-span-3">
+              <PlanogramWorkspace
+                key={readOnly ? `v${viewing.version}` : "latest"}
+                planogram={viewing}
+                latest={latest}
+                items={items}
+                readOnly={readOnly}
+                canRestore={can('merchandising.manage')}
+              />
+            </div>
+            <Card className="shadow-medium border border-border/50 h-fit">
+              <CardHeader>
+                <CardTitle>Versions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {versions.map(version => (
+                  <Link
+                    key={version.version}
+                    to={{ search: version === latest ? "" : `?version=${version.version}` }}
+                    className={`block rounded-md border p-3 text-sm hover:bg-muted/50 ${version === viewing ? "border-primary" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Version {version.version}</span>
+                      {version === latest && <Badge variant="outline">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTimestamp(version.savedAt)} · {version.savedBy}
+                    </p>
+                    {version.note && <p className="text-xs mt-1">{version.note}</p>}
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PlanogramEditor;
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import { useAuth } from "@/contexts/AuthContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import PromotionEditorDialog from "@/components/PromotionEditorDialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useInventory } from "@/hooks/use-inventory";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCancelPromotion, useCreatePromotion, usePromotions } from "@/hooks/use-promotions";
+import {
+  describePromotion,
+  Promotion,
+  PromotionFormValues,
+  promotionKindLabels,
+  PromotionStatus,
+  promotionStatus,
+  promotionStatusLabels,
+  sortPromotions,
+  toPromotion,
+} from "@/lib/promotions";
+import { ArrowLeft, BadgePercent, Plus } from "lucide-react";
+
+const statusVariants: Record<PromotionStatus, "default" | "secondary" | "outline"> = {
+  active: "default",
+  scheduled: "secondary",
+  ended: "outline",
+  cancelled: "outline",
+};
+
+const formatDay = (key: string) =>
+  new Date(`${key}T00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDates = (promotion: Promotion) => {
+  if (promotion.kind === 'price_change') return `From ${formatDay(promotion.startsOn)}`;
+  if (!promotion.endsOn) return `From ${formatDay(promotion.startsOn)}, until cancelled`;
+  return `${formatDay(promotion.startsOn)} – ${formatDay(promotion.endsOn)}`;
+};
+
+const Promotions = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { data: promotions = [], isLoading, error } = usePromotions();
+  const { data: items = [] } = useInventory({ includeArchived: true });
+  const createPromotion = useCreatePromotion();
+  const cancelPromotion = useCancelPromotion();
+  const [editing, setEditing] = useState(false);
+  const canManage = can('merchandising.manage');
+
+  const sorted = useMemo(() => sortPromotions(promotions), [promotions]);
+  const itemNames = useMemo(() => new Map(items.map(item => [item.id, item.name])), [items]);
+
+  const describeTargets = ({ targetType, targets }: Promotion) => {
+    const names = targetType === 'item' ? targets.map(id => itemNames.get(id) ?? id) : targets;
+    const shown = names.slice(0, 3).join(", ");
+    return names.length > 3 ? `${shown} and ${names.length - 3} more` : shown;
+  };
+
+  const handleSave = (values: PromotionFormValues) => {
+    createPromotion.mutate(toPromotion(values, user?.username ?? "unknown"), {
+      onSuccess: () => setEditing(false),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => navigate(storePath("/merchandising"))} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Merchandising
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-accent/10">
+                  <BadgePercent className="h-5 w-5 text-accent" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Promotions</h1>
+                  <p className="text-sm text-muted-foreground">Discounts, deals and scheduled price changes</p>
+                  <StoreSwitcher />
+                </div>
+              </div>
+            </div>
+            {canManage && (
+              <Button onClick={() => setEditing(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Promotion
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8">
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader>
+            <CardTitle>All Promotions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading promotions...</p>
+            ) : error ? (
+              <p className="text-center py-8 text-destructive">{error.message}</p>
+            ) : sorted.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No promotions yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Promotion</TableHead>
+                    <TableHead>Offer</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sorted.map(promotion => {
+                    const status = promotionStatus(promotion);
+                    return (
+                      <TableRow key={promotion.id} className={status === 'cancelled' ? "opacity-60" : ""}>
+                        <TableCell>
+                          <div className="font-medium">{promotion.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {promotionKindLabels[promotion.kind]} · by {promotion.createdBy}
+                          </div>
+                        </TableCell>
+                        <TableCell>{describePromotion(promotion)}</TableCell>
+                        <TableCell className="text-sm">
+                          {promotion.targetType === 'category' && (
+                            <span className="text-muted-foreground">Categories: </span>
+                          )}
+                          {describeTargets(promotion)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDates(promotion)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[status]}>{promotionStatusLabels[status]}</Badge>
+                        </TableCell>
+                        {canManage && (
+                          <TableCell>
+                            {(status === 'active' || status === 'scheduled') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={cancelPromotion.isPending}
+                                onClick={() => cancelPromotion.mutate(promotion)}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {editing && (
+        <PromotionEditorDialog
+          open
+          items={items}
+          isSubmitting={createPromotion.isPending}
+          onOpenChange={setEditing}
+          onSubmit={handleSave}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Promotions;
@@ -0,0 +1,305 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import ShelfLabel from "@/components/ShelfLabel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useShelfLabels } from "@/hooks/use-shelf-labels";
+import { LabelContent, LabelLayoutId, labelLayouts, labelsPerPage, paginateLabels } from "@/lib/shelfLabels";
+import { ArrowLeft, Printer, Search, Tag } from "lucide-react";
+
+type ListTab = 'queue' | 'all';
+
+const ShelfLabels = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { labels, queue, markPrinted, isLoading, error } = useShelfLabels();
+  const [tab, setTab] = useState<ListTab>('queue');
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('avery_5160');
+  const [skip, setSkip] = useState(0);
+  // The labels last sent to the printer, until they're confirmed or dismissed.
+  const [sent, setSent] = useState<LabelContent[] | null>(null);
+
+  const layout = labelLayouts[layoutId];
+  const queuedIds = useMemo(() => new Set(queue.map(label => label.itemId)), [queue]);
+  const listed = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return (tab === 'queue' ? queue : labels)
+      .filter(
+        label => !query || label.name.toLowerCase().includes(query) || label.itemId.toLowerCase().includes(query)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [tab, queue, labels, searchQuery]);
+  const selected = labels.filter(label => selectedIds.has(label.itemId));
+  const pages = paginateLabels(selected, layout, skip);
+
+  const toggle = (itemId: string, checked: boolean) =>
+    setSelectedIds(ids => {
+      const next = new Set(ids);
+      if (checked) next.add(itemId);
+      else next.delete(itemId);
+      return next;
+    });
+
+  const handlePrint = () => {
+    window.print();
+    setSent(selected);
+  };
+
+  const handleConfirm = () => {
+    markPrinted(sent);
+    setSelectedIds(new Set());
+    setSkip(0);
+    setSent(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5 print:min-h-0 print:bg-none">
+      {/* Sheet and label size for the browser's print dialog. */}
+      <style>{`@page { size: ${layout.pageWidth}in ${layout.pageHeight}in; margin: 0; }`}</style>
+
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10 print:hidden">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => navigate(storePath("/inventory"))} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Inventory
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <Tag className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Shelf Labels</h1>
+                  <p className="text-sm text-muted-foreground">Print price tags at today's prices</p>
+                  <StoreSwitcher />
+                </div>
+              </div>
+            </div>
+            <Button onClick={handlePrint} disabled={selected.length === 0} className="gap-2">
+              <Printer className="h-4 w-4" />
+              Print {selected.length > 0 && `${selected.length} label${selected.length === 1 ? "" : "s"}`}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6 print:max-w-none print:p-0">
+        {sent && (
+          <Card className="border-primary/50 print:hidden">
+            <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 py-4">
+              <p className="text-sm">
+                Did all {sent.length} labels print correctly? Confirming takes them off the reprint queue.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setSent(null)}>
+                  Not yet
+                </Button>
+                <Button onClick={handleConfirm}>Mark as printed</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_auto] print:hidden">
+          <Card className="shadow-medium border border-border/50">
+            <CardHeader className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle>Items</CardTitle>
+                <Tabs value={tab} onValueChange={value => setTab(value as ListTab)}>
+                  <TabsList>
+                    <TabsTrigger value="queue">Needs reprint ({queue.length})</TabsTrigger>
+                    <TabsTrigger value="all">All items</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by name or ID..."
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  disabled={listed.length === 0}
+                  onClick={() => setSelectedIds(ids => new Set([...ids, ...listed.map(label => label.itemId)]))}
+                >
+                  Select all
+                </Button>
+                <Button variant="outline" disabled={selectedIds.size === 0} onClick={() => setSelectedIds(new Set())}>
+                  Clear
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-center py-8 text-muted-foreground">Loading items...</p>
+              ) : error ? (
+                <p className="text-center py-8 text-destructive">{error.message}</p>
+              ) : listed.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">
+                  {tab === 'queue' && !searchQuery
+                    ? "Every label on the shelf is up to date."
+                    : "No items match your search."}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead>Promotion</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {listed.map(label => (
+                      <TableRow key={label.itemId}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(label.itemId)}
+                            onCheckedChange={checked => toggle(label.itemId, checked === true)}
+                            aria-label={`Print a label for ${label.name}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{label.name}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{label.itemId}</div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {label.regularPrice !== undefined && (
+                            <span className="mr-1 text-xs text-muted-foreground line-through">
+                              ${label.regularPrice.toFixed(2)}
+                            </span>
+                          )}
+                          ${label.price.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {label.promotion ?? ""}
+                          {tab === 'all' && queuedIds.has(label.itemId) && (
+                            <Badge variant="secondary" className="ml-2">
+                              Needs reprint
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-medium border border-border/50 lg:w-72 h-fit">
+            <CardHeader>
+              <CardTitle>Layout</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="label-layout">Labels</Label>
+                <Select
+                  value={layoutId}
+                  onValueChange={value => {
+                    setLayoutId(value as LabelLayoutId);
+                    setSkip(0);
+                  }}
+                >
+                  <SelectTrigger id="label-layout">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(labelLayouts).map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{layout.description}</p>
+              </div>
+              {labelsPerPage(layout) > 1 && (
+                <div className="space-y-2">
+                  <Label htmlFor="label-skip">Labels already used on the first sheet</Label>
+                  <Input
+                    id="label-skip"
+                    type="number"
+                    min={0}
+                    max={labelsPerPage(layout) - 1}
+                    value={skip}
+                    onChange={e => {
+                      const used = Math.floor(Number(e.target.value) || 0);
+                      setSkip(Math.min(labelsPerPage(layout) - 1, Math.max(0, used)));
+                    }}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Print at 100% scale with margins set to none. To save a PDF instead, pick "Save as PDF" as the printer.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {pages.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-lg font-semibold print:hidden">
+              Preview · {pages.length} {pages.length === 1 ? "page" : "pages"}
+            </h2>
+            <div className="label-sheets overflow-x-auto space-y-6 print:overflow-visible print:space-y-0">
+              {pages.map((page, pageIndex) => (
+                <div
+                  key={pageIndex}
+                  className="label-page bg-white shadow-medium mx-auto print:mx-0"
+                  style={{
+                    width: `${layout.pageWidth}in`,
+                    height: `${layout.pageHeight}in`,
+                    paddingTop: `${layout.marginTop}in`,
+                    paddingLeft: `${layout.marginLeft}in`,
+                  }}
+                >
+                  <div
+                    className="grid"
+                    style={{
+                      gridTemplateColumns: `repeat(${layout.columns}, ${layout.labelWidth}in)`,
+                      gridAutoRows: `${layout.labelHeight}in`,
+                      columnGap: `${layout.columnGap}in`,
+                      rowGap: `${layout.rowGap}in`,
+                    }}
+                  >
+                    {page.map((label, index) =>
+                      label ? (
+                        <div key={index} className="label-slot outline outline-1 outline-dashed outline-muted-foreground/30">
+                          <ShelfLabel label={label} layout={layout} />
+                        </div>
+                      ) : (
+                        <div key={index} />
+                      )
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ShelfLabels;
@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useDraftOrders, useOrderPath } from "@/hooks/use-orders";
+import { useAutoDraftSetting, useSuggestedOrders } from "@/hooks/use-replenishment";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useVendors } from "@/hooks/use-vendors";
+import type { SuggestedOrder } from "@/lib/replenishment";
+import {
+  checkMinimumOrder,
+  formatDeliveryDays,
+  groupByVendor,
+  nextDeliveryDate,
+  vendorForItem,
+  vendorItem,
+} from "@/lib/vendors";
+import { AlertTriangle, ArrowLeft, Lightbulb, PackagePlus, Truck } from "lucide-react";
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const SuggestedOrders = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const orderPath = useOrderPath();
+  const { suggestions, isLoading, error } = useSuggestedOrders();
+  const { data: vendors = [] } = useVendors();
+  const draftOrders = useDraftOrders();
+  const [autoDraft, setAutoDraft] = useAutoDraftSetting();
+  const { canReorderItem } = usePermissions();
+  // Quantities the reviewer changed, and items they unticked.
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  // One purchase order per vendor, so suggestions are reviewed vendor by vendor.
+  const groups = useMemo(
+    () => groupByVendor(suggestions, vendors, s => vendorForItem(vendors, s.item.id)?.id),
+    [suggestions, vendors]
+  );
+  const quantityFor = (itemId: string, suggested: number) => Number(quantities[itemId] ?? suggested);
+  const selectedIn = (entries: SuggestedOrder[]) =>
+    entries.filter(s => {
+      const quantity = quantityFor(s.item.id, s.quantity);
+      return (
+        !s.openOrder && canReorderItem(s.item) && !excluded.has(s.item.id) && Number.isInteger(quantity) && quantity > 0
+      );
+    });
+
+  const toggle = (itemId: string, checked: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (checked) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const handleDraft = (selected: SuggestedOrder[]) => {
+    draftOrders.mutate(
+      selected.map(s => ({ item: s.item, quantity: quantityFor(s.item.id, s.quantity) })),
+      { onSuccess: () => setQuantities({}) }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate(storePath("/orders"))} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Orders
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-warning/10">
+                <Lightbulb className="h-5 w-5 text-warning" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">Suggested Orders</h1>
+                <p className="text-sm text-muted-foreground">
+                  Items at or below their reorder point, topped up to par
+                </p>
+                <StoreSwitcher />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <Card className="shadow-medium border border-border/50">
+          <CardContent className="p-6 flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="auto-draft" className="text-base font-semibold">Auto-draft orders</Label>
+              <p className="text-sm text-muted-foreground">
+                Draft an order automatically when a count on this device drops to an item's reorder point.
+              </p>
+            </div>
+            <Switch id="auto-draft" checked={autoDraft} onCheckedChange={setAutoDraft} />
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <p className="text-center py-12 text-muted-foreground">Loading suggestions...</p>
+        ) : error ? (
+          <p className="text-center py-12 text-destructive">{error.message}</p>
+        ) : suggestions.length === 0 ? (
+          <Card className="shadow-medium border border-border/50">
+            <CardContent className="text-center py-12">
+              <h3 className="text-lg font-semibold mb-2">Nothing to order</h3>
+              <p className="text-muted-foreground">Every item is above its reorder point or already on order.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map(({ vendor, entries }) => {
+            const selected = selectedIn(entries);
+            const shortfall = vendor
+              ? checkMinimumOrder(
+                  vendor,
+                  selected.map(s => ({ itemId: s.item.id, quantity: quantityFor(s.item.id, s.quantity) }))
+                )
+              : null;
+            return (
+              <Card key={vendor?.id ?? "unassigned"} className="shadow-medium border border-border/50">
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2">
+                      {vendor ? <Truck className="h-5 w-5" /> : <PackagePlus className="h-5 w-5" />}
+                      {vendor?.name ?? "No vendor"} ({entries.length})
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {vendor
+                        ? `${vendor.leadTimeDays}-day lead time · delivers ${formatDeliveryDays(vendor.deliveryDays)}` +
+                          ` · next delivery ${formatDay(nextDeliveryDate(vendor))}`
+                        : "No vendor carries these items. Their drafts will need a supplier before they're sent."}
+                    </p>
+                    {shortfall && selected.length > 0 && (
+                      <p className="flex items-center gap-1 text-sm text-warning">
+                        <AlertTriangle className="h-4 w-4" />
+                        Below minimum order: {shortfall}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    onClick={() => handleDraft(selected)}
+                    disabled={selected.length === 0 || draftOrders.isPending}
+                  >
+                    Draft {vendor ? "PO" : "Orders"} ({selected.length})
+                  </Button>
+                </CardHeader>
+                <CardContent className="p-6 pt-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">On Hand</TableHead>
+                        <TableHead className="text-right">Reorder / Par</TableHead>
+                        <TableHead className="text-right">On Order</TableHead>
+                        <TableHead className="w-32">Order Qty</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map(({ item, onOrder, quantity, openOrder }) => {
+                        const canDraft = !openOrder && canReorderItem(item);
+                        const code = vendorItem(vendor, item.id)?.vendorCode;
+                        return (
+                          <TableRow key={item.id}>
+                            <TableCell>
+                              <Checkbox
+                                checked={canDraft && !excluded.has(item.id)}
+                                disabled={!canDraft}
+                                onCheckedChange={checked => toggle(item.id, checked === true)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <p className="font-medium">
+                                {item.name}
+                                {code && (
+                                  <Badge variant="outline" className="ml-2 font-mono text-xs">
+                                    {code}
+                                  </Badge>
+                                )}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {item.id} · {item.category} · pack of {item.packSize}
+                              </p>
+                            </TableCell>
+                            <TableCell className="text-right font-semibold text-destructive">{item.count}</TableCell>
+                            <TableCell className="text-right">
+                              {item.reorderPoint} / {item.parLevel}
+                            </TableCell>
+                            <TableCell className="text-right">{onOrder}</TableCell>
+                            <TableCell>
+                              {openOrder ? (
+                                <Link to={orderPath(openOrder.id)} className="text-sm text-primary underline">
+                                  Top up {openOrder.id} by {quantity}
+                                </Link>
+                              ) : (
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  step={item.packSize}
+                                  value={quantities[item.id] ?? String(quantity)}
+                                  disabled={!canDraft}
+                                  onChange={e =>
+                                    setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))
+                                  }
+                                  className="h-8"
+                                />
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SuggestedOrders;
@@ -0,0 +1,214 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useStore } from "@/contexts/StoreContext";
+import StoreSwitcher from "@/components/StoreSwitcher";
+import VendorEditorDialog from "@/components/VendorEditorDialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useInventory } from "@/hooks/use-inventory";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useCreateVendor, useUpdateVendor, useVendors } from "@/hooks/use-vendors";
+import {
+  createVendorId,
+  formatDeliveryDays,
+  toVendorDetails,
+  Vendor,
+  vendorForItem,
+  VendorFormValues,
+} from "@/lib/vendors";
+import { Archive, ArchiveRestore, ArrowLeft, Pencil, Plus, Truck } from "lucide-react";
+
+const describeMinimum = ({ minimumOrderValue, minimumOrderUnits }: Vendor) =>
+  [minimumOrderValue && `$${minimumOrderValue.toFixed(2)}`, minimumOrderUnits && `${minimumOrderUnits} units`]
+    .filter(Boolean)
+    .join(" and ") || "None";
+
+const Vendors = () => {
+  const navigate = useNavigate();
+  const { storePath } = useStore();
+  const { can } = usePermissions();
+  const { data: vendors = [], isLoading, error } = useVendors();
+  const { data: items = [] } = useInventory();
+  const createVendor = useCreateVendor();
+  const updateVendor = useUpdateVendor();
+  const [showArchived, setShowArchived] = useState(false);
+  // The open editor: `vendor` is absent when adding a new one.
+  const [editor, setEditor] = useState<{ vendor?: Vendor } | null>(null);
+  const canManage = can('orders.manage');
+
+  const archivedCount = vendors.filter(vendor => vendor.archived).length;
+  const visibleVendors = useMemo(
+    () =>
+      vendors
+        .filter(vendor => showArchived || !vendor.archived)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [vendors, showArchived]
+  );
+  // Active items no active vendor carries, which can only be ordered by hand.
+  const uncovered = items.filter(item => !vendorForItem(vendors, item.id));
+
+  const handleSave = (values: VendorFormValues) => {
+    const details = toVendorDetails(values);
+    const onSuccess = () => setEditor(null);
+    if (editor?.vendor) {
+      updateVendor.mutate({ id: editor.vendor.id, changes: details }, { onSuccess });
+    } else {
+      createVendor.mutate({ ...details, id: createVendorId() }, { onSuccess });
+    }
+  };
+
+  const setArchived = (vendor: Vendor, archived: boolean) => {
+    updateVendor.mutate({ id: vendor.id, changes: { archived } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-accent/5">
+      {/* Header */}
+      <header className="border-b bg-card/95 backdrop-blur-sm shadow-soft sticky top-0 z-10">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => navigate(storePath("/orders"))} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Orders
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-info/10">
+                  <Truck className="h-5 w-5 text-info" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold">Vendors</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {vendors.length - archivedCount} active • {archivedCount} archived
+                  </p>
+                  <StoreSwitcher />
+                </div>
+              </div>
+            </div>
+            {canManage && (
+              <Button onClick={() => setEditor({})} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Vendor
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {uncovered.length > 0 && (
+          <Card className="border-warning/50">
+            <CardContent className="py-4 text-sm">
+              <span className="font-medium">
+                {uncovered.length} item{uncovered.length === 1 ? " isn't" : "s aren't"} in any vendor's catalog:
+              </span>{" "}
+              <span className="text-muted-foreground">
+                {uncovered.map(item => item.name).join(", ")}. Their suggested orders are drafted without a vendor.
+              </span>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="shadow-medium border border-border/50">
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <CardTitle>Vendor List</CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived">Show archived</Label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading vendors...</p>
+            ) : error ? (
+              <p className="text-center py-8 text-destructive">{error.message}</p>
+            ) : visibleVendors.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No vendors yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead className="text-right">Lead Time</TableHead>
+                    <TableHead>Delivers</TableHead>
+                    <TableHead>Minimum Order</TableHead>
+                    <TableHead className="text-right">Items</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleVendors.map(vendor => (
+                    <TableRow key={vendor.id} className={vendor.archived ? "opacity-60" : ""}>
+                      <TableCell>
+                        <div className="font-medium">{vendor.name}</div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground font-mono">{vendor.id}</span>
+                          {vendor.archived && <Badge variant="secondary">Archived</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{vendor.contactName ?? "—"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[vendor.phone, vendor.email].filter(Boolean).join(" · ")}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {vendor.leadTimeDays} day{vendor.leadTimeDays === 1 ? "" : "s"}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDeliveryDays(vendor.deliveryDays)}</TableCell>
+                      <TableCell className="text-sm">{describeMinimum(vendor)}</TableCell>
+                      <TableCell className="text-right">{vendor.items.length}</TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => setEditor({ vendor })} className="gap-1">
+                              <Pencil className="h-3 w-3" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setArchived(vendor, !vendor.archived)}
+                              disabled={updateVendor.isPending && updateVendor.variables?.id === vendor.id}
+                              className="gap-1"
+                            >
+                              {vendor.archived ? (
+                                <ArchiveRestore className="h-3 w-3" />
+                              ) : (
+                                <Archive className="h-3 w-3" />
+                              )}
+                              {vendor.archived ? "Restore" : "Archive"}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {editor && (
+        <VendorEditorDialog
+          key={editor.vendor?.id ?? "new"}
+          open
+          vendor={editor.vendor}
+          items={items}
+          isSubmitting={createVendor.isPending || updateVendor.isPending}
+          onOpenChange={open => !open && setEditor(null)}
+          onSubmit={handleSave}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Vendors;
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SYNC_GATEWAY_URL?: string;
+  readonly VITE_SYNC_GATEWAY_DATABASE?: string;
+  readonly VITE_SYNC_GATEWAY_SCOPE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}